@@ -1,48 +1,123 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import PassageSelector from './components/PassageSelector';
 import BibleText from './components/BibleText';
+import TranslationComparison from './components/TranslationComparison';
 import WordTooltip from './components/WordTooltip';
-import BibleTrackerModal from './components/BibleTrackerModal';
+import BibleTrackerModal, { TrackerTab } from './components/BibleTrackerModal';
+import TodayReadingCard from './components/TodayReadingCard';
+import ConcordanceModal, { ConcordanceTarget } from './components/ConcordanceModal';
+import CrossReferencePanel, { CrossReferenceTarget } from './components/CrossReferencePanel';
+import SearchModal from './components/SearchModal';
+import VocabularyModal from './components/VocabularyModal';
 import FloatingPlayer from './components/FloatingPlayer';
 import AudioControls from './components/AudioControls';
 import Spinner from './components/Spinner';
-import { getWordDefinition, setSessionApiKey, getOriginalPassageText, getVersePronunciation, streamPassageText } from './services/geminiService';
-import { TooltipData, BibleBookStructure, OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS, OriginalPassage } from './types';
+import CacheControls from './components/CacheControls';
+import UserDataControls from './components/UserDataControls';
+import SyncStatusIndicator from './components/SyncStatusIndicator';
+import { getSyncConfig, saveSyncConfig, getLastSyncedAt, syncNow, SyncError } from './services/syncService';
+import QuickJump from './components/QuickJump';
+import NotesPanel from './components/NotesPanel';
+import BookmarksMenu from './components/BookmarksMenu';
+import { getWordDefinition, setSessionApiKey, getOriginalPassageText, getVersePronunciation, getWordPronunciation, streamPassageText } from './services/geminiService';
+import { GeminiApiError, getApiErrorMessage, isAbortError } from './services/apiErrors';
+import { getOfflineLibrary } from './services/offlineService';
+import { enrichDefinition } from './services/lexiconService';
+import { isConcordanceAvailable } from './services/concordanceService';
+import { TooltipData, BibleBookStructure, OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS, OfflineLibrary, PassageRange, PassageSection, Annotations, HighlightColor, VerseRef, Bookmark, LastPassage, ChapterRef, ReadingPlanConfig, ReadingStatus, SyncConfig, SyncStatus, DisplayPreferences, ReviewDirection, ReviewGrade, VocabularyCard, ComparisonColumn } from './types';
 import { BIBLE_STRUCTURE } from './data/bibleStructure';
+import { COMPARISON_COLUMNS, DEFAULT_TRANSLATION, getTranslation } from './data/translations';
+import { buildRoute, parseRoute, updateRoute } from './utils/routeUtils';
+import { getAnnotations, setHighlight, saveNote, deleteNote } from './utils/annotationUtils';
+import { getReadingPlanConfig, saveReadingPlanConfig, clearReadingPlanConfig, generateReadingPlan } from './utils/readingPlanUtils';
+import { getReadingStatus, markChapterAsRead, setChaptersReadStatus } from './utils/trackerUtils';
+import { getBookmarks, addBookmark, removeBookmark, updateBookmarkLabel, isBookmarked, bookmarkId, getLastPassage, saveLastPassage } from './utils/bookmarkUtils';
+import { findMissingVerses, parseKoreanPassage } from './utils/passageNormalizer';
+import { formatPassageRef, getChapterVerseBounds, getDefinitionContext, getRangeChapters, getTestament, getVerseCount, trimOriginalPassage, trimPassageText, wholeChapterRange } from './utils/referenceUtils';
 import { decode, decodeAudioData } from './utils/audioUtils';
+import { getDisplayPreferences, saveDisplayPreferences } from './utils/preferenceUtils';
+import { addVocabularyCard, getDueReviews, getVocabulary, isInVocabulary, markVocabularyAudio, recordReview, removeVocabularyCard } from './utils/vocabularyUtils';
 
 export type ChapterAudioState = 'idle' | 'loading' | 'playing' | 'error';
 
+const SYNC_INTERVAL_MS = 60 * 1000;
+const SYNC_DEBOUNCE_MS = 3000;
+
+const cleanWord = (word: string) => word.replace(/[.,;:?!()"']/g, '');
+
+interface PassageSelectOptions {
+    focusVerse?: string | null; // chapter-qualified, e.g. "3:16"
+    history?: 'push' | 'replace' | 'none';
+}
+
 const App: React.FC = () => {
-    const [passage, setPassage] = useState<string>('');
-    const [originalPassage, setOriginalPassage] = useState<OriginalPassage | null>(null);
+    const [passageSections, setPassageSections] = useState<PassageSection[]>([]);
+    const [passageError, setPassageError] = useState<string | null>(null);
+    const [currentRange, setCurrentRange] = useState<PassageRange | null>(null);
     const [passageRef, setPassageRef] = useState<string>('');
     const [isLoadingPassage, setIsLoadingPassage] = useState<boolean>(false);
     const [tooltipData, setTooltipData] = useState<TooltipData | null>(null);
     const [isScrolling, setIsScrolling] = useState(false);
     
-    const [selectedTestament, setSelectedTestament] = useState<'구약성경' | '신약성경'>('구약성경');
-    const [selectedBook, setSelectedBook] = useState<string>(OLD_TESTAMENT_BOOKS[0]);
+    // Start on the book that was open last, if any, so the resume offer and the selector agree.
+    const [selectedBook, setSelectedBook] = useState<string>(() => getLastPassage()?.range.start.book || OLD_TESTAMENT_BOOKS[0]);
+    const [selectedTestament, setSelectedTestament] = useState<'구약성경' | '신약성경'>(() => getTestament(selectedBook));
     const [selectedChapter, setSelectedChapter] = useState<string | null>(null);
-    const [currentBookStructure, setCurrentBookStructure] = useState<BibleBookStructure | null>(null);
+    const currentBookStructure: BibleBookStructure | null = BIBLE_STRUCTURE[selectedBook] || null;
     
     const [apiKeyNeeded, setApiKeyNeeded] = useState(false);
     const [apiError, setApiError] = useState<string | null>(null);
 
     const [isTrackerVisible, setIsTrackerVisible] = useState(false);
+    const [trackerTab, setTrackerTab] = useState<TrackerTab>('OT');
+    const [readingStatus, setReadingStatus] = useState<ReadingStatus>(() => getReadingStatus());
+    const [planConfig, setPlanConfig] = useState<ReadingPlanConfig | null>(() => getReadingPlanConfig());
+    const plan = useMemo(() => planConfig ? generateReadingPlan(planConfig) : [], [planConfig]);
+    const [isNotesVisible, setIsNotesVisible] = useState(false);
+    const [concordanceTarget, setConcordanceTarget] = useState<ConcordanceTarget | null>(null);
+    const [crossReferenceTarget, setCrossReferenceTarget] = useState<CrossReferenceTarget | null>(null);
+    const [isSearchVisible, setIsSearchVisible] = useState(false);
+    const [isVocabularyVisible, setIsVocabularyVisible] = useState(false);
+    const [vocabulary, setVocabulary] = useState<VocabularyCard[]>(() => getVocabulary());
+    const [annotations, setAnnotations] = useState<Annotations>(() => getAnnotations());
+    const [bookmarks, setBookmarks] = useState<Bookmark[]>(() => getBookmarks());
+    // Offered on startup unless the URL already points at a passage.
+    const [resumePassage, setResumePassage] = useState<LastPassage | null>(() => window.location.hash ? null : getLastPassage());
+
+    const [syncConfig, setSyncConfig] = useState<SyncConfig | null>(getSyncConfig);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>(() => getSyncConfig() ? 'syncing' : 'disabled');
+    const [syncError, setSyncError] = useState<string | null>(null);
+    const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(getLastSyncedAt);
+
+    const [displayPreferences, setDisplayPreferences] = useState<DisplayPreferences>(getDisplayPreferences);
+
+    const [isOnline, setIsOnline] = useState(navigator.onLine);
+    const [offlineLibrary, setOfflineLibrary] = useState<OfflineLibrary>(getOfflineLibrary);
 
     const [chapterAudioState, setChapterAudioState] = useState<ChapterAudioState>('idle');
     const [playbackRate, setPlaybackRate] = useState(1.0);
     const [currentlyPlayingVerse, setCurrentlyPlayingVerse] = useState<string | null>(null);
+    const [focusedVerse, setFocusedVerse] = useState<string | null>(null);
 
     const audioContextRef = useRef<AudioContext | null>(null);
     const activeAudioSources = useRef(new Set<AudioBufferSourceNode>());
-    const playbackController = useRef<{ isCancelled: boolean } | null>(null);
+    const playbackController = useRef<{ isCancelled: boolean; abortController: AbortController } | null>(null);
     const verseRefs = useRef<Record<string, HTMLDivElement | null>>({});
     const mainRef = useRef<HTMLElement>(null);
+    const loadIdRef = useRef(0);
+    const loadAbortRef = useRef<AbortController | null>(null);
+    const definitionAbortRef = useRef<AbortController | null>(null);
+    const syncInFlightRef = useRef(false);
+    const syncQueuedRef = useRef(false);
+    const pendingScrollVerseRef = useRef<string | null>(null);
+    const pendingScrollYRef = useRef<number | null>(null);
+    // Chapters already logged as read for the current passage, and when the current chapter's reading began.
+    const autoMarkedChaptersRef = useRef(new Set<string>());
+    const readingStartedAtRef = useRef(Date.now());
 
     const hoverTimeoutRef = useRef<number | null>(null);
     const hideTimeoutRef = useRef<number | null>(null);
+    const inspectedWordRef = useRef<HTMLElement | null>(null);
     const scrollTimeoutRef = useRef<number | null>(null);
 
     useEffect(() => {
@@ -54,6 +129,21 @@ const App: React.FC = () => {
         }
     }, []);
 
+    useEffect(() => {
+        const handleOnline = () => setIsOnline(true);
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    const refreshOfflineLibrary = useCallback(() => {
+        setOfflineLibrary(getOfflineLibrary());
+    }, []);
+
     useEffect(() => {
         const handleScroll = () => {
             setIsScrolling(true);
@@ -61,7 +151,7 @@ const App: React.FC = () => {
                 clearTimeout(hoverTimeoutRef.current);
                 hoverTimeoutRef.current = null;
             }
-            setTooltipData(null);
+            setTooltipData(prev => prev?.pinned ? prev : null);
 
             if (scrollTimeoutRef.current) {
                 clearTimeout(scrollTimeoutRef.current);
@@ -81,19 +171,10 @@ const App: React.FC = () => {
         };
     }, []);
 
-    useEffect(() => {
-        // This effect should only run when the selected book changes.
-        // It resets the chapter, passage, and other related states.
-        setSelectedChapter(null);
-        setPassage('');
-        setOriginalPassage(null);
-        setPassageRef('');
-        setCurrentBookStructure(BIBLE_STRUCTURE[selectedBook] || null);
-    }, [selectedBook]);
-
     const cleanupChapterAudio = useCallback(() => {
         if (playbackController.current) {
             playbackController.current.isCancelled = true;
+            playbackController.current.abortController.abort();
             playbackController.current = null;
         }
         activeAudioSources.current.forEach(source => {
@@ -109,16 +190,50 @@ const App: React.FC = () => {
         return () => cleanupChapterAudio();
     }, [cleanupChapterAudio]);
 
+    // Changing the book from the selector clears the chapter, passage, and other related states.
+    const resetPassage = () => {
+        loadIdRef.current++;
+        loadAbortRef.current?.abort();
+        cleanupChapterAudio();
+        setSelectedChapter(null);
+        setCurrentRange(null);
+        setPassageSections([]);
+        setPassageError(null);
+        setPassageRef('');
+        setTooltipData(null);
+        setFocusedVerse(null);
+        setIsLoadingPassage(false);
+    };
+
     const handleTestamentChange = (testament: '구약성경' | '신약성경') => {
         setSelectedTestament(testament);
         const newBook = testament === '구약성경' ? OLD_TESTAMENT_BOOKS[0] : NEW_TESTAMENT_BOOKS[0];
-        setSelectedBook(newBook);
+        if (newBook !== selectedBook) {
+            setSelectedBook(newBook);
+            resetPassage();
+            updateRoute(buildRoute(newBook, null), 'push');
+        }
     };
 
     const handleBookChange = (book: string) => {
-        setSelectedBook(book);
+        if (book !== selectedBook) {
+            setSelectedBook(book);
+            resetPassage();
+            updateRoute(buildRoute(book, null), 'push');
+        }
     };
     
+    // Auth errors without a deployment key fall back to the key form; other kinds get a message.
+    const reportApiError = useCallback((error: unknown) => {
+        if (error instanceof GeminiApiError && error.kind === 'auth' && !process.env.API_KEY) {
+            setApiKeyNeeded(true);
+        }
+        const message = getApiErrorMessage(error);
+        if (message) {
+            setApiError(message);
+        }
+    }, []);
+
     const handleApiKeySubmit = (apiKey: string) => {
         if (apiKey.trim()) {
             setSessionApiKey(apiKey.trim());
@@ -132,70 +247,444 @@ const App: React.FC = () => {
         for await (const _ of stream) { /* consume to cache */ }
     };
 
-    const handlePassageSelect = useCallback(async (book: string, chapter: string) => {
+    const handlePassageSelect = useCallback(async (range: PassageRange, options: PassageSelectOptions = {}) => {
         if (apiKeyNeeded) return;
+
+        const { focusVerse = null, history = 'push' } = options;
+        const book = range.start.book;
+        const testament = getTestament(book);
+        const loadId = ++loadIdRef.current;
+        loadAbortRef.current?.abort();
+        const abortController = new AbortController();
+        loadAbortRef.current = abortController;
+        const { signal } = abortController;
+        const chaptersInRange = getRangeChapters(range);
+        const updateSection = (index: number, update: Partial<PassageSection>) => {
+            if (loadIdRef.current !== loadId) return;
+            setPassageSections(prev => prev.map((section, i) => i === index ? { ...section, ...update } : section));
+        };
         
-        mainRef.current?.scrollIntoView({ behavior: 'smooth' });
+        if (!focusVerse) {
+            mainRef.current?.scrollIntoView({ behavior: 'smooth' });
+        }
         cleanupChapterAudio();
-        setSelectedChapter(chapter);
+        setSelectedTestament(testament);
+        setSelectedBook(book);
+        setSelectedChapter(range.start.chapter);
+        setCurrentRange(range);
+        setFocusedVerse(focusVerse);
+        pendingScrollVerseRef.current = focusVerse;
+        autoMarkedChaptersRef.current = new Set();
+        readingStartedAtRef.current = Date.now();
+        updateRoute(buildRoute(book, range, focusVerse), history);
         setIsLoadingPassage(true);
-        setPassage('');
-        setOriginalPassage(null);
+        setPassageSections(chaptersInRange.map(chapter => ({ chapter, text: '', chapterText: '', originalPassage: null, missingVerses: [], missingOriginalVerses: [] })));
+        setPassageError(null);
         setTooltipData(null);
         setApiError(null);
         verseRefs.current = {};
 
         try {
-            // Fetch original passage in the background, don't wait for it
-            getOriginalPassageText(book, chapter, selectedTestament)
-                .then(setOriginalPassage)
-                .catch(err => {
-                    console.error('Failed to fetch original passage:', err);
-                     setApiError('원어 본문을 가져오는 데 실패했습니다.');
-                });
-
-            const verseCount = BIBLE_STRUCTURE[book]?.[chapter];
+            // Fetch original passages in the background, don't wait for them
+            chaptersInRange.forEach((chapter, index) => {
+                const { from, to } = getChapterVerseBounds(range, chapter);
+                getOriginalPassageText(book, chapter, testament, { signal })
+                    .then(original => updateSection(index, {
+                        originalPassage: trimOriginalPassage(original, from, to),
+                        missingOriginalVerses: findMissingVerses(Object.keys(original), from, to),
+                    }))
+                    .catch(err => {
+                        if (isAbortError(err)) return;
+                        console.error('Failed to fetch original passage:', err);
+                        setApiError(getApiErrorMessage(err) ?? '원어 본문을 가져오는 데 실패했습니다.');
+                    });
+            });
 
-            // Stream the main passage text
-            const stream = streamPassageText(book, chapter, verseCount);
-            let fullText = '';
-            for await (const chunk of stream) {
-                fullText += chunk;
-                setPassage(fullText);
+            // Stream each chapter's text in order, trimmed to the selected verses.
+            // Once a chapter's stream ends, swap in the normalized text with any re-fetched verses.
+            for (const [index, chapter] of chaptersInRange.entries()) {
+                const { from, to } = getChapterVerseBounds(range, chapter);
+                const stream = streamPassageText(book, chapter, DEFAULT_TRANSLATION, getVerseCount(book, chapter), { signal });
+                let fullText = '';
+                let result = await stream.next();
+                while (!result.done) {
+                    fullText += result.value;
+                    updateSection(index, { text: trimPassageText(fullText, from, to), chapterText: fullText });
+                    result = await stream.next();
+                }
+                const normalized = result.value;
+                updateSection(index, {
+                    text: trimPassageText(normalized.text, from, to),
+                    chapterText: normalized.text,
+                    missingVerses: findMissingVerses(normalized.verses.map(verse => verse.number), from, to),
+                });
             }
 
-            setPassageRef(`${book} ${chapter}장`);
+            if (loadIdRef.current !== loadId) return;
+            setPassageRef(formatPassageRef(range));
 
             // Pre-fetching for smoother navigation
             const chapters = Object.keys(BIBLE_STRUCTURE[book] || {});
-            const currentChapterIndex = chapters.indexOf(chapter);
+            const firstChapterIndex = chapters.indexOf(range.start.chapter);
+            const lastChapterIndex = chapters.indexOf(range.end.chapter);
             
             const prefetchChapter = (b: string, c: string, testament: '구약성경' | '신약성경') => {
                 const vc = BIBLE_STRUCTURE[b]?.[c];
-                consumeStream(streamPassageText(b, c, vc)).catch(err => console.warn(`[Pre-fetch] Failed: ${b} ${c}`, err));
-                getOriginalPassageText(b, c, testament).catch(err => console.warn(`[Pre-fetch Original] Failed: ${b} ${c}`, err));
+                consumeStream(streamPassageText(b, c, DEFAULT_TRANSLATION, vc, { priority: 'prefetch' })).catch(err => console.warn(`[Pre-fetch] Failed: ${b} ${c}`, err));
+                getOriginalPassageText(b, c, testament, { priority: 'prefetch' }).catch(err => console.warn(`[Pre-fetch Original] Failed: ${b} ${c}`, err));
             };
 
-            if (currentChapterIndex < chapters.length - 1) {
-                const nextChapter = chapters[currentChapterIndex + 1];
-                prefetchChapter(book, nextChapter, selectedTestament);
+            if (lastChapterIndex > -1 && lastChapterIndex < chapters.length - 1) {
+                const nextChapter = chapters[lastChapterIndex + 1];
+                prefetchChapter(book, nextChapter, testament);
             }
-            if (currentChapterIndex > 0) {
-                const prevChapter = chapters[currentChapterIndex - 1];
-                prefetchChapter(book, prevChapter, selectedTestament);
+            if (firstChapterIndex > 0) {
+                const prevChapter = chapters[firstChapterIndex - 1];
+                prefetchChapter(book, prevChapter, testament);
             }
 
         } catch (error) {
+            if (isAbortError(error)) return;
             console.error('Failed to fetch passage:', error);
-            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-            setPassage(`본문을 가져오는 데 실패했습니다: ${errorMessage}`);
-            if (errorMessage.includes("API")) {
-                setApiError(errorMessage);
+            const errorMessage = getApiErrorMessage(error) ?? (error instanceof Error ? error.message : 'An unknown error occurred.');
+            if (loadIdRef.current === loadId) {
+                setPassageError(`본문을 가져오는 데 실패했습니다: ${errorMessage}`);
+            }
+            reportApiError(error);
+        } finally {
+            if (loadIdRef.current === loadId) {
+                setIsLoadingPassage(false);
+            }
+        }
+    }, [apiKeyNeeded, cleanupChapterAudio, reportApiError]);
+
+    // Keep refs to the latest handlers for the history listeners, which are registered once.
+    const handlePassageSelectRef = useRef(handlePassageSelect);
+    handlePassageSelectRef.current = handlePassageSelect;
+    const resetPassageRef = useRef(resetPassage);
+    resetPassageRef.current = resetPassage;
+
+    useEffect(() => {
+        const applyRoute = () => {
+            const route = parseRoute(window.location.hash);
+            if (route?.range) {
+                handlePassageSelectRef.current(route.range, { focusVerse: route.focusVerse, history: 'none' });
+            } else {
+                if (route) {
+                    setSelectedTestament(getTestament(route.book));
+                    setSelectedBook(route.book);
+                }
+                resetPassageRef.current();
             }
+        };
+
+        if (window.location.hash) {
+            applyRoute();
+        }
+        window.addEventListener('popstate', applyRoute);
+        return () => window.removeEventListener('popstate', applyRoute);
+    }, []);
+
+    useEffect(() => {
+        // Restore the saved scroll position of a resumed passage once it has loaded.
+        if (pendingScrollYRef.current !== null && !isLoadingPassage && passageSections.some(section => section.text !== '')) {
+            window.scrollTo({ top: pendingScrollYRef.current });
+            pendingScrollYRef.current = null;
+        }
+    }, [isLoadingPassage, passageSections]);
+
+    useEffect(() => {
+        if (!currentRange) return;
+        let saveTimeout: number | null = null;
+        const save = () => saveLastPassage({ range: currentRange, focusVerse: focusedVerse, scrollY: window.scrollY, savedAt: Date.now() });
+        const handleScroll = () => {
+            if (saveTimeout) clearTimeout(saveTimeout);
+            saveTimeout = window.setTimeout(save, 500);
+        };
+        save();
+        window.addEventListener('scroll', handleScroll, { passive: true });
+        return () => {
+            window.removeEventListener('scroll', handleScroll);
+            if (saveTimeout) clearTimeout(saveTimeout);
+        };
+    }, [currentRange, focusedVerse]);
+
+    useEffect(() => {
+        // Scroll to a linked verse once its chapter has finished loading.
+        const verseKey = pendingScrollVerseRef.current;
+        if (!verseKey || isLoadingPassage) return;
+        const element = verseRefs.current[verseKey];
+        if (element) {
+            pendingScrollVerseRef.current = null;
+            element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+    }, [isLoadingPassage, passageSections]);
+
+    // Annotation helpers write to localStorage; re-read afterwards so every view stays in sync.
+    const handleHighlightChange = useCallback((ref: VerseRef, color: HighlightColor | null) => {
+        setHighlight(ref, color);
+        setAnnotations(getAnnotations());
+    }, []);
+
+    const handleNoteSave = useCallback((range: PassageRange, markdown: string) => {
+        saveNote(range, markdown);
+        setAnnotations(getAnnotations());
+    }, []);
+
+    const handleNoteDelete = useCallback((id: string) => {
+        deleteNote(id);
+        setAnnotations(getAnnotations());
+    }, []);
+
+    const handleResume = () => {
+        if (!resumePassage) return;
+        pendingScrollYRef.current = resumePassage.focusVerse ? null : resumePassage.scrollY;
+        handlePassageSelect(resumePassage.range, { focusVerse: resumePassage.focusVerse });
+        setResumePassage(null);
+    };
+
+    const handleAddBookmark = useCallback((book: string, chapter: string, label: string) => {
+        addBookmark(book, chapter, undefined, label);
+        setBookmarks(getBookmarks());
+    }, []);
+
+    const handleRemoveBookmark = useCallback((id: string) => {
+        removeBookmark(id);
+        setBookmarks(getBookmarks());
+    }, []);
+
+    const handleBookmarkLabelChange = useCallback((id: string, label: string) => {
+        updateBookmarkLabel(id, label);
+        setBookmarks(getBookmarks());
+    }, []);
+
+    const handleToggleVerseBookmark = useCallback((book: string, chapter: string, verse: string) => {
+        if (isBookmarked(getBookmarks(), book, chapter, verse)) {
+            removeBookmark(bookmarkId(book, chapter, verse));
+        } else {
+            addBookmark(book, chapter, verse);
+        }
+        setBookmarks(getBookmarks());
+    }, []);
+
+    const handleBookmarkNavigate = (bookmark: Bookmark) => {
+        handlePassageSelect(wholeChapterRange(bookmark.book, bookmark.chapter), {
+            focusVerse: bookmark.verse ? `${bookmark.chapter}:${bookmark.verse}` : null,
+        });
+    };
+
+    // Re-reads everything an import or sync can change.
+    const refreshUserData = useCallback(() => {
+        setReadingStatus(getReadingStatus());
+        setAnnotations(getAnnotations());
+        setBookmarks(getBookmarks());
+        setPlanConfig(getReadingPlanConfig());
+        setVocabulary(getVocabulary());
+        setDisplayPreferences(getDisplayPreferences());
+    }, []);
+
+    const runSync = useCallback(async () => {
+        if (syncInFlightRef.current) {
+            // Run once more afterwards so edits made during this sync are not left waiting.
+            syncQueuedRef.current = true;
+            return;
+        }
+        syncInFlightRef.current = true;
+        try {
+            do {
+                syncQueuedRef.current = false;
+                if (!getSyncConfig()) return;
+                setSyncStatus('syncing');
+                try {
+                    const { changed } = await syncNow();
+                    if (changed) refreshUserData();
+                    setSyncStatus('synced');
+                    setSyncError(null);
+                    setLastSyncedAt(getLastSyncedAt());
+                } catch (error) {
+                    console.error('Sync failed', error);
+                    const isOffline = error instanceof SyncError && error.offline;
+                    setSyncStatus(isOffline ? 'offline' : 'error');
+                    setSyncError(error instanceof SyncError ? error.message : '동기화하지 못했습니다.');
+                }
+            } while (syncQueuedRef.current);
         } finally {
-            setIsLoadingPassage(false);
+            syncInFlightRef.current = false;
         }
-    }, [apiKeyNeeded, selectedTestament, cleanupChapterAudio]);
+    }, [refreshUserData]);
+
+    const handleSyncConfigChange = useCallback((config: SyncConfig | null) => {
+        saveSyncConfig(config);
+        setSyncConfig(config);
+        setSyncError(null);
+        setLastSyncedAt(null);
+        setSyncStatus(config ? 'syncing' : 'disabled');
+    }, []);
+
+    useEffect(() => {
+        if (!syncConfig) return;
+        runSync();
+        const interval = setInterval(runSync, SYNC_INTERVAL_MS);
+        window.addEventListener('online', runSync);
+        window.addEventListener('focus', runSync);
+        return () => {
+            clearInterval(interval);
+            window.removeEventListener('online', runSync);
+            window.removeEventListener('focus', runSync);
+        };
+    }, [syncConfig, runSync]);
+
+    // Push local edits shortly after they happen.
+    useEffect(() => {
+        if (!syncConfig) return;
+        const timeout = setTimeout(runSync, SYNC_DEBOUNCE_MS);
+        return () => clearTimeout(timeout);
+    }, [readingStatus, annotations, syncConfig, runSync]);
+
+    const updateDisplayPreferences = (changes: Partial<DisplayPreferences>) => {
+        const preferences = { ...displayPreferences, ...changes };
+        saveDisplayPreferences(preferences);
+        setDisplayPreferences(preferences);
+    };
+
+    const toggleInterlinear = () => updateDisplayPreferences({ interlinear: !displayPreferences.interlinear });
+
+    const toggleComparison = () => updateDisplayPreferences({ comparison: !displayPreferences.comparison });
+
+    // Columns keep the order of COMPARISON_COLUMNS whatever order they were ticked in.
+    const toggleComparisonColumn = (column: ComparisonColumn) => {
+        const selected = displayPreferences.comparisonColumns;
+        const next = selected.includes(column) ? selected.filter(other => other !== column) : [...selected, column];
+        updateDisplayPreferences({ comparisonColumns: COMPARISON_COLUMNS.filter(other => next.includes(other)) });
+    };
+
+    const openTracker = (tab: TrackerTab) => {
+        setTrackerTab(tab);
+        setIsTrackerVisible(true);
+    };
+
+    const handlePlanConfigChange = useCallback((config: ReadingPlanConfig | null) => {
+        if (config) {
+            saveReadingPlanConfig(config);
+        } else {
+            clearReadingPlanConfig();
+        }
+        setPlanConfig(config);
+    }, []);
+
+    const handleSetChaptersRead = useCallback((chapters: ChapterRef[], read: boolean) => {
+        setChaptersReadStatus(chapters, read);
+        setReadingStatus(getReadingStatus());
+    }, []);
+
+    const handlePlanPassageOpen = (range: PassageRange) => {
+        setIsTrackerVisible(false);
+        handlePassageSelect(range);
+    };
+
+    const handleNoteNavigate = (range: PassageRange, focusVerse: VerseRef) => {
+        handlePassageSelect(range, { focusVerse: `${focusVerse.chapter}:${focusVerse.verse}` });
+    };
+
+    const handleShowOccurrences = () => {
+        if (!tooltipData?.definition) return;
+        const book = currentRange?.start.book || selectedBook;
+        setConcordanceTarget({
+            definition: tooltipData.definition,
+            ref: { book, chapter: tooltipData.chapter, verse: tooltipData.verseNumber },
+            testament: getTestament(book),
+        });
+        setTooltipData(null);
+    };
+
+    const handleToggleSaveWord = async () => {
+        const definition = tooltipData?.definition;
+        if (!definition) return;
+        if (isInVocabulary(vocabulary, definition.originalWord)) {
+            removeVocabularyCard(definition.originalWord);
+            setVocabulary(getVocabulary());
+            return;
+        }
+        const book = currentRange?.start.book || selectedBook;
+        const section = passageSections.find(section => section.chapter === tooltipData.chapter);
+        const verseText = section ? parseKoreanPassage(section.text).verses.find(verse => verse.number === tooltipData.verseNumber)?.text ?? '' : '';
+        addVocabularyCard(definition, { book, chapter: tooltipData.chapter, verse: tooltipData.verseNumber }, verseText);
+        setVocabulary(getVocabulary());
+
+        // Pinned, so review cards can play the word offline and after the cache would have expired.
+        try {
+            await getWordPronunciation(definition.originalWord, { pinned: true, priority: 'prefetch' });
+            markVocabularyAudio(definition.originalWord);
+            setVocabulary(getVocabulary());
+        } catch (error) {
+            console.warn(`Failed to store the pronunciation of ${definition.originalWord}`, error);
+        }
+    };
+
+    const handleVocabularyReview = (id: string, direction: ReviewDirection, grade: ReviewGrade) => {
+        recordReview(id, direction, grade);
+        setVocabulary(getVocabulary());
+    };
+
+    const handleVocabularyRemove = (id: string) => {
+        removeVocabularyCard(id);
+        setVocabulary(getVocabulary());
+    };
+
+    const dueReviewCount = useMemo(() => getDueReviews(vocabulary).length, [vocabulary]);
+
+    const handleVerseOpen = (ref: VerseRef) => {
+        handlePassageSelect(wholeChapterRange(ref.book, ref.chapter), { focusVerse: `${ref.chapter}:${ref.verse}` });
+    };
+
+    // Chapters of the current passage shown from their first to their last verse; only these are logged automatically.
+    const wholeChapters = useMemo(() => currentRange
+        ? getRangeChapters(currentRange).filter(chapter => {
+            const { from, to } = getChapterVerseBounds(currentRange, chapter);
+            return from === 1 && to === getVerseCount(currentRange.start.book, chapter);
+        })
+        : [], [currentRange]);
+
+    const markChaptersRead = useCallback((chapters: string[], source: 'scroll' | 'audio') => {
+        if (!currentRange) return;
+        const unmarked = chapters.filter(chapter => !autoMarkedChaptersRef.current.has(chapter));
+        if (unmarked.length === 0) return;
+        const now = Date.now();
+        unmarked.forEach(chapter => {
+            autoMarkedChaptersRef.current.add(chapter);
+            markChapterAsRead(currentRange.start.book, chapter, { durationMs: now - readingStartedAtRef.current, source });
+        });
+        readingStartedAtRef.current = now;
+        setReadingStatus(getReadingStatus());
+    }, [currentRange]);
+
+    useEffect(() => {
+        // Log a chapter as read once the reader scrolls its last verse into view.
+        if (isLoadingPassage || !currentRange || wholeChapters.length === 0) return;
+        const handleScroll = () => {
+            const reached = wholeChapters.filter(chapter => {
+                const element = verseRefs.current[`${chapter}:${getVerseCount(currentRange.start.book, chapter)}`];
+                return element && element.getBoundingClientRect().bottom <= window.innerHeight;
+            });
+            markChaptersRead(reached, 'scroll');
+        };
+        window.addEventListener('scroll', handleScroll, { passive: true });
+        return () => window.removeEventListener('scroll', handleScroll);
+    }, [isLoadingPassage, currentRange, wholeChapters, markChaptersRead]);
+
+    // Selecting a verse focuses it, copies its link and lists its related passages.
+    const handleVerseLinkClick = useCallback((chapter: string, verseNumber: string) => {
+        if (!currentRange) return;
+        const verseKey = `${chapter}:${verseNumber}`;
+        setFocusedVerse(verseKey);
+        updateRoute(buildRoute(currentRange.start.book, currentRange, verseKey), 'replace');
+        navigator.clipboard?.writeText(window.location.href).catch(err => console.warn('Failed to copy verse link', err));
+        const section = passageSections.find(other => other.chapter === chapter);
+        const verseText = section ? parseKoreanPassage(section.text).verses.find(verse => verse.number === verseNumber)?.text ?? '' : '';
+        setCrossReferenceTarget({ ref: { book: currentRange.start.book, chapter, verse: verseNumber }, verseText });
+    }, [currentRange, passageSections]);
+
+    const hasPassage = passageSections.some(section => section.text !== '') || passageError !== null;
 
     const handlePlayChapter = useCallback(async () => {
         if (playbackController.current && !playbackController.current.isCancelled) {
@@ -203,7 +692,7 @@ const App: React.FC = () => {
             return;
         }
     
-        if (chapterAudioState === 'loading' || !passage) return;
+        if (chapterAudioState === 'loading' || !hasPassage) return;
     
         setChapterAudioState('loading');
     
@@ -214,29 +703,31 @@ const App: React.FC = () => {
             await audioContextRef.current.resume();
         }
     
-        const controller = { isCancelled: false };
+        const controller = { isCancelled: false, abortController: new AbortController() };
         playbackController.current = controller;
     
         const streamAndPlay = async () => {
             const audioContext = audioContextRef.current!;
             let nextStartTime = audioContext.currentTime;
     
-            const verses = passage.split('\n').filter(line => line.trim() !== '').map(line => {
-                const match = line.match(/^(\d+)\.\s*(.*)/);
-                return match ? { number: match[1], text: match[2].replace(/^\d+\.\s*/gm, '') } : null;
-            }).filter((v): v is { number: string; text: string } => v !== null);
+            // Verse keys are chapter-qualified ("3:16") so ranges spanning chapters stay unique.
+            const verses = passageSections.flatMap(section => parseKoreanPassage(section.text).verses.map(verse => ({
+                number: `${section.chapter}:${verse.number}`,
+                text: verse.text,
+            })));
     
             const prefetchCount = 5; // Increase prefetch for smoother playback
             const audioPromises: Promise<{ buffer: AudioBuffer, verseNumber: string } | null>[] = [];
     
             const fetchAndDecode = async (verse: { number: string, text: string }): Promise<{ buffer: AudioBuffer, verseNumber: string } | null> => {
                 try {
-                    const base64Audio = await getVersePronunciation(verse.text);
+                    const base64Audio = await getVersePronunciation(verse.text, { signal: controller.abortController.signal });
                     if (controller.isCancelled) return null;
                     const buffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
                     if (controller.isCancelled) return null;
                     return { buffer, verseNumber: verse.number };
                 } catch (err) {
+                    if (controller.isCancelled) return null;
                     console.error(`Error pre-fetching audio for verse ${verse.number}:`, err);
                     return null; // Return null on error instead of throwing
                 }
@@ -288,6 +779,9 @@ const App: React.FC = () => {
             if (!controller.isCancelled) {
                 const finalCleanupDelay = (nextStartTime - audioContext.currentTime) * 1000;
                 setTimeout(() => {
+                    if (playbackController.current === controller) {
+                        markChaptersRead(wholeChapters, 'audio');
+                    }
                     if (!playbackController.current?.isCancelled) {
                         cleanupChapterAudio();
                     }
@@ -302,7 +796,7 @@ const App: React.FC = () => {
                 cleanupChapterAudio();
             }
         });
-    }, [passage, chapterAudioState, playbackRate, cleanupChapterAudio]);
+    }, [passageSections, hasPassage, chapterAudioState, playbackRate, cleanupChapterAudio, markChaptersRead, wholeChapters]);
 
     const handlePlaybackRateChange = (rate: number) => {
         const wasPlaying = chapterAudioState === 'playing' || chapterAudioState === 'loading';
@@ -328,72 +822,154 @@ const App: React.FC = () => {
             hoverTimeoutRef.current = null;
         }
         hideTimeoutRef.current = window.setTimeout(() => {
-            setTooltipData(null);
+            // A pinned tooltip stays until it is closed.
+            setTooltipData(prev => prev?.pinned ? prev : null);
         }, 300);
     }, []);
 
-    const handleWordHover = useCallback((word: string, verseNumber: string, event: React.MouseEvent<HTMLSpanElement>) => {
-        if (apiKeyNeeded || isScrolling) return;
+    const closeTooltip = useCallback(() => {
+        definitionAbortRef.current?.abort();
+        setTooltipData(null);
+        // Back to the word that was inspected, so keyboard navigation continues from there.
+        inspectedWordRef.current?.focus({ preventScroll: true });
+        inspectedWordRef.current = null;
+    }, []);
+
+    const showWordDefinition = useCallback(async (word: string, chapter: string, verseNumber: string, x: number, y: number, pinned: boolean) => {
+        setTooltipData({
+            x,
+            y,
+            word,
+            chapter,
+            verseNumber: verseNumber,
+            definition: null,
+            isLoading: true,
+            error: null,
+            pinned,
+        });
+
+        // Only the latest word matters; drop the request for the previous one.
+        definitionAbortRef.current?.abort();
+        const abortController = new AbortController();
+        definitionAbortRef.current = abortController;
+
+        try {
+            const book = currentRange?.start.book || selectedBook;
+            const context = getDefinitionContext(book, chapter, passageSections.find(section => section.chapter === chapter)?.chapterText || '');
+            const modelDefinition = await getWordDefinition(word, context, { signal: abortController.signal });
+            const definition = await enrichDefinition(modelDefinition, { book, chapter, verse: verseNumber }, getTestament(book));
+            setTooltipData((prev) => prev && prev.word === word ? { ...prev, definition, isLoading: false } : prev);
+        } catch (error) {
+            if (isAbortError(error)) return;
+            console.error('Failed to get word definition:', error);
+            reportApiError(error);
+            const tooltipError = navigator.onLine
+                ? (getApiErrorMessage(error) ?? `'${word}'의 뜻을 찾지 못했습니다.`)
+                : `오프라인 상태입니다. '${word}'의 뜻은 저장되지 않았습니다.`;
+            setTooltipData((prev) => prev && prev.word === word ? { ...prev, error: tooltipError, isLoading: false } : prev);
+        }
+    }, [passageSections, currentRange, selectedBook, reportApiError]);
+
+    const handleWordHover = useCallback((word: string, chapter: string, verseNumber: string, event: React.MouseEvent<HTMLSpanElement>) => {
+        if (apiKeyNeeded || isScrolling || tooltipData?.pinned) return;
         cancelHideTooltip();
 
         if (hoverTimeoutRef.current) {
             clearTimeout(hoverTimeoutRef.current);
         }
 
-        const cleanedWord = word.replace(/[.,;:?!()"']/g, '');
+        const cleanedWord = cleanWord(word);
         if (!cleanedWord) return;
 
-        hoverTimeoutRef.current = window.setTimeout(async () => {
-            setTooltipData({
-                x: event.clientX,
-                y: event.clientY,
-                word: cleanedWord,
-                verseNumber: verseNumber,
-                definition: null,
-                isLoading: true,
-                error: null,
-            });
-
-            try {
-                const definition = await getWordDefinition(cleanedWord, passage);
-                setTooltipData((prev) => prev && prev.word === cleanedWord ? { ...prev, definition, isLoading: false } : prev);
-            } catch (error) {
-                console.error('Failed to get word definition:', error);
-                const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-                 if (errorMessage.includes("API")) {
-                    setApiError(errorMessage);
-                }
-                setTooltipData((prev) => prev && prev.word === cleanedWord ? { ...prev, error: `'${cleanedWord}'의 뜻을 찾지 못했습니다.`, isLoading: false } : prev);
-            }
+        hoverTimeoutRef.current = window.setTimeout(() => {
+            showWordDefinition(cleanedWord, chapter, verseNumber, event.clientX, event.clientY, false);
         }, 800);
 
-    }, [passage, cancelHideTooltip, apiKeyNeeded, isScrolling]);
+    }, [cancelHideTooltip, apiKeyNeeded, isScrolling, tooltipData?.pinned, showWordDefinition]);
+
+    // Click, tap or Enter: look the word up at once and pin the tooltip under it.
+    const handleWordInspect = useCallback((word: string, chapter: string, verseNumber: string, element: HTMLElement) => {
+        if (apiKeyNeeded) return;
+        cancelHideTooltip();
+        if (hoverTimeoutRef.current) {
+            clearTimeout(hoverTimeoutRef.current);
+            hoverTimeoutRef.current = null;
+        }
+
+        const cleanedWord = cleanWord(word);
+        if (!cleanedWord) return;
+        inspectedWordRef.current = element;
+        const rect = element.getBoundingClientRect();
+        showWordDefinition(cleanedWord, chapter, verseNumber, rect.left, rect.bottom, true);
+    }, [cancelHideTooltip, apiKeyNeeded, showWordDefinition]);
 
     const chapters = currentBookStructure ? Object.keys(currentBookStructure) : [];
-    const currentChapterIndex = selectedChapter ? chapters.indexOf(selectedChapter) : -1;
+    const firstChapterIndex = currentRange ? chapters.indexOf(currentRange.start.chapter) : -1;
+    const lastChapterIndex = currentRange ? chapters.indexOf(currentRange.end.chapter) : -1;
 
-    const canGoToPrev = currentChapterIndex > 0;
-    const canGoToNext = currentChapterIndex > -1 && currentChapterIndex < chapters.length - 1;
+    const canGoToPrev = firstChapterIndex > 0;
+    const canGoToNext = lastChapterIndex > -1 && lastChapterIndex < chapters.length - 1;
 
     const goToPrevChapter = () => {
         if (canGoToPrev) {
-            const prevChapter = chapters[currentChapterIndex - 1];
-            handlePassageSelect(selectedBook, prevChapter);
+            const prevChapter = chapters[firstChapterIndex - 1];
+            handlePassageSelect(wholeChapterRange(selectedBook, prevChapter));
         }
     };
 
     const goToNextChapter = () => {
-        if (canGoToNext && selectedChapter) {
-            const nextChapter = chapters[currentChapterIndex + 1];
-            handlePassageSelect(selectedBook, nextChapter);
+        if (canGoToNext) {
+            const nextChapter = chapters[lastChapterIndex + 1];
+            handlePassageSelect(wholeChapterRange(selectedBook, nextChapter));
         }
     };
 
+    // N and P change chapter, K starts or stops the chapter audio like the play button (there is
+    // no resume; it starts over), Escape closes a pinned tooltip or else the related passages panel.
+    // Keys typed into a field, or while a dialog is open, are left alone. Subscribed again on
+    // every render, so the handler always sees the current passage.
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape' && tooltipData) {
+                closeTooltip();
+                return;
+            }
+            if (event.key === 'Escape' && crossReferenceTarget && !document.querySelector('[aria-modal="true"]')) {
+                setCrossReferenceTarget(null);
+                return;
+            }
+            if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+            const target = event.target as HTMLElement | null;
+            if (target?.closest('input, textarea, select, [contenteditable="true"]') || document.querySelector('[aria-modal="true"]')) return;
+
+            const key = event.key.toLowerCase();
+            if (key === 'n' && canGoToNext && !isLoadingPassage) {
+                goToNextChapter();
+            } else if (key === 'p' && canGoToPrev && !isLoadingPassage) {
+                goToPrevChapter();
+            } else if (key === 'k' && hasPassage && !isLoadingPassage) {
+                handlePlayChapter();
+            } else {
+                return;
+            }
+            event.preventDefault();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    const tooltipAnnouncement = !tooltipData ? ''
+        : tooltipData.isLoading ? `'${tooltipData.word}' 분석 중`
+            : tooltipData.error ? tooltipData.error
+                : tooltipData.definition
+                    ? `${tooltipData.word}: ${tooltipData.definition.originalWord}, ${tooltipData.definition.transliteration}. ${tooltipData.definition.partOfSpeech}. ${tooltipData.definition.basicMeaning}`
+                    : '';
+
     const registerVerseRef = useCallback((verseNumber: string, element: HTMLDivElement | null) => {
         verseRefs.current[verseNumber] = element;
     }, []);
 
-    const showFloatingPlayer = passage && !isLoadingPassage;
+    const showFloatingPlayer = hasPassage && !isLoadingPassage;
 
     return (
         <div className="min-h-screen p-4 sm:p-8 flex flex-col">
@@ -412,16 +988,89 @@ const App: React.FC = () => {
                         <div className="flex justify-center items-center gap-4 mb-4">
                             <h1 className="text-4xl sm:text-5xl font-bold text-cyan-800 tracking-tight">원어 성경 분석기</h1>
                             <button 
-                                onClick={() => setIsTrackerVisible(true)}
+                                onClick={() => openTracker('OT')}
                                 className="bg-cyan-600 text-white font-bold py-2 px-5 rounded-lg hover:bg-cyan-700 transition-all duration-300 shadow-md hover:shadow-lg transform hover:-translate-y-0.5"
                             >
                                 나의 성경통독표
                             </button>
+                            <button
+                                onClick={() => setIsNotesVisible(true)}
+                                className="bg-white text-cyan-700 border border-cyan-600 font-bold py-2 px-5 rounded-lg hover:bg-cyan-50 transition-all duration-300 shadow-md hover:shadow-lg transform hover:-translate-y-0.5"
+                            >
+                                나의 노트
+                            </button>
+                            <button
+                                onClick={() => setIsSearchVisible(true)}
+                                className="bg-white text-cyan-700 border border-cyan-600 font-bold py-2 px-5 rounded-lg hover:bg-cyan-50 transition-all duration-300 shadow-md hover:shadow-lg transform hover:-translate-y-0.5"
+                            >
+                                본문 검색
+                            </button>
+                            <button
+                                onClick={() => setIsVocabularyVisible(true)}
+                                className="relative bg-white text-cyan-700 border border-cyan-600 font-bold py-2 px-5 rounded-lg hover:bg-cyan-50 transition-all duration-300 shadow-md hover:shadow-lg transform hover:-translate-y-0.5"
+                            >
+                                단어장
+                                {dueReviewCount > 0 && (
+                                    <span className="absolute -top-2 -right-2 bg-amber-500 text-white text-xs font-bold rounded-full px-1.5 py-0.5" aria-label={`복습할 카드 ${dueReviewCount}개`}>
+                                        {dueReviewCount}
+                                    </span>
+                                )}
+                            </button>
+                            <BookmarksMenu
+                                bookmarks={bookmarks}
+                                currentChapter={currentRange ? { book: currentRange.start.book, chapter: currentRange.start.chapter } : null}
+                                onAdd={handleAddBookmark}
+                                onRemove={handleRemoveBookmark}
+                                onLabelChange={handleBookmarkLabelChange}
+                                onNavigate={handleBookmarkNavigate}
+                            />
+                            <SyncStatusIndicator
+                                status={syncStatus}
+                                lastSyncedAt={lastSyncedAt}
+                                error={syncError}
+                                config={syncConfig}
+                                onConfigChange={handleSyncConfigChange}
+                                onSyncNow={runSync}
+                            />
                         </div>
                         <p className="text-lg text-gray-600 max-w-2xl mx-auto">성경 본문에 마우스를 올리면 원어 단어의 뜻과 문법을 분석해줍니다.</p>
+                        <CacheControls onCleared={refreshOfflineLibrary} />
+                        <UserDataControls onImported={refreshUserData} />
+                        {!isOnline && (
+                            <p className="mt-3 inline-block px-4 py-1 rounded-full bg-amber-100 text-amber-800 text-sm font-semibold">
+                                오프라인 모드: 저장된 본문만 볼 수 있습니다.
+                            </p>
+                        )}
                     </header>
 
                     <main ref={mainRef}>
+                        {apiError && !apiKeyNeeded && (
+                            <div role="alert" className="mb-4 flex items-center justify-between gap-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-red-700">
+                                <span>{apiError}</span>
+                                <button onClick={() => setApiError(null)} className="text-red-500 hover:text-red-700 font-bold" aria-label="오류 메시지 닫기">&times;</button>
+                            </div>
+                        )}
+                        {resumePassage && !currentRange && !apiKeyNeeded && (
+                            <div className="mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-5 py-4 rounded-xl bg-cyan-50 border border-cyan-200">
+                                <div>
+                                    <p className="text-sm text-cyan-700">마지막으로 읽던 곳</p>
+                                    <p className="text-lg font-bold text-cyan-900">{formatPassageRef(resumePassage.range)}</p>
+                                </div>
+                                <div className="flex gap-2">
+                                    <button onClick={handleResume} className="px-4 py-2 bg-cyan-600 text-white rounded-lg font-semibold hover:bg-cyan-700">이어 읽기</button>
+                                    <button onClick={() => setResumePassage(null)} className="px-4 py-2 text-gray-600 rounded-lg hover:bg-gray-100">닫기</button>
+                                </div>
+                            </div>
+                        )}
+                        <TodayReadingCard
+                            config={planConfig}
+                            plan={plan}
+                            readingStatus={readingStatus}
+                            onOpenPassage={handlePassageSelect}
+                            onSetRead={handleSetChaptersRead}
+                            onOpenPlans={() => openTracker('PLAN')}
+                        />
+                        <QuickJump onJump={handlePassageSelect} disabled={apiKeyNeeded} />
                         <PassageSelector 
                             onPassageSelect={handlePassageSelect}
                             selectedTestament={selectedTestament}
@@ -433,16 +1082,19 @@ const App: React.FC = () => {
                             onApiKeySubmit={handleApiKeySubmit}
                             apiKeyNeeded={apiKeyNeeded}
                             apiError={apiError}
+                            isOnline={isOnline}
+                            offlineLibrary={offlineLibrary}
+                            onOfflineLibraryChange={refreshOfflineLibrary}
                         />
                         
                         <div 
                             onMouseLeave={scheduleHideTooltip}
-                            className={`bg-white border border-gray-200/80 p-6 sm:p-8 rounded-xl shadow-lg mt-8 transition-all duration-500 ${!passage ? 'min-h-[20rem] flex justify-center items-center' : 'opacity-100'}`}
+                            className={`bg-white border border-gray-200/80 p-6 sm:p-8 rounded-xl shadow-lg mt-8 transition-all duration-500 ${!hasPassage ? 'min-h-[20rem] flex justify-center items-center' : 'opacity-100'}`}
                         >
-                            {isLoadingPassage && !passage && (
+                            {isLoadingPassage && !hasPassage && (
                                 <div className="flex items-center text-gray-500"><Spinner /><span className="ml-3 text-lg">본문을 스트리밍하는 중입니다...</span></div>
                             )}
-                            {!isLoadingPassage && !passage && (
+                            {!isLoadingPassage && !hasPassage && (
                                 <div className="text-center text-gray-500">
                                     <svg xmlns="http://www.w3.org/2000/svg" className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M12 6.253v11.494m-9-5.747h18" />
@@ -454,26 +1106,106 @@ const App: React.FC = () => {
                                 </div>
 
                             )}
-                            {passage && (
+                            {hasPassage && (
                                 <div className="w-full animate-[fadeIn_0.5s_ease-in-out]">
                                     <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-6 border-b border-gray-200 pb-4">
                                         <h2 className="text-3xl font-bold text-cyan-800">{passageRef}</h2>
-                                        <AudioControls 
-                                            audioState={chapterAudioState}
-                                            onPlayPause={handlePlayChapter}
-                                            playbackRate={playbackRate}
-                                            onRateChange={handlePlaybackRateChange}
-                                        />
+                                        <div className="flex items-center gap-3">
+                                            <button
+                                                onClick={toggleInterlinear}
+                                                aria-pressed={displayPreferences.interlinear}
+                                                disabled={displayPreferences.comparison}
+                                                className={`px-4 py-2 rounded-lg font-semibold border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${displayPreferences.interlinear ? 'bg-cyan-600 text-white border-cyan-600 hover:bg-cyan-700' : 'bg-white text-cyan-700 border-cyan-600 hover:bg-cyan-50'}`}
+                                                title="한국어와 원어를 단어별로 나란히 봅니다"
+                                            >
+                                                행간 대조
+                                            </button>
+                                            <button
+                                                onClick={toggleComparison}
+                                                aria-pressed={displayPreferences.comparison}
+                                                className={`px-4 py-2 rounded-lg font-semibold border transition-colors ${displayPreferences.comparison ? 'bg-cyan-600 text-white border-cyan-600 hover:bg-cyan-700' : 'bg-white text-cyan-700 border-cyan-600 hover:bg-cyan-50'}`}
+                                                title="여러 번역을 절별로 나란히 봅니다"
+                                            >
+                                                번역 비교
+                                            </button>
+                                            <AudioControls 
+                                                audioState={chapterAudioState}
+                                                onPlayPause={handlePlayChapter}
+                                                playbackRate={playbackRate}
+                                                onRateChange={handlePlaybackRateChange}
+                                            />
+                                        </div>
                                     </div>
-                                    <BibleText 
-                                        text={passage} 
-                                        onWordHover={handleWordHover}
-                                        originalPassage={originalPassage}
-                                        testament={selectedTestament}
-                                        tooltipData={tooltipData}
-                                        registerVerseRef={registerVerseRef}
-                                        currentlyPlayingVerse={currentlyPlayingVerse}
-                                    />
+                                    {displayPreferences.comparison && (
+                                        <fieldset className="flex flex-wrap items-center gap-x-4 gap-y-2 mb-6">
+                                            <legend className="sr-only">비교할 번역</legend>
+                                            {COMPARISON_COLUMNS.map(column => (
+                                                <label key={column} className="flex items-center gap-1.5 text-gray-700 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={displayPreferences.comparisonColumns.includes(column)}
+                                                        onChange={() => toggleComparisonColumn(column)}
+                                                        className="accent-cyan-600"
+                                                    />
+                                                    {column === 'original' ? '원어' : getTranslation(column).name}
+                                                </label>
+                                            ))}
+                                        </fieldset>
+                                    )}
+                                    {passageError && <p className="text-red-500 text-lg">{passageError}</p>}
+                                    {passageSections.map(section => (
+                                        <section key={section.chapter} className="mb-8 last:mb-0">
+                                            {passageSections.length > 1 && (
+                                                <h3 className="text-xl font-bold text-cyan-700 mb-4">{section.chapter}장</h3>
+                                            )}
+                                            {!isLoadingPassage && (section.missingVerses.length > 0 || section.missingOriginalVerses.length > 0) && (
+                                                <div className="mb-4 p-3 rounded-md bg-amber-50 border border-amber-200 text-amber-800 text-sm" role="status">
+                                                    {section.missingVerses.length > 0 && (
+                                                        <p>본문이 불완전합니다. {section.chapter}장 {section.missingVerses.join(', ')}절을 가져오지 못했습니다.</p>
+                                                    )}
+                                                    {section.missingOriginalVerses.length > 0 && (
+                                                        <p>원어 본문에서 {section.chapter}장 {section.missingOriginalVerses.join(', ')}절이 누락되었습니다.</p>
+                                                    )}
+                                                </div>
+                                            )}
+                                            {displayPreferences.comparison ? (
+                                                <TranslationComparison
+                                                    book={selectedBook}
+                                                    chapter={section.chapter}
+                                                    text={section.text}
+                                                    originalPassage={section.originalPassage}
+                                                    testament={selectedTestament}
+                                                    {...(currentRange ? getChapterVerseBounds(currentRange, section.chapter) : { from: 1, to: getVerseCount(selectedBook, section.chapter) })}
+                                                    columns={displayPreferences.comparisonColumns}
+                                                    registerVerseRef={(verseNumber, element) => registerVerseRef(`${section.chapter}:${verseNumber}`, element)}
+                                                    currentlyPlayingVerse={currentlyPlayingVerse?.startsWith(`${section.chapter}:`) ? currentlyPlayingVerse.split(':')[1] : null}
+                                                    focusedVerse={focusedVerse?.startsWith(`${section.chapter}:`) ? focusedVerse.split(':')[1] : null}
+                                                />
+                                            ) : (
+                                                <BibleText 
+                                                    book={selectedBook}
+                                                    chapter={section.chapter}
+                                                    text={section.text} 
+                                                    onWordHover={(word, verseNumber, event) => handleWordHover(word, section.chapter, verseNumber, event)}
+                                                    onWordInspect={(word, verseNumber, element) => handleWordInspect(word, section.chapter, verseNumber, element)}
+                                                    originalPassage={section.originalPassage}
+                                                    testament={selectedTestament}
+                                                    tooltipData={tooltipData?.chapter === section.chapter ? tooltipData : null}
+                                                    registerVerseRef={(verseNumber, element) => registerVerseRef(`${section.chapter}:${verseNumber}`, element)}
+                                                    currentlyPlayingVerse={currentlyPlayingVerse?.startsWith(`${section.chapter}:`) ? currentlyPlayingVerse.split(':')[1] : null}
+                                                    focusedVerse={focusedVerse?.startsWith(`${section.chapter}:`) ? focusedVerse.split(':')[1] : null}
+                                                    onVerseNumberClick={(verseNumber) => handleVerseLinkClick(section.chapter, verseNumber)}
+                                                    annotations={annotations}
+                                                    onHighlightChange={handleHighlightChange}
+                                                    onNoteSave={handleNoteSave}
+                                                    onNoteDelete={handleNoteDelete}
+                                                    bookmarkedVerses={bookmarks.filter(bookmark => bookmark.book === selectedBook && bookmark.chapter === section.chapter && bookmark.verse).map(bookmark => bookmark.verse!)}
+                                                    onToggleBookmark={(verseNumber) => handleToggleVerseBookmark(selectedBook, section.chapter, verseNumber)}
+                                                    interlinear={displayPreferences.interlinear && !isLoadingPassage}
+                                                />
+                                            )}
+                                        </section>
+                                    ))}
                                 </div>
                             )}
                         </div>
@@ -482,14 +1214,55 @@ const App: React.FC = () => {
                         data={tooltipData} 
                         onMouseEnter={cancelHideTooltip} 
                         onMouseLeave={scheduleHideTooltip} 
+                        onShowOccurrences={isConcordanceAvailable() ? handleShowOccurrences : undefined}
+                        isSaved={!!tooltipData?.definition && isInVocabulary(vocabulary, tooltipData.definition.originalWord)}
+                        onToggleSave={handleToggleSaveWord}
+                        onClose={closeTooltip}
+                    />
+                    <div className="sr-only" role="status" aria-live="polite">{tooltipAnnouncement}</div>
+                    <CrossReferencePanel
+                        target={crossReferenceTarget}
+                        onClose={() => setCrossReferenceTarget(null)}
+                        onOpenVerse={handleVerseOpen}
+                    />
+                    <ConcordanceModal
+                        target={concordanceTarget}
+                        onClose={() => setConcordanceTarget(null)}
+                        onOpenVerse={handleVerseOpen}
+                    />
+                    <SearchModal
+                        isOpen={isSearchVisible}
+                        onClose={() => setIsSearchVisible(false)}
+                        onOpenVerse={handleVerseOpen}
+                    />
+                    <VocabularyModal
+                        isOpen={isVocabularyVisible}
+                        onClose={() => setIsVocabularyVisible(false)}
+                        vocabulary={vocabulary}
+                        onReview={handleVocabularyReview}
+                        onRemove={handleVocabularyRemove}
+                        onOpenVerse={handleVerseOpen}
                     />
                     <BibleTrackerModal 
                         isOpen={isTrackerVisible}
                         onClose={() => setIsTrackerVisible(false)}
+                        initialTab={trackerTab}
+                        planConfig={planConfig}
+                        plan={plan}
+                        onPlanConfigChange={handlePlanConfigChange}
+                        onOpenPassage={handlePlanPassageOpen}
+                        onReadingStatusChange={() => setReadingStatus(getReadingStatus())}
+                    />
+                    <NotesPanel
+                        isOpen={isNotesVisible}
+                        onClose={() => setIsNotesVisible(false)}
+                        annotations={annotations}
+                        onNavigate={handleNoteNavigate}
+                        onNoteDelete={handleNoteDelete}
                     />
                 </div>
             </div>
-             {passage && !isLoadingPassage && (
+             {hasPassage && !isLoadingPassage && (
                 <footer className="w-full mt-12 py-6 bg-gray-50/50 border-t border-gray-200/80">
                     <div className="max-w-3xl mx-auto flex justify-between items-center px-4 sm:px-0">
                         <button
@@ -497,6 +1270,7 @@ const App: React.FC = () => {
                             disabled={!canGoToPrev || isLoadingPassage}
                             className="flex items-center gap-2 px-5 py-2 bg-white border border-gray-300 rounded-lg shadow-sm text-gray-800 font-semibold hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:-translate-y-0.5"
                             aria-label="이전 장으로 이동"
+                            aria-keyshortcuts="P"
                         >
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" /></svg>
                             이전 장
@@ -506,6 +1280,7 @@ const App: React.FC = () => {
                             disabled={!canGoToNext || isLoadingPassage}
                             className="flex items-center gap-2 px-5 py-2 bg-white border border-gray-300 rounded-lg shadow-sm text-gray-800 font-semibold hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:-translate-y-0.5"
                             aria-label="다음 장으로 이동"
+                            aria-keyshortcuts="N"
                         >
                             다음 장
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" /></svg>
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { HighlightColor, PassageRange, VerseNote } from '../types';
+import { HIGHLIGHT_COLORS, noteKey } from '../utils/annotationUtils';
+
+interface AnnotationEditorProps {
+  book: string;
+  chapter: string;
+  verseNumber: string;
+  verseNumbers: string[]; // verses shown in this chapter, for choosing where a note's range ends
+  highlight: HighlightColor | undefined;
+  note: VerseNote | null;
+  onHighlightChange: (color: HighlightColor | null) => void;
+  onSave: (range: PassageRange, markdown: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ book, chapter, verseNumber, verseNumbers, highlight, note, onHighlightChange, onSave, onDelete, onClose }) => {
+  const [markdown, setMarkdown] = useState(note?.markdown || '');
+  const [endVerse, setEndVerse] = useState(note && note.range.end.chapter === chapter ? note.range.end.verse : verseNumber);
+
+  const endOptions = verseNumbers.filter(number => Number(number) >= Number(verseNumber));
+
+  const handleSave = () => {
+    // An existing note keeps its range (it may span chapters); a new one ends at the chosen verse.
+    const range: PassageRange = note && note.range.end.chapter !== chapter
+      ? note.range
+      : { start: note?.range.start || { book, chapter, verse: verseNumber }, end: { book, chapter, verse: endVerse } };
+    // Notes are keyed by range, so only a moved end leaves the old note behind.
+    if (note && note.id !== noteKey(range)) {
+      onDelete(note.id);
+    }
+    onSave(range, markdown);
+    onClose();
+  };
+
+  return (
+    <div className="mt-3 p-4 rounded-lg border border-gray-200 bg-white shadow-sm space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-semibold text-gray-600">형광펜</span>
+        {HIGHLIGHT_COLORS.map(option => (
+          <button
+            key={option.color}
+            onClick={() => onHighlightChange(highlight === option.color ? null : option.color)}
+            className={`w-6 h-6 rounded-full ${option.swatchClassName} ${highlight === option.color ? 'ring-2 ring-offset-1 ring-gray-500' : ''}`}
+            aria-label={`${option.label} 형광펜`}
+            aria-pressed={highlight === option.color}
+          />
+        ))}
+        {highlight && (
+          <button onClick={() => onHighlightChange(null)} className="text-sm text-gray-500 hover:text-gray-800 ml-1">지우기</button>
+        )}
+      </div>
+      <div>
+        <div className="flex items-center gap-2 mb-2 text-sm text-gray-600">
+          <span className="font-semibold">메모</span>
+          {!(note && note.range.end.chapter !== chapter) && (
+            <label className="flex items-center gap-1">
+              {note ? `${note.range.start.chapter}:${note.range.start.verse}` : `${chapter}:${verseNumber}`} -
+              <select value={endVerse} onChange={e => setEndVerse(e.target.value)} className="border rounded px-1 py-0.5">
+                {endOptions.map(number => <option key={number} value={number}>{number}절</option>)}
+              </select>
+            </label>
+          )}
+        </div>
+        <textarea
+          value={markdown}
+          onChange={e => setMarkdown(e.target.value)}
+          rows={4}
+          placeholder="마크다운으로 메모를 작성하세요 (**굵게**, *기울임*, - 목록)"
+          className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-base"
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        {note && (
+          <button onClick={() => { onDelete(note.id); onClose(); }} className="px-3 py-1.5 rounded-md text-red-600 hover:bg-red-50 font-semibold">삭제</button>
+        )}
+        <button onClick={onClose} className="px-3 py-1.5 rounded-md text-gray-600 hover:bg-gray-100 font-semibold">닫기</button>
+        <button onClick={handleSave} className="px-3 py-1.5 rounded-md bg-cyan-600 text-white hover:bg-cyan-700 font-semibold">저장</button>
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationEditor;
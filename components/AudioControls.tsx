@@ -16,7 +16,8 @@ const AudioControls: React.FC<AudioControlsProps> = ({ audioState, onPlayPause,
         <div className="flex items-center gap-4">
             <button 
                 onClick={onPlayPause} 
-                aria-label="장 전체 듣기/일시정지" 
+                aria-label="장 전체 듣기/일시정지"
+                aria-keyshortcuts="K" 
                 className="text-cyan-700 hover:text-cyan-900 disabled:opacity-50 transition-transform transform hover:scale-110" 
                 disabled={audioState === 'loading'}
             >
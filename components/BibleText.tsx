@@ -1,17 +1,38 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { OriginalPassage, VerseAnalysisItem, TooltipData } from '../types';
-import { getVersePronunciation, getVerseAnalysis } from '../services/geminiService';
+import { OriginalPassage, Verse, VerseAnalysisItem, TooltipData, Annotations, HighlightColor, PassageRange, VerseNote, VerseRef, ChapterInterlinear } from '../types';
+import { getVersePronunciation, getVerseAnalysis, getChapterInterlinear } from '../services/geminiService';
+import { getApiErrorMessage, isAbortError } from '../services/apiErrors';
 import { decode, decodeAudioData } from '../utils/audioUtils';
 import Spinner from './Spinner';
+import { parseKoreanPassage } from '../utils/passageNormalizer';
+import { getHighlightClassName, verseKey } from '../utils/annotationUtils';
+import { formatPassageRef, isVerseInRange } from '../utils/referenceUtils';
+import { moveWordPosition, WordPosition } from '../utils/wordNavigationUtils';
+import AnnotationEditor from './AnnotationEditor';
+import MarkdownText from './MarkdownText';
+import InterlinearVerse, { WordProps } from './InterlinearVerse';
+import PronunciationPracticeModal, { PracticeVerse } from './PronunciationPracticeModal';
 
 interface BibleTextProps {
+  book: string;
+  chapter: string;
   text: string;
   onWordHover: (word: string, verseNumber: string, event: React.MouseEvent<HTMLSpanElement>) => void;
+  onWordInspect: (word: string, verseNumber: string, element: HTMLElement) => void; // click, tap or Enter
   originalPassage: OriginalPassage | null;
   testament: '구약성경' | '신약성경';
   tooltipData: TooltipData | null;
   registerVerseRef: (verseNumber: string, element: HTMLDivElement | null) => void;
   currentlyPlayingVerse: string | null;
+  focusedVerse?: string | null;
+  onVerseNumberClick?: (verseNumber: string) => void;
+  annotations?: Annotations;
+  onHighlightChange?: (ref: VerseRef, color: HighlightColor | null) => void;
+  onNoteSave?: (range: PassageRange, markdown: string) => void;
+  onNoteDelete?: (id: string) => void;
+  bookmarkedVerses?: string[];
+  onToggleBookmark?: (verseNumber: string) => void;
+  interlinear?: boolean; // needs the complete original passage; pass false while it is still loading
 }
 
 type PlayingState = 'idle' | 'loading' | 'playing';
@@ -27,15 +48,42 @@ const SpeakerIcon: React.FC<{isLoading: boolean}> = ({isLoading}) => {
   );
 };
 
-const BibleText: React.FC<BibleTextProps> = ({ text, onWordHover, originalPassage, testament, tooltipData, registerVerseRef, currentlyPlayingVerse }) => {
+const MicrophoneIcon: React.FC = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+    <path fillRule="evenodd" d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 006 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" clipRule="evenodd" />
+  </svg>
+);
+
+const PencilIcon: React.FC = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+    <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+  </svg>
+);
+
+const BookmarkIcon: React.FC<{ filled: boolean }> = ({ filled }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill={filled ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth={filled ? 0 : 1.5}>
+    <path d="M5 4a2 2 0 012-2h6a2 2 0 012 2v14l-5-2.5L5 18V4z" />
+  </svg>
+);
+
+const BibleText: React.FC<BibleTextProps> = ({ book, chapter, text, onWordHover, onWordInspect, originalPassage, testament, tooltipData, registerVerseRef, currentlyPlayingVerse, focusedVerse, onVerseNumberClick, annotations, onHighlightChange, onNoteSave, onNoteDelete, bookmarkedVerses, onToggleBookmark, interlinear = false }) => {
   const [playingState, setPlayingState] = useState<PlayingState>('idle');
   const [playingVerseNumber, setPlayingVerseNumber] = useState<string | null>(null);
   const [verseAnalysis, setVerseAnalysis] = useState<VerseAnalysisItem[]>([]);
   const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const [copiedVerseNumber, setCopiedVerseNumber] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ verseNumber: string; note: VerseNote | null } | null>(null);
+  const [interlinearData, setInterlinearData] = useState<ChapterInterlinear | null>(null);
+  const [interlinearState, setInterlinearState] = useState<'idle' | 'loading' | 'error'>('idle');
+  const [interlinearError, setInterlinearError] = useState<string | null>(null);
+  const [interlinearRetry, setInterlinearRetry] = useState(0);
+  const [practiceVerse, setPracticeVerse] = useState<PracticeVerse | null>(null);
+  const [activeWord, setActiveWord] = useState<WordPosition>({ verse: 0, word: 0 });
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const wordRefs = useRef(new Map<string, HTMLSpanElement>());
 
   // Clean punctuation from the API-provided original word for more reliable matching.
   const cleanedHighlightedOriginalWord = tooltipData?.definition?.originalWord?.replace(/[.,;:()׃“"”‘’']/g, '') || null;
@@ -61,6 +109,34 @@ const BibleText: React.FC<BibleTextProps> = ({ text, onWordHover, originalPassag
     return () => cleanupPlayback();
   }, []);
 
+  useEffect(() => {
+    setInterlinearData(null);
+    if (!interlinear || !originalPassage) {
+      setInterlinearState('idle');
+      return;
+    }
+    const interlinearVerses = parseKoreanPassage(text).verses
+      .filter(verse => originalPassage[verse.number])
+      .map(verse => ({ number: verse.number, korean: verse.text, original: originalPassage[verse.number] }));
+    if (interlinearVerses.length === 0) return;
+
+    const controller = new AbortController();
+    setInterlinearState('loading');
+    setInterlinearError(null);
+    getChapterInterlinear(book, chapter, interlinearVerses, testament === '구약성경' ? '히브리어' : '헬라어', { signal: controller.signal })
+      .then(data => {
+        setInterlinearData(data);
+        setInterlinearState('idle');
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error(`Interlinear alignment failed for ${book} ${chapter}:`, err);
+        setInterlinearError(getApiErrorMessage(err) || '행간 대조 자료를 불러오지 못했습니다.');
+        setInterlinearState('error');
+      });
+    return () => controller.abort();
+  }, [interlinear, book, chapter, text, originalPassage, testament, interlinearRetry]);
+
   const handlePlayVerse = async (originalVerseText: string, verseNumber: string) => {
     if (playingState !== 'idle') {
       cleanupPlayback();
@@ -96,7 +172,7 @@ const BibleText: React.FC<BibleTextProps> = ({ text, onWordHover, originalPassag
       source.start();
 
       // Step 4: Fetch analysis in the background for word highlighting.
-      const koreanVerseText = text.split('\n').find(line => line.startsWith(`${verseNumber}.`))?.replace(/^\d+\.\s*/, '') || '';
+      const koreanVerseText = verses.find(verse => verse.number === verseNumber)?.text || '';
       const language = testament === '구약성경' ? '히브리어' : '헬라어';
       
       getVerseAnalysis(koreanVerseText, originalVerseText, language, audioBuffer.duration)
@@ -135,10 +211,79 @@ const BibleText: React.FC<BibleTextProps> = ({ text, onWordHover, originalPassag
     }
   };
 
-  const verses = text.split('\n').filter(line => line.trim() !== '');
+  const openPractice = (verseNumber: string, koreanText: string, originalText: string) => {
+    cleanupPlayback();
+    setPracticeVerse({ book, chapter, verse: verseNumber, koreanText, originalText, testament });
+  };
+
+  const handleVerseNumberClick = (verseNumber: string) => {
+    onVerseNumberClick?.(verseNumber);
+    setCopiedVerseNumber(verseNumber);
+    setTimeout(() => setCopiedVerseNumber(prev => (prev === verseNumber ? null : prev)), 1500);
+  };
+
+  const verses = parseKoreanPassage(text).verses;
+  const canAnnotate = !!(annotations && onHighlightChange && onNoteSave && onNoteDelete);
+  const notes = annotations ? Object.values(annotations.notes).filter(note => note.range.start.book === book) : [];
+
+  // A note is shown under its first verse, or under the first verse shown here if it starts in an earlier chapter.
+  const getVerseNotes = (verseNumber: string, isFirstVerse: boolean) => notes
+    .filter(note => isVerseInRange(note.range, chapter, verseNumber))
+    .filter(note => (note.range.start.chapter === chapter && note.range.start.verse === verseNumber) || isFirstVerse)
+    .sort((a, b) => a.createdAt - b.createdAt);
   const languageClass = testament === '구약성경' ? 'font-hebrew' : 'font-greek';
   const languageDir = testament === '구약성경' ? 'rtl' : 'ltr';
 
+  const getInterlinearWords = (verseNumber: string) =>
+    interlinear && originalPassage?.[verseNumber] ? interlinearData?.[verseNumber] : undefined;
+
+  // The words that can be focused and inspected, in reading order: the Korean words of each verse.
+  const getFocusableWords = (verse: Verse): string[] => {
+    const interlinearWords = getInterlinearWords(verse.number);
+    if (interlinearWords) return interlinearWords.filter(word => word.koreanWord).map(word => word.koreanWord);
+    if (playingVerseNumber === verse.number && verseAnalysis.length > 0) return [];
+    return verse.text.split(/\s+/).filter(Boolean);
+  };
+  const wordCounts = verses.map(verse => getFocusableWords(verse).length);
+  // Exactly one word is in the tab order; fall back to the first word when the text changed under the active one.
+  const firstWordVerse = wordCounts.findIndex(count => count > 0);
+  const tabStop = activeWord.word < (wordCounts[activeWord.verse] ?? 0) ? activeWord : { verse: firstWordVerse, word: 0 };
+
+  const handleWordKeyDown = (event: React.KeyboardEvent<HTMLSpanElement>, position: WordPosition, word: string, verseNumber: string) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onWordInspect(word, verseNumber, event.currentTarget);
+      return;
+    }
+    // Interlinear verses follow the original word order, so Hebrew ones run right to left.
+    const isReversed = languageDir === 'rtl' && !!getInterlinearWords(verseNumber);
+    const next = moveWordPosition(position, event.key, wordCounts, isReversed);
+    if (!next) return;
+    event.preventDefault();
+    setActiveWord(next);
+    wordRefs.current.get(`${next.verse}:${next.word}`)?.focus();
+  };
+
+  const getWordProps = (verseIndex: number, wordIndex: number, word: string, verseNumber: string): WordProps => {
+    const key = `${verseIndex}:${wordIndex}`;
+    const position = { verse: verseIndex, word: wordIndex };
+    return {
+      ref: (element: HTMLSpanElement | null) => {
+        if (element) wordRefs.current.set(key, element);
+        else wordRefs.current.delete(key);
+      },
+      role: 'button',
+      tabIndex: tabStop.verse === verseIndex && tabStop.word === wordIndex ? 0 : -1,
+      onMouseEnter: (e) => onWordHover(word, verseNumber, e),
+      onClick: (e) => {
+        setActiveWord(position);
+        onWordInspect(word, verseNumber, e.currentTarget);
+      },
+      onFocus: () => setActiveWord(position),
+      onKeyDown: (e) => handleWordKeyDown(e, position, word, verseNumber),
+    };
+  };
+
   const renderVerseContent = (content: VerseAnalysisItem[], property: 'koreanWord' | 'originalWord') => {
     return content.map((item, index) => (
       <React.Fragment key={index}>
@@ -152,77 +297,186 @@ const BibleText: React.FC<BibleTextProps> = ({ text, onWordHover, originalPassag
 
   return (
     <div className="space-y-6">
-      {verses.map((verse) => {
-        const match = verse.match(/^(\d+)\.\s*(.*)/);
-        if (!match) return null;
-
-        const verseNumber = match[1];
-        const verseText = match[2];
+      {interlinear && interlinearState === 'loading' && (
+        <div className="flex items-center gap-3 text-gray-500" role="status"><Spinner /><span>행간 대조 자료를 불러오는 중입니다...</span></div>
+      )}
+      {interlinear && interlinearState === 'error' && (
+        <div className="flex items-center justify-between gap-3 p-3 rounded-md bg-amber-50 border border-amber-200 text-amber-800 text-sm" role="alert">
+          <span>{interlinearError}</span>
+          <button onClick={() => setInterlinearRetry(count => count + 1)} className="font-semibold underline">다시 시도</button>
+        </div>
+      )}
+      {verses.map((verse, verseIndex) => {
+        const verseNumber = verse.number;
+        const verseText = verse.text;
         const originalVerseText = originalPassage ? originalPassage[verseNumber] : null;
         const isPlayingThisVerse = playingVerseNumber === verseNumber;
         const isCurrentVerseActiveForHighlight = verseNumber === activeVerseForHighlight;
         const isCurrentlyPlayingForScroll = verseNumber === currentlyPlayingVerse;
+        const isFocused = verseNumber === focusedVerse;
+        const highlight = annotations?.highlights[verseKey({ book, chapter, verse: verseNumber })];
+        const verseNotes = getVerseNotes(verseNumber, verseIndex === 0);
+        const isEditing = editing?.verseNumber === verseNumber;
+        const isVerseBookmarked = !!bookmarkedVerses?.includes(verseNumber);
+        const interlinearWords = getInterlinearWords(verseNumber);
 
         return (
           <div 
             key={verseNumber} 
-            className={`flex items-start p-2 rounded-lg transition-colors duration-300 ${isCurrentlyPlayingForScroll ? 'bg-yellow-200' : ''}`}
+            className={`group flex items-start p-2 rounded-lg transition-colors duration-300 ${isCurrentlyPlayingForScroll ? 'bg-yellow-200' : isFocused ? 'bg-cyan-50 ring-2 ring-cyan-300' : getHighlightClassName(highlight)}`}
             ref={(el) => registerVerseRef(verseNumber, el)}
           >
-            <span className="text-sm md:text-base text-cyan-700/80 font-mono w-8 text-right pr-4 pt-2 select-none">
+            <button
+              onClick={() => handleVerseNumberClick(verseNumber)}
+              className="relative text-sm md:text-base text-cyan-700/80 font-mono w-8 text-right pr-4 pt-2 select-none hover:text-cyan-900 hover:underline"
+              title="이 절의 링크 복사와 관련 구절"
+              aria-label={`${verseNumber}절 선택: 링크 복사, 관련 구절 보기`}
+            >
               {verseNumber}
-            </span>
+              {copiedVerseNumber === verseNumber && (
+                <span className="absolute left-0 -top-3 text-xs font-sans text-emerald-600 whitespace-nowrap">복사됨</span>
+              )}
+            </button>
             <div className="flex-1">
-              <p className="text-2xl md:text-3xl leading-loose">
-                {isPlayingThisVerse && verseAnalysis.length > 0
-                  ? renderVerseContent(verseAnalysis, 'koreanWord')
-                  : verseText.split(/(\s+)/).map((word, wordIndex) => {
-                      if (word.trim() === '') return <span key={wordIndex}>{word}</span>;
-                      return (
-                        <span
-                          key={wordIndex}
-                          onMouseEnter={(e) => onWordHover(word, verseNumber, e)}
-                          className="cursor-pointer hover:bg-cyan-100 transition-colors duration-200 rounded px-1 py-0.5"
-                        >
-                          {word}
-                        </span>
-                      );
-                    })
-                }
-              </p>
-              {originalVerseText && (
-                <div className="mt-2 flex items-center gap-3 bg-gray-100 p-3 rounded-md border">
-                   <button
+              {interlinearWords && originalVerseText ? (
+                <div className="flex items-start gap-3">
+                  <button
                     onClick={() => handlePlayVerse(originalVerseText, verseNumber)}
                     disabled={playingState === 'loading' && !isPlayingThisVerse}
-                    className="text-gray-500 hover:text-cyan-600 disabled:opacity-50 flex-shrink-0"
+                    className="mt-2 text-gray-500 hover:text-cyan-600 disabled:opacity-50 flex-shrink-0"
                     aria-label={`${verseNumber}절 원어 발음 듣기`}
                   >
                     <SpeakerIcon isLoading={playingState === 'loading' && isPlayingThisVerse} />
                   </button>
-                  <p 
-                    className={`flex-1 text-xl md:text-2xl text-gray-700 ${languageClass}`}
-                    dir={languageDir}
+                  <button
+                    onClick={() => openPractice(verseNumber, verseText, originalVerseText)}
+                    className="mt-2 text-gray-500 hover:text-cyan-600 flex-shrink-0"
+                    aria-label={`${verseNumber}절 발음 연습`}
+                    title="발음 연습"
                   >
+                    <MicrophoneIcon />
+                  </button>
+                  <div className="flex-1">
+                    <InterlinearVerse
+                      words={interlinearWords}
+                      languageClass={languageClass}
+                      languageDir={languageDir}
+                      highlightedOriginalWord={isCurrentVerseActiveForHighlight ? cleanedHighlightedOriginalWord : null}
+                      getWordProps={(wordIndex, word) => getWordProps(verseIndex, wordIndex, word, verseNumber)}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <p className="text-2xl md:text-3xl leading-loose">
                     {isPlayingThisVerse && verseAnalysis.length > 0
-                        ? renderVerseContent(verseAnalysis, 'originalWord')
-                        : originalVerseText.split(/(\s+)/).map((word, index) => {
-                          const cleanedWord = word.replace(/[.,;:()׃“"”‘’']/g, '');
-                          const isHighlighted = isCurrentVerseActiveForHighlight && cleanedHighlightedOriginalWord && cleanedWord && cleanedWord === cleanedHighlightedOriginalWord;
+                      ? renderVerseContent(verseAnalysis, 'koreanWord')
+                      : verseText.split(/(\s+)/).map((word, partIndex, parts) => {
+                          if (word.trim() === '') return <span key={partIndex}>{word}</span>;
+                          const wordIndex = parts.slice(0, partIndex).filter(part => part.trim() !== '').length;
                           return (
-                            <span key={index} className={`transition-colors duration-150 rounded px-1 ${isHighlighted ? 'bg-yellow-300' : ''}`}>
+                            <span
+                              key={partIndex}
+                              {...getWordProps(verseIndex, wordIndex, word, verseNumber)}
+                              className="cursor-pointer hover:bg-cyan-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-500 transition-colors duration-200 rounded px-1 py-0.5"
+                            >
                               {word}
                             </span>
                           );
                         })
                     }
                   </p>
-                </div>
+                  {originalVerseText && (
+                    <div className="mt-2 flex items-center gap-3 bg-gray-100 p-3 rounded-md border">
+                       <button
+                        onClick={() => handlePlayVerse(originalVerseText, verseNumber)}
+                        disabled={playingState === 'loading' && !isPlayingThisVerse}
+                        className="text-gray-500 hover:text-cyan-600 disabled:opacity-50 flex-shrink-0"
+                        aria-label={`${verseNumber}절 원어 발음 듣기`}
+                      >
+                        <SpeakerIcon isLoading={playingState === 'loading' && isPlayingThisVerse} />
+                      </button>
+                      <button
+                        onClick={() => openPractice(verseNumber, verseText, originalVerseText)}
+                        className="text-gray-500 hover:text-cyan-600 flex-shrink-0"
+                        aria-label={`${verseNumber}절 발음 연습`}
+                        title="발음 연습"
+                      >
+                        <MicrophoneIcon />
+                      </button>
+                      <p 
+                        className={`flex-1 text-xl md:text-2xl text-gray-700 ${languageClass}`}
+                        dir={languageDir}
+                      >
+                        {isPlayingThisVerse && verseAnalysis.length > 0
+                            ? renderVerseContent(verseAnalysis, 'originalWord')
+                            : originalVerseText.split(/(\s+)/).map((word, index) => {
+                              const cleanedWord = word.replace(/[.,;:()׃“"”‘’']/g, '');
+                              const isHighlighted = isCurrentVerseActiveForHighlight && cleanedHighlightedOriginalWord && cleanedWord && cleanedWord === cleanedHighlightedOriginalWord;
+                              return (
+                                <span key={index} className={`transition-colors duration-150 rounded px-1 ${isHighlighted ? 'bg-yellow-300' : ''}`}>
+                                  {word}
+                                </span>
+                              );
+                            })
+                        }
+                      </p>
+                    </div>
+                  )}
+                </>
+              )}
+              {verseNotes.map(note => (
+                <button
+                  key={note.id}
+                  onClick={() => canAnnotate && setEditing({ verseNumber, note })}
+                  className="mt-3 block w-full text-left p-3 rounded-md bg-amber-50 border border-amber-200 text-gray-700 hover:border-amber-300"
+                  title="메모 편집"
+                >
+                  <span className="block text-xs font-semibold text-amber-700 mb-1">{formatPassageRef(note.range)}</span>
+                  <MarkdownText markdown={note.markdown} className="text-base" />
+                </button>
+              ))}
+              {isEditing && canAnnotate && (
+                <AnnotationEditor
+                  key={editing.note?.id || verseNumber}
+                  book={book}
+                  chapter={chapter}
+                  verseNumber={verseNumber}
+                  verseNumbers={verses.map(v => v.number)}
+                  highlight={highlight}
+                  note={editing.note}
+                  onHighlightChange={color => onHighlightChange!({ book, chapter, verse: verseNumber }, color)}
+                  onSave={onNoteSave!}
+                  onDelete={onNoteDelete!}
+                  onClose={() => setEditing(null)}
+                />
               )}
             </div>
+            {onToggleBookmark && (
+              <button
+                onClick={() => onToggleBookmark(verseNumber)}
+                className={`ml-2 mt-2 flex-shrink-0 ${isVerseBookmarked ? 'text-amber-500 hover:text-amber-600' : 'text-gray-400 hover:text-amber-500 opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+                aria-label={isVerseBookmarked ? `${verseNumber}절 북마크 해제` : `${verseNumber}절 북마크`}
+                aria-pressed={isVerseBookmarked}
+                title="북마크"
+              >
+                <BookmarkIcon filled={isVerseBookmarked} />
+              </button>
+            )}
+            {canAnnotate && (
+              <button
+                onClick={() => setEditing(isEditing ? null : { verseNumber, note: annotations?.notes[verseKey({ book, chapter, verse: verseNumber })] || null })}
+                className={`ml-2 mt-2 text-gray-400 hover:text-cyan-600 flex-shrink-0 ${isEditing ? 'text-cyan-600' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+                aria-label={`${verseNumber}절 형광펜과 메모`}
+                title="형광펜과 메모"
+              >
+                <PencilIcon />
+              </button>
+            )}
           </div>
         );
       })}
+      <PronunciationPracticeModal target={practiceVerse} onClose={() => setPracticeVerse(null)} />
     </div>
   );
 };
@@ -1,23 +1,39 @@
 import React, { useState, useEffect } from 'react';
-import { OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS, ReadingStatus } from '../types';
+import { OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS, ReadingStatus, ReadingLogEntry, DailyReading, PassageRange, ReadingPlanConfig } from '../types';
 import { BIBLE_STRUCTURE } from '../data/bibleStructure';
-import { getReadingStatus, isChapterRead, toggleChapterReadStatus } from '../utils/trackerUtils';
+import { calculateBookProgress, getReadingLog, getReadingStatus, isChapterRead, toggleChapterReadStatus } from '../utils/trackerUtils';
+import ReadingPlanPanel from './ReadingPlanPanel';
+import ReadingStatsPanel from './ReadingStatsPanel';
+import GroupChallengePanel from './GroupChallengePanel';
+
+export type TrackerTab = 'OT' | 'NT' | 'PLAN' | 'STATS' | 'GROUP';
 
 interface BibleTrackerModalProps {
   isOpen: boolean;
   onClose: () => void;
+  initialTab?: TrackerTab;
+  planConfig: ReadingPlanConfig | null;
+  plan: DailyReading[];
+  onPlanConfigChange: (config: ReadingPlanConfig | null) => void;
+  onOpenPassage: (range: PassageRange) => void;
+  onReadingStatusChange?: () => void;
 }
 
-const BibleTrackerModal: React.FC<BibleTrackerModalProps> = ({ isOpen, onClose }) => {
+const BibleTrackerModal: React.FC<BibleTrackerModalProps> = ({ isOpen, onClose, initialTab, planConfig, plan, onPlanConfigChange, onOpenPassage, onReadingStatusChange }) => {
   const [readingStatus, setReadingStatus] = useState<ReadingStatus>({});
-  const [activeTab, setActiveTab] = useState<'OT' | 'NT'>('OT');
+  const [readingLog, setReadingLog] = useState<ReadingLogEntry[]>([]);
+  const [activeTab, setActiveTab] = useState<TrackerTab>('OT');
   const [expandedBook, setExpandedBook] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen) {
       setReadingStatus(getReadingStatus());
+      setReadingLog(getReadingLog());
+      if (initialTab) {
+        setActiveTab(initialTab);
+      }
     }
-  }, [isOpen]);
+  }, [isOpen, initialTab]);
 
   if (!isOpen) return null;
 
@@ -28,23 +44,12 @@ const BibleTrackerModal: React.FC<BibleTrackerModalProps> = ({ isOpen, onClose }
   const handleChapterClick = (book: string, chapter: string) => {
     toggleChapterReadStatus(book, chapter);
     setReadingStatus(getReadingStatus()); // Re-fetch from storage to update UI
+    setReadingLog(getReadingLog());
+    onReadingStatusChange?.();
   };
 
   const booksToShow = activeTab === 'OT' ? OLD_TESTAMENT_BOOKS : NEW_TESTAMENT_BOOKS;
   
-  const calculateProgress = (book: string) => {
-      const chapters = Object.keys(BIBLE_STRUCTURE[book] || {});
-      const totalChapters = chapters.length;
-      if (totalChapters === 0) return { read: 0, total: 0, percentage: 0 };
-      
-      const readChapters = chapters.filter(ch => isChapterRead(readingStatus, book, ch)).length;
-      return {
-          read: readChapters,
-          total: totalChapters,
-          percentage: totalChapters > 0 ? Math.round((readChapters / totalChapters) * 100) : 0
-      };
-  };
-
   return (
     <div 
       className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
@@ -52,6 +57,8 @@ const BibleTrackerModal: React.FC<BibleTrackerModalProps> = ({ isOpen, onClose }
     >
       <div 
         className="bg-white rounded-lg shadow-xl w-full max-w-4xl h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
         onClick={e => e.stopPropagation()}
       >
         <header className="flex justify-between items-center p-4 border-b">
@@ -63,12 +70,26 @@ const BibleTrackerModal: React.FC<BibleTrackerModalProps> = ({ isOpen, onClose }
             <div className="flex gap-2">
                 <button onClick={() => setActiveTab('OT')} className={`w-full py-2 px-4 rounded font-semibold ${activeTab === 'OT' ? 'bg-cyan-600 text-white' : 'bg-gray-200'}`}>구약</button>
                 <button onClick={() => setActiveTab('NT')} className={`w-full py-2 px-4 rounded font-semibold ${activeTab === 'NT' ? 'bg-cyan-600 text-white' : 'bg-gray-200'}`}>신약</button>
+                <button onClick={() => setActiveTab('PLAN')} className={`w-full py-2 px-4 rounded font-semibold ${activeTab === 'PLAN' ? 'bg-cyan-600 text-white' : 'bg-gray-200'}`}>읽기 계획</button>
+                <button onClick={() => setActiveTab('STATS')} className={`w-full py-2 px-4 rounded font-semibold ${activeTab === 'STATS' ? 'bg-cyan-600 text-white' : 'bg-gray-200'}`}>통계</button>
+                <button onClick={() => setActiveTab('GROUP')} className={`w-full py-2 px-4 rounded font-semibold ${activeTab === 'GROUP' ? 'bg-cyan-600 text-white' : 'bg-gray-200'}`}>그룹</button>
             </div>
         </div>
 
         <main className="flex-grow overflow-y-auto p-4 space-y-2">
-          {booksToShow.map(book => {
-            const progress = calculateProgress(book);
+          {activeTab === 'PLAN' && (
+            <ReadingPlanPanel
+              config={planConfig}
+              plan={plan}
+              readingStatus={readingStatus}
+              onConfigChange={onPlanConfigChange}
+              onOpenPassage={onOpenPassage}
+            />
+          )}
+          {activeTab === 'STATS' && <ReadingStatsPanel entries={readingLog} />}
+          {activeTab === 'GROUP' && <GroupChallengePanel readingLog={readingLog} />}
+          {(activeTab === 'OT' || activeTab === 'NT') && booksToShow.map(book => {
+            const progress = calculateBookProgress(readingStatus, book);
             const isExpanded = expandedBook === book;
             return (
               <div key={book}>
@@ -0,0 +1,111 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Bookmark } from '../types';
+import { formatBookmarkRef } from '../utils/bookmarkUtils';
+
+interface BookmarksMenuProps {
+  bookmarks: Bookmark[];
+  currentChapter: { book: string; chapter: string } | null; // the chapter that "add bookmark" applies to
+  onAdd: (book: string, chapter: string, label: string) => void;
+  onRemove: (id: string) => void;
+  onLabelChange: (id: string, label: string) => void;
+  onNavigate: (bookmark: Bookmark) => void;
+}
+
+const BookmarksMenu: React.FC<BookmarksMenuProps> = ({ bookmarks, currentChapter, onAdd, onRemove, onLabelChange, onNavigate }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newLabel, setNewLabel] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingLabel, setEditingLabel] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentChapter) return;
+    onAdd(currentChapter.book, currentChapter.chapter, newLabel);
+    setNewLabel('');
+  };
+
+  const startEditing = (bookmark: Bookmark) => {
+    setEditingId(bookmark.id);
+    setEditingLabel(bookmark.label || '');
+  };
+
+  const finishEditing = () => {
+    if (editingId) {
+      onLabelChange(editingId, editingLabel);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="bg-white text-cyan-700 border border-cyan-600 font-bold py-2 px-5 rounded-lg hover:bg-cyan-50 transition-all duration-300 shadow-md hover:shadow-lg transform hover:-translate-y-0.5"
+        aria-expanded={isOpen}
+      >
+        북마크{bookmarks.length > 0 && ` (${bookmarks.length})`}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-h-[28rem] overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-xl z-40 text-left">
+          {currentChapter && (
+            <form onSubmit={handleAdd} className="p-3 border-b flex gap-2">
+              <input
+                type="text"
+                value={newLabel}
+                onChange={e => setNewLabel(e.target.value)}
+                placeholder={`${currentChapter.book} ${currentChapter.chapter}장 (라벨 선택)`}
+                className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-cyan-500"
+              />
+              <button type="submit" className="px-3 py-1.5 bg-cyan-600 text-white rounded-md text-sm font-semibold hover:bg-cyan-700">추가</button>
+            </form>
+          )}
+          {bookmarks.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">저장된 북마크가 없습니다.</p>
+          ) : (
+            <ul className="divide-y">
+              {bookmarks.map(bookmark => (
+                <li key={bookmark.id} className="p-3 flex items-start gap-2 hover:bg-gray-50">
+                  {editingId === bookmark.id ? (
+                    <input
+                      type="text"
+                      value={editingLabel}
+                      onChange={e => setEditingLabel(e.target.value)}
+                      onBlur={finishEditing}
+                      onKeyDown={e => { if (e.key === 'Enter') finishEditing(); if (e.key === 'Escape') setEditingId(null); }}
+                      autoFocus
+                      className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => { onNavigate(bookmark); setIsOpen(false); }}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <span className="block font-semibold text-gray-800 truncate">{bookmark.label || formatBookmarkRef(bookmark)}</span>
+                      {bookmark.label && <span className="block text-xs text-gray-500">{formatBookmarkRef(bookmark)}</span>}
+                    </button>
+                  )}
+                  <button onClick={() => startEditing(bookmark)} className="text-xs text-gray-500 hover:text-cyan-700" aria-label="라벨 편집">라벨</button>
+                  <button onClick={() => onRemove(bookmark.id)} className="text-gray-400 hover:text-red-600" aria-label="북마크 삭제">&times;</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BookmarksMenu;
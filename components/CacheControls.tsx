@@ -0,0 +1,59 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { getCacheStats, clearCache, CacheStats } from '../services/cacheService';
+import { clearOfflineLibrary } from '../services/offlineService';
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) {
+        return `${Math.round(bytes / 1024)}KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+interface CacheControlsProps {
+    onCleared?: () => void;
+}
+
+const CacheControls: React.FC<CacheControlsProps> = ({ onCleared }) => {
+    const [stats, setStats] = useState<CacheStats | null>(null);
+    const [isClearing, setIsClearing] = useState(false);
+
+    const refreshStats = useCallback(() => {
+        getCacheStats().then(setStats).catch(err => console.warn('Failed to read cache stats', err));
+    }, []);
+
+    useEffect(() => {
+        refreshStats();
+    }, [refreshStats]);
+
+    const handleClear = async () => {
+        if (!window.confirm('저장된 본문, 단어 뜻, 음성 데이터를 모두 삭제할까요? 오프라인용으로 저장한 데이터도 함께 삭제됩니다.')) return;
+        setIsClearing(true);
+        try {
+            await clearCache();
+            clearOfflineLibrary();
+            onCleared?.();
+        } catch (err) {
+            console.error('Failed to clear cache', err);
+        } finally {
+            setIsClearing(false);
+            refreshStats();
+        }
+    };
+
+    return (
+        <div className="flex justify-center items-center gap-3 mt-3 text-sm text-gray-500">
+            <span onMouseEnter={refreshStats}>
+                저장된 데이터: {stats ? `${stats.entries}개 (${formatBytes(stats.bytes)})` : '-'}
+            </span>
+            <button
+                onClick={handleClear}
+                disabled={isClearing}
+                className="underline hover:text-cyan-700 disabled:opacity-50"
+            >
+                캐시 비우기
+            </button>
+        </div>
+    );
+};
+
+export default CacheControls;
@@ -0,0 +1,274 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ConcordanceLemma, ConcordanceOccurrence, VerseRef, WordDefinition } from '../types';
+import { findOccurrences, isConcordanceAvailable, resolveConcordanceLemma } from '../services/concordanceService';
+import { getKoreanPassage, getKoreanRenderings } from '../services/geminiService';
+import { DEFAULT_TRANSLATION } from '../data/translations';
+import { getApiErrorMessage, isAbortError } from '../services/apiErrors';
+import { countByBook, getVerseCount } from '../utils/referenceUtils';
+import Spinner from './Spinner';
+
+export interface ConcordanceTarget {
+  definition: WordDefinition;
+  ref: VerseRef; // the verse the word was picked from
+  testament: '구약성경' | '신약성경';
+}
+
+interface ConcordanceModalProps {
+  target: ConcordanceTarget | null;
+  onClose: () => void;
+  onOpenVerse: (ref: VerseRef) => void;
+}
+
+const PAGE_SIZE = 20;
+
+const verseKey = ({ book, chapter, verse }: VerseRef) => `${book}|${chapter}|${verse}`;
+const occurrenceKey = (occurrence: ConcordanceOccurrence) => `${verseKey(occurrence)}|${occurrence.word}`;
+
+const HighlightedVerse: React.FC<{ text: string; rendering: string }> = ({ text, rendering }) => {
+  const index = rendering ? text.indexOf(rendering) : -1;
+  if (index < 0) return <>{text}</>;
+  return (
+    <>
+      {text.slice(0, index)}
+      <mark className="bg-yellow-200 rounded px-0.5">{rendering}</mark>
+      {text.slice(index + rendering.length)}
+    </>
+  );
+};
+
+const ConcordanceModal: React.FC<ConcordanceModalProps> = ({ target, onClose, onOpenVerse }) => {
+  const [lemma, setLemma] = useState<ConcordanceLemma | null>(null);
+  const [occurrences, setOccurrences] = useState<ConcordanceOccurrence[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [bookFilter, setBookFilter] = useState<string | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [koreanVerses, setKoreanVerses] = useState<Record<string, string>>({});
+  const [renderings, setRenderings] = useState<Record<string, string>>({});
+  const [renderingError, setRenderingError] = useState<string | null>(null);
+  // Read through a ref: the page effect fills renderings in, and should not run again when it does.
+  const renderingsRef = useRef(renderings);
+  renderingsRef.current = renderings;
+
+  useEffect(() => {
+    setLemma(null);
+    setOccurrences([]);
+    setError(null);
+    setBookFilter(null);
+    setVisibleCount(PAGE_SIZE);
+    setKoreanVerses({});
+    setRenderings({});
+    setRenderingError(null);
+    if (!target) return;
+    if (!isConcordanceAvailable()) {
+      setError('원어 용례 검색에는 로컬 원어 본문(TEXT_SOURCE=local)이 필요합니다.');
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    (async () => {
+      try {
+        const resolved = await resolveConcordanceLemma(target.definition, target.ref, target.testament);
+        if (cancelled) return;
+        if (!resolved) {
+          setError(`'${target.definition.originalWord}'의 기본형을 원어 본문에서 찾지 못했습니다.`);
+          return;
+        }
+        setLemma(resolved);
+        const found = await findOccurrences(resolved, (done, total) => !cancelled && setProgress({ done, total }));
+        if (!cancelled) setOccurrences(found);
+      } catch (err) {
+        console.error('Failed to load concordance:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : '용례를 불러오지 못했습니다.');
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+          setProgress(null);
+        }
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [target]);
+
+  const bookCounts = useMemo(() => countByBook(occurrences), [occurrences]);
+  const filtered = useMemo(
+    () => bookFilter ? occurrences.filter(occurrence => occurrence.book === bookFilter) : occurrences,
+    [occurrences, bookFilter]);
+  const visible = useMemo(() => filtered.slice(0, visibleCount), [filtered, visibleCount]);
+
+  // Korean text and renderings are fetched a page at a time, for the occurrences on screen.
+  useEffect(() => {
+    if (!lemma) return;
+    const missing = visible.filter(occurrence => renderingsRef.current[occurrenceKey(occurrence)] === undefined);
+    if (missing.length === 0) return;
+
+    const abortController = new AbortController();
+    setRenderingError(null);
+    (async () => {
+      try {
+        const verses: Record<string, string> = {};
+        const chapters = [...new Set(missing.map(({ book, chapter }) => `${book}|${chapter}`))];
+        await Promise.all(chapters.map(async key => {
+          const [book, chapter] = key.split('|');
+          const passage = await getKoreanPassage(book, chapter, DEFAULT_TRANSLATION, getVerseCount(book, chapter), { signal: abortController.signal });
+          for (const verse of passage.verses) {
+            verses[verseKey({ book, chapter, verse: verse.number })] = verse.text;
+          }
+        }));
+        setKoreanVerses(prev => ({ ...prev, ...verses }));
+
+        const queries = missing.map(occurrence => ({ korean: verses[verseKey(occurrence)] || '', original: occurrence.word }));
+        const found = await getKoreanRenderings(lemma.lemma, queries, { signal: abortController.signal });
+        setRenderings(prev => {
+          const next = { ...prev };
+          missing.forEach((occurrence, index) => { next[occurrenceKey(occurrence)] = found[index] || ''; });
+          return next;
+        });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('Failed to load Korean renderings:', err);
+        setRenderingError(getApiErrorMessage(err) ?? '한국어 번역어를 불러오지 못했습니다.');
+      }
+    })();
+    return () => abortController.abort();
+  }, [lemma, visible]);
+
+  const renderingCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const occurrence of filtered) {
+      const rendering = renderings[occurrenceKey(occurrence)];
+      if (rendering) counts.set(rendering, (counts.get(rendering) || 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  }, [filtered, renderings]);
+
+  if (!target) return null;
+
+  const maxCount = Math.max(1, ...bookCounts.map(({ count }) => count));
+  const languageClass = target.testament === '구약성경' ? 'font-hebrew' : 'font-greek';
+
+  const openVerse = (ref: VerseRef) => {
+    onOpenVerse(ref);
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-4xl h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b">
+          <div>
+            <h2 className="text-2xl font-bold text-cyan-800">
+              <span className={languageClass}>{lemma?.lemma || target.definition.originalWord}</span> 용례
+            </h2>
+            {lemma && (
+              <p className="text-sm text-gray-500">
+                {lemma.strongsNumber && <span className="font-mono mr-2">{lemma.strongsNumber}</span>}
+                {target.testament} 전체 {occurrences.length}회
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">&times;</button>
+        </header>
+
+        <main className="flex-grow overflow-y-auto p-4 space-y-6">
+          {isLoading && (
+            <div className="flex items-center justify-center gap-2 mt-12 text-gray-600">
+              <Spinner />
+              <span>{progress ? `원어 색인을 만드는 중... (${progress.done}/${progress.total}권)` : '용례를 찾는 중...'}</span>
+            </div>
+          )}
+          {error && <p className="text-center text-red-500 mt-12">{error}</p>}
+          {!isLoading && !error && lemma && occurrences.length === 0 && (
+            <p className="text-center text-gray-500 mt-12">원어 본문에서 용례를 찾지 못했습니다.</p>
+          )}
+
+          {bookCounts.length > 0 && (
+            <section>
+              <h3 className="font-bold text-gray-800 mb-2">책별 빈도</h3>
+              <div className="space-y-1">
+                <button
+                  onClick={() => { setBookFilter(null); setVisibleCount(PAGE_SIZE); }}
+                  className={`text-sm font-semibold px-2 py-0.5 rounded ${bookFilter === null ? 'bg-cyan-600 text-white' : 'text-cyan-700 hover:bg-cyan-50'}`}
+                >
+                  전체 {occurrences.length}회
+                </button>
+                {bookCounts.map(({ book, count }) => (
+                  <button
+                    key={book}
+                    onClick={() => { setBookFilter(book); setVisibleCount(PAGE_SIZE); }}
+                    className={`w-full flex items-center gap-3 rounded px-1 ${bookFilter === book ? 'bg-cyan-50 ring-1 ring-cyan-400' : 'hover:bg-gray-50'}`}
+                    aria-pressed={bookFilter === book}
+                  >
+                    <span className="w-20 text-left text-sm font-semibold text-gray-700">{book}</span>
+                    <span className="flex-1 bg-gray-100 rounded-full h-3">
+                      <span className="block bg-cyan-400 h-3 rounded-full" style={{ width: `${(count / maxCount) * 100}%` }}></span>
+                    </span>
+                    <span className="w-10 text-right text-sm font-mono text-gray-600">{count}</span>
+                  </button>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {renderingCounts.length > 0 && (
+            <section>
+              <h3 className="font-bold text-gray-800 mb-2">한국어 번역어</h3>
+              <div className="flex flex-wrap gap-2">
+                {renderingCounts.map(([rendering, count]) => (
+                  <span key={rendering} className="px-2 py-1 rounded-md bg-gray-50 border text-sm">
+                    {rendering} <span className="text-gray-400">{count}</span>
+                  </span>
+                ))}
+              </div>
+              {visible.length < filtered.length && <p className="text-xs text-gray-400 mt-1">아래에 불러온 구절 기준입니다.</p>}
+            </section>
+          )}
+
+          {visible.length > 0 && (
+            <section>
+              <h3 className="font-bold text-gray-800 mb-2">{bookFilter || target.testament} 구절 ({filtered.length})</h3>
+              {renderingError && <p className="text-sm text-red-500 mb-2">{renderingError}</p>}
+              <ul className="divide-y">
+                {visible.map(occurrence => {
+                  const text = koreanVerses[verseKey(occurrence)];
+                  const rendering = renderings[occurrenceKey(occurrence)];
+                  return (
+                    <li key={occurrenceKey(occurrence)} className="py-2">
+                      <div className="flex items-baseline gap-3">
+                        <button onClick={() => openVerse(occurrence)} className="font-semibold text-cyan-700 hover:underline whitespace-nowrap">
+                          {occurrence.book} {occurrence.chapter}:{occurrence.verse}
+                        </button>
+                        <span className={`text-lg text-gray-800 ${languageClass}`}>{occurrence.word}</span>
+                        {rendering && <span className="text-sm text-cyan-800 bg-cyan-50 rounded px-1.5">{rendering}</span>}
+                      </div>
+                      <p className="text-gray-600 text-sm mt-0.5">
+                        {text === undefined ? <span className="text-gray-400">불러오는 중...</span> : <HighlightedVerse text={text} rendering={rendering || ''} />}
+                      </p>
+                    </li>
+                  );
+                })}
+              </ul>
+              {visible.length < filtered.length && (
+                <button onClick={() => setVisibleCount(count => count + PAGE_SIZE)} className="mt-3 w-full py-2 rounded-lg bg-gray-100 hover:bg-gray-200 font-semibold text-gray-700">
+                  더 보기 ({filtered.length - visible.length})
+                </button>
+              )}
+            </section>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default ConcordanceModal;
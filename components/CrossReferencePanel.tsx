@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CrossReference, CrossReferenceKind, KoreanPassage, PassageRange, VerseRef } from '../types';
+import { DEFAULT_TRANSLATION } from '../data/translations';
+import { getCrossReferences, getModelCrossReferences } from '../services/crossReferenceService';
+import { getKoreanPassage, peekKoreanPassage } from '../services/geminiService';
+import { getApiErrorMessage, isAbortError } from '../services/apiErrors';
+import { formatPassageRef, getTestament, getVerseCount } from '../utils/referenceUtils';
+import Spinner from './Spinner';
+
+export interface CrossReferenceTarget {
+  ref: VerseRef;
+  verseText: string;
+}
+
+interface CrossReferencePanelProps {
+  target: CrossReferenceTarget | null;
+  onClose: () => void;
+  onOpenVerse: (ref: VerseRef) => void;
+}
+
+const KIND_ORDER: CrossReferenceKind[] = ['parallel', 'quotation', 'thematic'];
+const THEMATIC_PAGE_SIZE = 10;
+const PREVIEW_LENGTH = 100;
+
+const kindLabel = (kind: CrossReferenceKind, ref: VerseRef) => {
+  if (kind === 'parallel') return '병행 본문';
+  if (kind === 'quotation') return getTestament(ref.book) === '신약성경' ? '인용된 구약 본문' : '신약의 인용';
+  return '주제 관련 구절';
+};
+
+const previewText = (passage: KoreanPassage, range: PassageRange) => {
+  const lastVerse = range.end.chapter === range.start.chapter ? Number(range.end.verse) : Infinity;
+  const text = passage.verses
+    .filter(verse => Number(verse.number) >= Number(range.start.verse) && Number(verse.number) <= lastVerse)
+    .map(verse => verse.text)
+    .join(' ');
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+};
+
+// Previews come from the cache or local files; a chapter that would need a model request waits for a click.
+const CrossReferenceItem: React.FC<{ reference: CrossReference; onOpen: () => void }> = ({ reference, onOpen }) => {
+  const { range } = reference;
+  const [preview, setPreview] = useState<string | null>(null);
+  const [previewState, setPreviewState] = useState<'idle' | 'loading' | 'unavailable' | 'error'>('loading');
+
+  useEffect(() => {
+    let isCancelled = false;
+    setPreview(null);
+    setPreviewState('loading');
+    peekKoreanPassage(range.start.book, range.start.chapter, DEFAULT_TRANSLATION)
+      .then(passage => {
+        if (isCancelled) return;
+        setPreview(passage ? previewText(passage, range) : null);
+        setPreviewState(passage ? 'idle' : 'unavailable');
+      })
+      .catch(err => {
+        if (isCancelled) return;
+        console.warn(`Failed to read ${formatPassageRef(range)} for a preview`, err);
+        setPreviewState('unavailable');
+      });
+    return () => { isCancelled = true; };
+  }, [range]);
+
+  const loadPreview = async () => {
+    setPreviewState('loading');
+    try {
+      const passage = await getKoreanPassage(range.start.book, range.start.chapter, DEFAULT_TRANSLATION, getVerseCount(range.start.book, range.start.chapter));
+      setPreview(previewText(passage, range));
+      setPreviewState('idle');
+    } catch (err) {
+      console.error(`Failed to load ${formatPassageRef(range)} for a preview`, err);
+      setPreviewState('error');
+    }
+  };
+
+  return (
+    <li className="py-3">
+      <button onClick={onOpen} className="font-semibold text-cyan-700 hover:underline">{formatPassageRef(range)}</button>
+      {reference.source === 'model' && <span className="ml-2 text-xs text-gray-400">AI 제안</span>}
+      {reference.note && <p className="text-sm text-gray-500">{reference.note}</p>}
+      {previewState === 'loading' && <div className="mt-1"><Spinner /></div>}
+      {preview && <p className="mt-1 text-gray-700">{preview}</p>}
+      {(previewState === 'unavailable' || previewState === 'error') && (
+        <button onClick={loadPreview} className="mt-1 text-sm text-gray-500 hover:text-cyan-700 hover:underline">
+          {previewState === 'error' ? '미리보기를 불러오지 못했습니다. 다시 시도' : '본문 미리보기'}
+        </button>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Related passages of one verse: parallel accounts, quotations and thematic
+ * cross-references from local data, with the model as an on-request fallback.
+ */
+const CrossReferencePanel: React.FC<CrossReferencePanelProps> = ({ target, onClose, onOpenVerse }) => {
+  const [references, setReferences] = useState<CrossReference[]>([]);
+  const [hasDataset, setHasDataset] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [modelState, setModelState] = useState<'idle' | 'loading' | 'done'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [thematicLimit, setThematicLimit] = useState(THEMATIC_PAGE_SIZE);
+  const modelAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!target) return;
+    let isCancelled = false;
+    setReferences([]);
+    setIsLoading(true);
+    setModelState('idle');
+    setError(null);
+    setThematicLimit(THEMATIC_PAGE_SIZE);
+    getCrossReferences(target.ref).then(result => {
+      if (isCancelled) return;
+      setReferences(result.references);
+      setHasDataset(result.hasDataset);
+      setIsLoading(false);
+    });
+    return () => { isCancelled = true; };
+  }, [target]);
+
+  // A model request in flight belongs to the verse it was made for.
+  useEffect(() => () => modelAbortRef.current?.abort(), [target]);
+
+  if (!target) return null;
+
+  const askModel = async () => {
+    modelAbortRef.current?.abort();
+    const controller = new AbortController();
+    modelAbortRef.current = controller;
+    setModelState('loading');
+    setError(null);
+    try {
+      const suggestions = await getModelCrossReferences(target.ref, target.verseText, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setReferences(prev => [...prev, ...suggestions.filter(suggestion => !prev.some(reference => formatPassageRef(reference.range) === formatPassageRef(suggestion.range)))]);
+      setModelState('done');
+    } catch (err) {
+      if (isAbortError(err) || controller.signal.aborted) return;
+      console.error('Cross-reference suggestions failed:', err);
+      setError(getApiErrorMessage(err) ?? '관련 구절을 찾지 못했습니다.');
+      setModelState('idle');
+    }
+  };
+
+  const groups = KIND_ORDER
+    .map(kind => ({ kind, items: references.filter(reference => reference.kind === kind) }))
+    .filter(group => group.items.length > 0);
+
+  return (
+    <aside
+      className="fixed top-0 right-0 h-full w-full sm:w-96 bg-white shadow-2xl border-l z-40 flex flex-col"
+      aria-label="관련 구절"
+    >
+      <header className="flex justify-between items-center p-4 border-b">
+        <div>
+          <h2 className="text-2xl font-bold text-cyan-800">관련 구절</h2>
+          <button onClick={() => onOpenVerse(target.ref)} className="text-sm text-gray-500 hover:text-cyan-700 hover:underline">
+            {target.ref.book} {target.ref.chapter}:{target.ref.verse}
+          </button>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="관련 구절 닫기">&times;</button>
+      </header>
+
+      <main className="flex-grow overflow-y-auto p-4">
+        {isLoading ? (
+          <div className="flex justify-center mt-8"><Spinner /></div>
+        ) : (
+          <>
+            {groups.length === 0 && modelState !== 'loading' && (
+              <p className="text-gray-500">이 절의 관련 구절 자료가 없습니다.</p>
+            )}
+            {groups.map(({ kind, items }) => {
+              const visible = kind === 'thematic' ? items.slice(0, thematicLimit) : items;
+              return (
+                <section key={kind} className="mb-6">
+                  <h3 className="text-sm font-bold text-gray-500 border-b pb-1">{kindLabel(kind, target.ref)} ({items.length})</h3>
+                  <ul className="divide-y">
+                    {visible.map(reference => (
+                      <CrossReferenceItem
+                        key={formatPassageRef(reference.range)}
+                        reference={reference}
+                        onOpen={() => onOpenVerse(reference.range.start)}
+                      />
+                    ))}
+                  </ul>
+                  {visible.length < items.length && (
+                    <button onClick={() => setThematicLimit(limit => limit + THEMATIC_PAGE_SIZE)} className="mt-2 text-sm font-semibold text-cyan-700 hover:underline">
+                      더 보기
+                    </button>
+                  )}
+                </section>
+              );
+            })}
+            {(!hasDataset || references.length === 0) && modelState !== 'done' && (
+              <div className="mt-4 text-sm text-gray-500">
+                {!hasDataset && <p className="mb-2">주제별 관련 구절 자료(crossrefs)가 설치되어 있지 않습니다.</p>}
+                <button
+                  onClick={askModel}
+                  disabled={modelState === 'loading'}
+                  className="flex items-center gap-2 px-3 py-1.5 rounded-md border border-cyan-600 text-cyan-700 font-semibold hover:bg-cyan-50 disabled:opacity-50"
+                >
+                  {modelState === 'loading' && <Spinner />}
+                  Gemini로 관련 구절 찾기
+                </button>
+                {error && <p className="mt-2 text-red-500">{error}</p>}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </aside>
+  );
+};
+
+export default CrossReferencePanel;
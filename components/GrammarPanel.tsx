@@ -0,0 +1,92 @@
+import React from 'react';
+import { WordDefinition } from '../types';
+import { NOT_APPLICABLE } from '../utils/morphologyUtils';
+
+interface GrammarPanelProps {
+  definition: WordDefinition;
+}
+
+type GrammarField = [label: string, value: string | undefined];
+
+const GrammarGrid: React.FC<{ title: string; fields: GrammarField[] }> = ({ title, fields }) => (
+  <div>
+    <h4 className="font-bold text-sm text-gray-500 uppercase tracking-wider mb-1.5">{title}</h4>
+    <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-base bg-gray-50 p-3 rounded-md border">
+      {fields.map(([label, value]) => (
+        <div key={label}>
+          <div className="text-xs font-semibold text-gray-500">{label}</div>
+          <div className="font-medium">{value}</div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+// Hides categories that do not apply, so a noun does not list empty verb fields.
+const applicable = (fields: GrammarField[]) =>
+  fields.filter(([, value]) => value && value !== NOT_APPLICABLE);
+
+/**
+ * The grammar of a word: Hebrew words show binyan, conjugation and state; Greek words show
+ * tense, voice, mood and case. Definitions cached before morphology was added get the
+ * original four-field grid.
+ */
+const GrammarPanel: React.FC<GrammarPanelProps> = ({ definition }) => {
+  const { morphology } = definition;
+
+  if (morphology?.language === 'hebrew') {
+    return (
+      <GrammarGrid
+        title="문법 정보 · 히브리어"
+        fields={[
+          ['품사', definition.partOfSpeech],
+          ...applicable([
+            ['어간 (binyan)', morphology.stem],
+            ['활용', morphology.conjugation],
+            ['인칭', morphology.person],
+            ['성', definition.gender],
+            ['수', definition.number],
+            ['상태', morphology.state],
+            ['한정성', morphology.definiteness],
+            ['인칭 접미사', morphology.suffix],
+          ]),
+        ]}
+      />
+    );
+  }
+
+  if (morphology?.language === 'greek') {
+    return (
+      <GrammarGrid
+        title="문법 정보 · 헬라어"
+        fields={[
+          ['품사', definition.partOfSpeech],
+          ...applicable([
+            ['시제', morphology.tense],
+            ['태', morphology.voice],
+            ['법', morphology.mood],
+            ['인칭', morphology.person],
+            ['격', definition.case],
+            ['성', definition.gender],
+            ['수', definition.number],
+            ['한정성', morphology.definiteness],
+          ]),
+        ]}
+      />
+    );
+  }
+
+  return (
+    <GrammarGrid
+      title="문법 정보"
+      fields={[
+        ['품사', definition.partOfSpeech],
+        ['성', definition.gender],
+        ['수', definition.number],
+        ['격', definition.case],
+      ]}
+    />
+  );
+};
+
+export default GrammarPanel;
@@ -0,0 +1,266 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { GroupBoard, GroupMembership, ReadingLogEntry, ReadingPlanConfig, ReadingPlanId } from '../types';
+import { READING_PLANS } from '../data/readingPlans';
+import { createGroup, fetchGroupBoard, getGroupMemberships, GroupRequestError, joinGroup, leaveGroup, pushGroupProgress } from '../services/groupService';
+import { buildLeaderboard, getChallengeStatus } from '../utils/groupUtils';
+import { generateReadingPlan, getPlanDefinition } from '../utils/readingPlanUtils';
+import { toDateKey } from '../utils/dateUtils';
+
+interface GroupChallengePanelProps {
+  readingLog: ReadingLogEntry[];
+}
+
+// Custom plans need a book list, which is more than a group setup form should ask for.
+const GROUP_PLANS = READING_PLANS.filter(plan => plan.id !== 'custom');
+
+const errorMessage = (error: unknown) =>
+  error instanceof GroupRequestError ? error.message : '요청을 처리하지 못했습니다.';
+
+const inputClassName = 'mt-1 w-full px-2 py-1.5 border border-gray-300 rounded-md font-normal focus:ring-2 focus:ring-cyan-500';
+
+const GroupSetup: React.FC<{ onJoined: (membership: GroupMembership, board: GroupBoard) => void; onCancel?: () => void }> = ({ onJoined, onCancel }) => {
+  const [groupName, setGroupName] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [planId, setPlanId] = useState<ReadingPlanId>('canonical');
+  const [startDate, setStartDate] = useState(toDateKey(new Date()));
+  const [joinCode, setJoinCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (request: () => Promise<{ membership: GroupMembership; board: GroupBoard }>) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const { membership, board } = await request();
+      onJoined(membership, board);
+    } catch (err) {
+      console.error('Group request failed', err);
+      setError(errorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const plan: ReadingPlanConfig = { planId, startDate, daysPerWeek: 7 };
+    submit(() => createGroup(groupName.trim(), displayName.trim(), plan));
+  };
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(() => joinGroup(joinCode.trim(), displayName.trim()));
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="block text-sm font-semibold text-gray-700">
+        그룹에서 보일 내 이름
+        <input type="text" value={displayName} onChange={e => setDisplayName(e.target.value)} maxLength={40} className={inputClassName} />
+      </label>
+      <div className="grid md:grid-cols-2 gap-4">
+        <form onSubmit={handleJoin} className="p-4 rounded-lg border border-gray-200 space-y-3">
+          <h3 className="font-bold text-gray-800">참여 코드로 들어가기</h3>
+          <input
+            type="text"
+            value={joinCode}
+            onChange={e => setJoinCode(e.target.value.toUpperCase())}
+            placeholder="예: K7M2QX"
+            maxLength={6}
+            className={`${inputClassName} font-mono tracking-widest uppercase`}
+            aria-label="참여 코드"
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting || !displayName.trim() || joinCode.trim().length < 6}
+            className="w-full px-4 py-2 rounded-lg bg-cyan-600 text-white font-semibold hover:bg-cyan-700 disabled:opacity-50"
+          >
+            참여하기
+          </button>
+        </form>
+        <form onSubmit={handleCreate} className="p-4 rounded-lg border border-gray-200 space-y-3">
+          <h3 className="font-bold text-gray-800">새 그룹 만들기</h3>
+          <input type="text" value={groupName} onChange={e => setGroupName(e.target.value)} placeholder="예: 2027 청년부 통독" maxLength={40} className={inputClassName} aria-label="그룹 이름" />
+          <div className="flex gap-2">
+            <select value={planId} onChange={e => setPlanId(e.target.value as ReadingPlanId)} className="flex-1 border rounded px-2 py-1.5" aria-label="함께 읽을 계획">
+              {GROUP_PLANS.map(plan => <option key={plan.id} value={plan.id}>{plan.name}</option>)}
+            </select>
+            <input type="date" value={startDate} onChange={e => e.target.value && setStartDate(e.target.value)} className="border rounded px-2 py-1.5" aria-label="시작일" />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting || !displayName.trim() || !groupName.trim()}
+            className="w-full px-4 py-2 rounded-lg bg-cyan-600 text-white font-semibold hover:bg-cyan-700 disabled:opacity-50"
+          >
+            만들기
+          </button>
+        </form>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {onCancel && (
+        <div className="flex justify-end">
+          <button onClick={onCancel} className="px-4 py-2 rounded-lg text-gray-600 hover:bg-gray-100 font-semibold">취소</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const GroupChallengePanel: React.FC<GroupChallengePanelProps> = ({ readingLog }) => {
+  const [memberships, setMemberships] = useState<GroupMembership[]>(getGroupMemberships);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(() => getGroupMemberships()[0]?.groupId ?? null);
+  const [board, setBoard] = useState<GroupBoard | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [expandedMemberId, setExpandedMemberId] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+
+  const membership = memberships.find(m => m.groupId === selectedGroupId) || null;
+
+  // Sends this device's progress, which also returns the latest board.
+  const refreshBoard = useCallback(async (target: GroupMembership) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const current = await fetchGroupBoard(target);
+      const plan = generateReadingPlan(current.group.plan);
+      setBoard(await pushGroupProgress(target, getChallengeStatus(readingLog, plan, current.group.plan.startDate)));
+    } catch (err) {
+      console.error('Failed to load group board', err);
+      setError(errorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [readingLog]);
+
+  // Keyed by group id: re-reading the memberships gives a new object for the same group.
+  const membershipRef = useRef(membership);
+  membershipRef.current = membership;
+  const groupId = membership?.groupId;
+
+  useEffect(() => {
+    setBoard(null);
+    if (membershipRef.current) refreshBoard(membershipRef.current);
+  }, [groupId, refreshBoard]);
+
+  const handleJoined = (joined: GroupMembership, joinedBoard: GroupBoard) => {
+    setMemberships(getGroupMemberships());
+    setSelectedGroupId(joined.groupId);
+    setBoard(joinedBoard);
+    setIsAdding(false);
+  };
+
+  const handleLeave = async () => {
+    if (!membership || !window.confirm(`'${membership.groupName}' 그룹에서 나갈까요?`)) return;
+    try {
+      await leaveGroup(membership);
+      const remaining = getGroupMemberships();
+      setMemberships(remaining);
+      setSelectedGroupId(remaining[0]?.groupId ?? null);
+    } catch (err) {
+      console.error('Failed to leave group', err);
+      setError(errorMessage(err));
+    }
+  };
+
+  const handleCopyCode = async (joinCode: string) => {
+    try {
+      await navigator.clipboard.writeText(joinCode);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy join code', err);
+    }
+  };
+
+  if (!membership || isAdding) {
+    return <GroupSetup onJoined={handleJoined} onCancel={membership ? () => setIsAdding(false) : undefined} />;
+  }
+
+  const today = toDateKey(new Date());
+  const leaderboard = board ? buildLeaderboard(board, today) : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-start gap-3">
+        <div>
+          {memberships.length > 1 ? (
+            <select value={membership.groupId} onChange={e => setSelectedGroupId(e.target.value)} className="text-lg font-bold text-gray-800 border rounded px-2 py-1" aria-label="그룹 선택">
+              {memberships.map(m => <option key={m.groupId} value={m.groupId}>{m.groupName}</option>)}
+            </select>
+          ) : (
+            <h3 className="text-lg font-bold text-gray-800">{membership.groupName}</h3>
+          )}
+          {board && (
+            <p className="text-sm text-gray-500">
+              {getPlanDefinition(board.group.plan).name} · {board.group.plan.startDate} 시작 · {board.members.length}명
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {board && (
+            <button onClick={() => handleCopyCode(board.group.joinCode)} className="px-3 py-1.5 rounded-md bg-gray-100 hover:bg-gray-200 text-sm" title="참여 코드 복사">
+              참여 코드 <span className="font-mono font-bold tracking-widest">{board.group.joinCode}</span>{isCopied && ' ✓'}
+            </button>
+          )}
+          <button onClick={() => refreshBoard(membership)} disabled={isLoading} className="px-3 py-1.5 rounded-md text-cyan-700 hover:bg-cyan-50 font-semibold text-sm disabled:opacity-50">새로고침</button>
+          <button onClick={() => setIsAdding(true)} className="px-3 py-1.5 rounded-md text-cyan-700 hover:bg-cyan-50 font-semibold text-sm">그룹 추가</button>
+          <button onClick={handleLeave} className="px-3 py-1.5 rounded-md text-red-600 hover:bg-red-50 font-semibold text-sm">나가기</button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {isLoading && !board && <p className="text-sm text-gray-500">불러오는 중...</p>}
+
+      {board && (
+        <>
+          <ol className="space-y-2">
+            {leaderboard.map(entry => {
+              const isMe = entry.member.memberId === membership.memberId;
+              const isExpanded = expandedMemberId === entry.member.memberId;
+              return (
+                <li key={entry.member.memberId} className={`rounded-lg border ${isMe ? 'border-cyan-300 bg-cyan-50' : 'border-gray-200 bg-white'}`}>
+                  <button
+                    onClick={() => setExpandedMemberId(isExpanded ? null : entry.member.memberId)}
+                    className="w-full flex items-center gap-3 p-3 text-left"
+                    aria-expanded={isExpanded}
+                  >
+                    <span className="w-8 text-center text-lg font-bold text-cyan-800">{entry.rank}</span>
+                    <span className="w-32 truncate font-semibold text-gray-800">{entry.member.displayName}{isMe && ' (나)'}</span>
+                    <div className="flex-1 bg-gray-200 rounded-full h-3">
+                      <div className="bg-cyan-500 h-3 rounded-full" style={{ width: `${entry.percentage}%` }}></div>
+                    </div>
+                    <span className="w-28 text-right text-sm font-mono text-gray-600">{entry.read} / {entry.total} ({entry.percentage}%)</span>
+                    <span className={`w-20 text-right text-xs font-semibold ${entry.daysAhead < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                      {entry.daysAhead > 0 ? `${entry.daysAhead}일 앞섬` : entry.daysAhead < 0 ? `${-entry.daysAhead}일 늦음` : '계획대로'}
+                    </span>
+                  </button>
+                  {isExpanded && (
+                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-x-4 gap-y-1.5 px-4 pb-3">
+                      {entry.bookProgress.map(({ book, progress }) => (
+                        <div key={book} className="flex items-center gap-2 text-xs">
+                          <span className="w-20 truncate text-gray-700">{book}</span>
+                          <div className="flex-1 bg-gray-200 rounded-full h-1.5">
+                            <div className="bg-cyan-500 h-1.5 rounded-full" style={{ width: `${progress.percentage}%` }}></div>
+                          </div>
+                          <span className="w-12 text-right font-mono text-gray-500">{progress.read}/{progress.total}</span>
+                        </div>
+                      ))}
+                      <p className="col-span-full text-xs text-gray-400 mt-1">
+                        마지막 업데이트: {new Date(entry.member.updatedAt).toLocaleString('ko-KR')}
+                      </p>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+          <p className="text-xs text-gray-500">계획 시작일 이후에 읽은 장만 그룹 진행률에 반영됩니다.</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GroupChallengePanel;
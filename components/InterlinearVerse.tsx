@@ -0,0 +1,45 @@
+import React from 'react';
+import { InterlinearWord } from '../types';
+
+// Props that make a Korean word focusable and inspectable; see BibleText.
+export type WordProps = React.HTMLAttributes<HTMLSpanElement> & { ref: React.Ref<HTMLSpanElement> };
+
+interface InterlinearVerseProps {
+  words: InterlinearWord[];
+  languageClass: string;
+  languageDir: 'rtl' | 'ltr';
+  highlightedOriginalWord: string | null; // cleaned of punctuation, from the open tooltip
+  getWordProps: (wordIndex: number, koreanWord: string) => WordProps; // wordIndex counts translated words only
+}
+
+const cleanWord = (word: string) => word.replace(/[.,;:()׃“"”‘’']/g, '');
+
+const InterlinearVerse: React.FC<InterlinearVerseProps> = ({ words, languageClass, languageDir, highlightedOriginalWord, getWordProps }) => (
+  // Units follow the original word order, so Hebrew verses run right to left.
+  <div className="flex flex-wrap gap-x-4 gap-y-3" dir={languageDir}>
+    {words.map((word, index) => {
+      const isHighlighted = !!highlightedOriginalWord && cleanWord(word.originalWord) === highlightedOriginalWord;
+      const translatedIndex = words.slice(0, index).filter(previous => previous.koreanWord).length;
+      return (
+        <div key={index} className={`inline-flex flex-col items-center text-center rounded px-1 transition-colors duration-150 ${isHighlighted ? 'bg-yellow-200' : ''}`}>
+          {word.koreanWord ? (
+            <span
+              dir="ltr"
+              {...getWordProps(translatedIndex, word.koreanWord)}
+              className="text-lg md:text-xl cursor-pointer hover:bg-cyan-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-500 transition-colors duration-200 rounded px-1"
+            >
+              {word.koreanWord}
+            </span>
+          ) : (
+            <span className="text-lg md:text-xl text-gray-300 select-none" aria-hidden="true">·</span>
+          )}
+          <span className={`text-xl md:text-2xl text-gray-800 ${languageClass}`}>{word.originalWord}</span>
+          <span dir="ltr" className="text-xs italic text-gray-500">{word.transliteration}</span>
+          <span dir="ltr" className="text-xs text-cyan-700">{word.gloss}</span>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default InterlinearVerse;
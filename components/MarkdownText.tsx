@@ -0,0 +1,89 @@
+import React from 'react';
+
+interface MarkdownTextProps {
+  markdown: string;
+  className?: string;
+}
+
+// Bold, italic, inline code and http(s) links; everything else is plain text.
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\(https?:\/\/[^)\s]+\))/g;
+
+const renderInline = (text: string): React.ReactNode[] => {
+  return text.split(INLINE_PATTERN).map((part, index) => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+      return <code key={index} className="px-1 rounded bg-gray-100 text-sm">{part.slice(1, -1)}</code>;
+    }
+    const link = part.match(/^\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)$/);
+    if (link) {
+      return <a key={index} href={link[2]} target="_blank" rel="noopener noreferrer" className="text-cyan-700 underline">{link[1]}</a>;
+    }
+    return <React.Fragment key={index}>{part}</React.Fragment>;
+  });
+};
+
+/**
+ * Renders the small markdown subset used in verse notes: headings, bullet and
+ * numbered lists, paragraphs, and inline emphasis, code and links.
+ */
+const MarkdownText: React.FC<MarkdownTextProps> = ({ markdown, className }) => {
+  const blocks: React.ReactNode[] = [];
+  let listItems: string[] = [];
+  let listOrdered = false;
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    blocks.push(
+      <p key={blocks.length}>
+        {paragraph.map((line, index) => (
+          <React.Fragment key={index}>{index > 0 && <br />}{renderInline(line)}</React.Fragment>
+        ))}
+      </p>
+    );
+    paragraph = [];
+  };
+
+  const flushList = () => {
+    if (listItems.length === 0) return;
+    const items = listItems.map((item, index) => <li key={index}>{renderInline(item)}</li>);
+    blocks.push(listOrdered
+      ? <ol key={blocks.length} className="list-decimal pl-5">{items}</ol>
+      : <ul key={blocks.length} className="list-disc pl-5">{items}</ul>);
+    listItems = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+\.\s+(.*)$/);
+
+    if (heading) {
+      flushParagraph();
+      flushList();
+      blocks.push(<p key={blocks.length} className="font-bold">{renderInline(heading[2])}</p>);
+    } else if (bullet || numbered) {
+      flushParagraph();
+      if (listItems.length > 0 && listOrdered !== !!numbered) flushList();
+      listOrdered = !!numbered;
+      listItems.push((bullet || numbered)![1]);
+    } else if (line.trim() === '') {
+      flushParagraph();
+      flushList();
+    } else {
+      flushList();
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  flushList();
+
+  return <div className={`space-y-2 ${className || ''}`}>{blocks}</div>;
+};
+
+export default MarkdownText;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS, Annotations, PassageRange, VerseRef } from '../types';
+import { HIGHLIGHT_COLORS, parseVerseKey } from '../utils/annotationUtils';
+import { formatPassageRef, wholeChapterRange } from '../utils/referenceUtils';
+import MarkdownText from './MarkdownText';
+
+interface NotesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  annotations: Annotations;
+  onNavigate: (range: PassageRange, focusVerse: VerseRef) => void;
+  onNoteDelete: (id: string) => void;
+}
+
+const ALL_BOOKS = [...OLD_TESTAMENT_BOOKS, ...NEW_TESTAMENT_BOOKS];
+
+const comparePosition = (a: VerseRef, b: VerseRef) =>
+  (Number(a.chapter) - Number(b.chapter)) || (Number(a.verse) - Number(b.verse));
+
+const NotesPanel: React.FC<NotesPanelProps> = ({ isOpen, onClose, annotations, onNavigate, onNoteDelete }) => {
+  if (!isOpen) return null;
+
+  const notes = Object.values(annotations.notes);
+  const highlights = Object.entries(annotations.highlights)
+    .map(([key, color]) => ({ ref: parseVerseKey(key), color }))
+    .filter((highlight): highlight is { ref: VerseRef; color: typeof highlight.color } => highlight.ref !== null);
+
+  const books = ALL_BOOKS.filter(book =>
+    notes.some(note => note.range.start.book === book) || highlights.some(highlight => highlight.ref.book === book));
+
+  const goToVerse = (ref: VerseRef) => {
+    onNavigate(wholeChapterRange(ref.book, ref.chapter), ref);
+    onClose();
+  };
+
+  const goToNote = (range: PassageRange) => {
+    onNavigate(range, range.start);
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-3xl h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-2xl font-bold text-cyan-800">나의 노트</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">&times;</button>
+        </header>
+
+        <main className="flex-grow overflow-y-auto p-4 space-y-6">
+          {books.length === 0 && (
+            <p className="text-center text-gray-500 mt-12">아직 메모나 형광펜이 없습니다. 본문의 절 옆 연필 아이콘을 눌러 추가하세요.</p>
+          )}
+          {books.map(book => {
+            const bookNotes = notes
+              .filter(note => note.range.start.book === book)
+              .sort((a, b) => comparePosition(a.range.start, b.range.start));
+            const bookHighlights = highlights
+              .filter(highlight => highlight.ref.book === book)
+              .sort((a, b) => comparePosition(a.ref, b.ref));
+
+            return (
+              <section key={book}>
+                <h3 className="text-lg font-bold text-gray-800 mb-2">{book}</h3>
+                {bookHighlights.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {bookHighlights.map(({ ref, color }) => (
+                      <button
+                        key={`${ref.chapter}:${ref.verse}`}
+                        onClick={() => goToVerse(ref)}
+                        className={`px-2 py-0.5 rounded text-sm font-mono text-gray-800 hover:ring-2 hover:ring-cyan-300 ${HIGHLIGHT_COLORS.find(option => option.color === color)?.className || ''}`}
+                      >
+                        {ref.chapter}:{ref.verse}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <ul className="space-y-2">
+                  {bookNotes.map(note => (
+                    <li key={note.id} className="p-3 rounded-md bg-amber-50 border border-amber-200">
+                      <div className="flex justify-between items-center mb-1">
+                        <button onClick={() => goToNote(note.range)} className="text-sm font-semibold text-cyan-700 hover:underline">
+                          {formatPassageRef(note.range)}
+                        </button>
+                        <div className="flex items-center gap-3 text-xs text-gray-500">
+                          <span>{new Date(note.updatedAt).toLocaleDateString('ko-KR')}</span>
+                          <button onClick={() => onNoteDelete(note.id)} className="text-red-500 hover:text-red-700">삭제</button>
+                        </div>
+                      </div>
+                      <MarkdownText markdown={note.markdown} className="text-gray-700" />
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            );
+          })}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default NotesPanel;
@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BibleBookStructure } from '../types';
+import { downloadForOffline, estimateDownloadBytes, getStorageEstimate, OfflineDownloadProgress } from '../services/offlineService';
+import { formatBytes } from './CacheControls';
+
+interface OfflineDownloadPanelProps {
+  book: string;
+  testament: '구약성경' | '신약성경';
+  bookStructure: BibleBookStructure;
+  onClose: () => void;
+  onDownloaded: () => void;
+}
+
+const OfflineDownloadPanel: React.FC<OfflineDownloadPanelProps> = ({ book, testament, bookStructure, onClose, onDownloaded }) => {
+  const chapters = Object.keys(bookStructure);
+  const [fromChapter, setFromChapter] = useState(chapters[0]);
+  const [toChapter, setToChapter] = useState(chapters[chapters.length - 1]);
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [includeDefinitions, setIncludeDefinitions] = useState(false);
+  const [progress, setProgress] = useState<OfflineDownloadProgress | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    getStorageEstimate().then(setStorage).catch(() => setStorage(null));
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const request = { book, fromChapter, toChapter, testament, includeAudio, includeDefinitions };
+  const estimatedBytes = estimateDownloadBytes(request);
+  const isRangeValid = chapters.indexOf(fromChapter) <= chapters.indexOf(toChapter);
+
+  const handleDownload = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsDownloading(true);
+    try {
+      await downloadForOffline(request, setProgress, controller.signal);
+    } finally {
+      setIsDownloading(false);
+      abortControllerRef.current = null;
+      onDownloaded();
+      getStorageEstimate().then(setStorage).catch(() => setStorage(null));
+    }
+  };
+
+  const percentage = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <div className="w-full max-w-sm p-6 bg-white rounded-lg shadow-2xl border border-gray-200 space-y-4 text-sm">
+      <div className="flex justify-between items-center">
+        <p className="font-bold text-lg text-cyan-800">{book} 오프라인 저장</p>
+        <button onClick={onClose} disabled={isDownloading} className="text-gray-500 hover:text-gray-800 disabled:opacity-50 text-xl" aria-label="닫기">&times;</button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select value={fromChapter} onChange={e => setFromChapter(e.target.value)} disabled={isDownloading} className="border border-gray-300 rounded px-2 py-1">
+          {chapters.map(ch => <option key={ch} value={ch}>{ch}장</option>)}
+        </select>
+        <span>부터</span>
+        <select value={toChapter} onChange={e => setToChapter(e.target.value)} disabled={isDownloading} className="border border-gray-300 rounded px-2 py-1">
+          {chapters.map(ch => <option key={ch} value={ch}>{ch}장</option>)}
+        </select>
+        <span>까지</span>
+      </div>
+
+      <div className="space-y-1">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={includeAudio} onChange={e => setIncludeAudio(e.target.checked)} disabled={isDownloading} />
+          절별 음성 포함
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={includeDefinitions} onChange={e => setIncludeDefinitions(e.target.checked)} disabled={isDownloading} />
+          단어 뜻 포함 (요청 수가 많아 시간이 오래 걸립니다)
+        </label>
+      </div>
+
+      <div className="text-gray-600">
+        <p>예상 용량: 약 {formatBytes(estimatedBytes)}</p>
+        {storage && <p>사용 중인 저장 공간: {formatBytes(storage.usage)} / {formatBytes(storage.quota)}</p>}
+      </div>
+
+      {progress && (
+        <div>
+          <div className="w-full bg-gray-200 rounded-full h-2.5">
+            <div className="bg-cyan-500 h-2.5 rounded-full transition-all" style={{ width: `${percentage}%` }}></div>
+          </div>
+          <p className="mt-1 text-gray-600">
+            {isDownloading && progress.currentChapter ? `${progress.currentChapter}장 저장 중... ` : ''}{percentage}%
+          </p>
+          {!isDownloading && progress.failedChapters.length > 0 && (
+            <p className="text-red-500">실패한 장: {progress.failedChapters.join(', ')}</p>
+          )}
+        </div>
+      )}
+
+      {isDownloading ? (
+        <button
+          onClick={() => abortControllerRef.current?.abort()}
+          className="w-full bg-gray-200 text-gray-800 font-bold py-2 px-4 rounded-md hover:bg-gray-300 transition-colors"
+        >
+          취소
+        </button>
+      ) : (
+        <button
+          onClick={handleDownload}
+          disabled={!isRangeValid}
+          className="w-full bg-cyan-600 text-white font-bold py-2 px-4 rounded-md hover:bg-cyan-700 disabled:opacity-50 transition-colors shadow-md"
+        >
+          오프라인용으로 저장
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default OfflineDownloadPanel;
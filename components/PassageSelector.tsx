@@ -1,8 +1,12 @@
 import React, { useState } from 'react';
-import { OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS, BibleBookStructure } from '../types';
+import { OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS, BibleBookStructure, OfflineLibrary, PassageRange } from '../types';
+import { isChapterAvailableOffline } from '../services/offlineService';
+import { wholeChapterRange } from '../utils/referenceUtils';
+import OfflineDownloadPanel from './OfflineDownloadPanel';
+import VerseRangeSelector from './VerseRangeSelector';
 
 interface PassageSelectorProps {
-  onPassageSelect: (book: string, chapter: string) => void;
+  onPassageSelect: (range: PassageRange) => void;
   selectedTestament: '구약성경' | '신약성경';
   onTestamentChange: (testament: '구약성경' | '신약성경') => void;
   selectedBook: string;
@@ -12,6 +16,9 @@ interface PassageSelectorProps {
   onApiKeySubmit: (apiKey: string) => void;
   apiKeyNeeded: boolean;
   apiError: string | null;
+  isOnline: boolean;
+  offlineLibrary: OfflineLibrary;
+  onOfflineLibraryChange: () => void;
 }
 
 const ApiKeyForm: React.FC<{ onApiKeySubmit: (key: string) => void; apiError: string | null }> = ({ onApiKeySubmit, apiError }) => {
@@ -63,7 +70,11 @@ const PassageSelector: React.FC<PassageSelectorProps> = ({
     onApiKeySubmit,
     apiKeyNeeded,
     apiError,
+    isOnline,
+    offlineLibrary,
+    onOfflineLibraryChange,
 }) => {
+  const [isOfflinePanelOpen, setIsOfflinePanelOpen] = useState(false);
   const chapters = bookStructure ? Object.keys(bookStructure) : [];
   const booksToShow = selectedTestament === '구약성경' ? OLD_TESTAMENT_BOOKS : NEW_TESTAMENT_BOOKS;
 
@@ -110,36 +121,68 @@ const PassageSelector: React.FC<PassageSelectorProps> = ({
 
       {/* Right Panel: Chapter Selection */}
       <div className="w-full md:w-2/3 flex flex-col">
-        <h3 className="flex-shrink-0 text-xl font-bold mb-4 text-gray-700 text-center pb-2 border-b border-gray-200">{selectedBook}</h3>
+        <div className="flex-shrink-0 relative mb-4 pb-2 border-b border-gray-200">
+          <h3 className="text-xl font-bold text-gray-700 text-center">{selectedBook}</h3>
+          {bookStructure && isOnline && (
+            <button
+              onClick={() => setIsOfflinePanelOpen(true)}
+              className="absolute right-0 top-0 text-sm text-cyan-700 hover:text-cyan-900 underline"
+            >
+              오프라인 저장
+            </button>
+          )}
+        </div>
         <div className="flex-grow overflow-y-auto flex justify-center items-center relative">
             {chapters.length > 0 ? (
                 <div className="grid grid-cols-5 sm:grid-cols-8 md:grid-cols-10 gap-1 pr-2 w-full">
-                    {chapters.map((chapter) => (
-                        <button
-                            key={chapter}
-                            onClick={() => onPassageSelect(selectedBook, chapter)}
-                            className={`
-                                py-1 px-2 text-sm rounded border transition-all duration-200 text-center font-semibold aspect-square
-                                ${selectedChapter === chapter 
-                                    ? 'bg-cyan-500 text-white border-cyan-500 shadow-inner' 
-                                    : 'bg-white hover:bg-gray-100 border-gray-300 hover:border-gray-400'
-                                }
-                            `}
-                        >
-                            {chapter}
-                        </button>
-                    ))}
+                    {chapters.map((chapter) => {
+                        const isAvailableOffline = isChapterAvailableOffline(offlineLibrary, selectedBook, chapter);
+                        return (
+                            <button
+                                key={chapter}
+                                onClick={() => onPassageSelect(wholeChapterRange(selectedBook, chapter))}
+                                title={isAvailableOffline ? '오프라인 저장됨' : !isOnline ? '오프라인용으로 저장되지 않은 장입니다' : undefined}
+                                className={`
+                                    relative py-1 px-2 text-sm rounded border transition-all duration-200 text-center font-semibold aspect-square
+                                    ${selectedChapter === chapter 
+                                        ? 'bg-cyan-500 text-white border-cyan-500 shadow-inner' 
+                                        : 'bg-white hover:bg-gray-100 border-gray-300 hover:border-gray-400'
+                                    }
+                                    ${!isOnline && !isAvailableOffline ? 'opacity-40 line-through' : ''}
+                                `}
+                            >
+                                {chapter}
+                                {isAvailableOffline && <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-emerald-500"></span>}
+                            </button>
+                        );
+                    })}
                 </div>
             ) : (
                 !showApiKeyForm && <p className="text-gray-500">성경을 선택하세요.</p>
             )}
 
+            {isOfflinePanelOpen && bookStructure && !showApiKeyForm && (
+                <div className="absolute inset-0 bg-white/80 backdrop-blur-sm flex items-center justify-center rounded-b-lg md:rounded-r-lg">
+                    <OfflineDownloadPanel
+                        key={selectedBook}
+                        book={selectedBook}
+                        testament={selectedTestament}
+                        bookStructure={bookStructure}
+                        onClose={() => setIsOfflinePanelOpen(false)}
+                        onDownloaded={onOfflineLibraryChange}
+                    />
+                </div>
+            )}
+
             {showApiKeyForm && (
                 <div className="absolute inset-0 bg-white/80 backdrop-blur-sm flex items-center justify-center rounded-b-lg md:rounded-r-lg">
                     <ApiKeyForm onApiKeySubmit={onApiKeySubmit} apiError={apiError} />
                 </div>
             )}
         </div>
+        {bookStructure && !showApiKeyForm && (
+            <VerseRangeSelector key={selectedBook} book={selectedBook} bookStructure={bookStructure} onSelect={onPassageSelect} />
+        )}
       </div>
     </div>
   );
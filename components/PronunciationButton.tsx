@@ -0,0 +1,62 @@
+import React, { useRef, useState } from 'react';
+import Spinner from './Spinner';
+import { getWordPronunciation } from '../services/geminiService';
+import { decode, decodeAudioData } from '../utils/audioUtils';
+
+interface PronunciationButtonProps {
+  originalWord: string;
+  className?: string;
+}
+
+const SpeakerIcon: React.FC<{isLoading: boolean}> = ({isLoading}) => {
+    if (isLoading) {
+        return <Spinner />;
+    }
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+      <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5.983 5.983 0 0115 10a5.984 5.984 0 01-1.757 4.243 1 1 0 01-1.415-1.415A3.984 3.984 0 0013 10a3.983 3.983 0 00-1.172-2.828 1 1 0 010-1.415z" clipRule="evenodd" />
+    </svg>
+  );
+};
+
+// Plays the model's pronunciation of an original word, from the cache when it has been heard before.
+const PronunciationButton: React.FC<PronunciationButtonProps> = ({ originalWord, className = '' }) => {
+  const [isAudioLoading, setIsAudioLoading] = useState(false);
+  const audioContextRef = useRef<AudioContext | null>(null);
+
+  const handlePlayPronunciation = async () => {
+    if (!originalWord || isAudioLoading) return;
+
+    setIsAudioLoading(true);
+    try {
+      if (!audioContextRef.current) {
+        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      }
+      const audioContext = audioContextRef.current;
+      const base64Audio = await getWordPronunciation(originalWord);
+      const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
+
+      const source = audioContext.createBufferSource();
+      source.buffer = audioBuffer;
+      source.connect(audioContext.destination);
+      source.start();
+    } catch (err) {
+      console.error("Failed to play pronunciation:", err);
+    } finally {
+      setIsAudioLoading(false);
+    }
+  };
+
+  return (
+    <button
+        onClick={handlePlayPronunciation}
+        disabled={isAudioLoading}
+        className={`text-gray-500 hover:text-cyan-600 disabled:opacity-50 ${className}`}
+        aria-label="Play pronunciation"
+    >
+        <SpeakerIcon isLoading={isAudioLoading} />
+    </button>
+  );
+};
+
+export default PronunciationButton;
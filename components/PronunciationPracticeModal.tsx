@@ -0,0 +1,386 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { VerseAnalysisItem } from '../types';
+import { getVerseAnalysis, getVersePronunciation } from '../services/geminiService';
+import { getApiErrorMessage, isAbortError } from '../services/apiErrors';
+import { computePeaks, decode, decodeAudioData, detectVoicedRange, mapTime } from '../utils/audioUtils';
+import Spinner from './Spinner';
+import Waveform, { WaveformSegment } from './Waveform';
+
+export interface PracticeVerse {
+  book: string;
+  chapter: string;
+  verse: string;
+  koreanText: string;
+  originalText: string;
+  testament: '구약성경' | '신약성경';
+}
+
+interface PronunciationPracticeModalProps {
+  target: PracticeVerse | null;
+  onClose: () => void;
+}
+
+type Track = 'model' | 'user';
+
+interface TrackAudio {
+  buffer: AudioBuffer;
+  peaks: number[];
+  voiced: [number, number]; // seconds between the first and last sound
+}
+
+interface PlaybackPart {
+  track: Track;
+  start: number;
+  end: number;
+}
+
+const PEAK_COUNT = 400;
+const MAX_RECORDING_MS = 60 * 1000;
+const REPEAT_GAP_MS = 400;
+
+const TRACK_LABELS: Record<Track, string> = { model: '모범 발음', user: '내 녹음' };
+
+function toTrackAudio(buffer: AudioBuffer): TrackAudio {
+  const samples = buffer.getChannelData(0);
+  return { buffer, peaks: computePeaks(samples, PEAK_COUNT), voiced: detectVoicedRange(samples, buffer.sampleRate) };
+}
+
+/**
+ * Records the user reading a verse and compares it with the model reading, word by word.
+ * The recording is split into words by stretching the model's word timings over the part
+ * of the recording that has sound in it.
+ */
+const PronunciationPracticeModal: React.FC<PronunciationPracticeModalProps> = ({ target, onClose }) => {
+  const [model, setModel] = useState<TrackAudio | null>(null);
+  const [analysis, setAnalysis] = useState<VerseAnalysisItem[]>([]);
+  const [recording, setRecording] = useState<TrackAudio | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<[number, number] | null>(null);
+  const [isRepeating, setIsRepeating] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playhead, setPlayhead] = useState<{ track: Track; time: number } | null>(null);
+
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const playbackRef = useRef<object | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const targetRef = useRef(target);
+
+  const getAudioContext = useCallback(() => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    }
+    return audioContextRef.current;
+  }, []);
+
+  const stopPlayback = useCallback(() => {
+    playbackRef.current = null;
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      try { sourceRef.current.stop(); } catch (e) { /* already stopped */ }
+      sourceRef.current.disconnect();
+      sourceRef.current = null;
+    }
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+    setPlayhead(null);
+    setIsPlaying(false);
+    setIsRepeating(false);
+  }, []);
+
+  // A discarded recording is stopped without being kept, e.g. when the modal closes.
+  const stopRecording = useCallback((discard = false) => {
+    const recorder = recorderRef.current;
+    if (discard) recorderRef.current = null;
+    if (recorder?.state === 'recording') {
+      recorder.stop();
+    }
+  }, []);
+
+  useEffect(() => {
+    targetRef.current = target;
+    setModel(null);
+    setAnalysis([]);
+    setRecording(null);
+    setSelection(null);
+    setError(null);
+    if (!target) return;
+
+    const controller = new AbortController();
+    const language = target.testament === '구약성경' ? '히브리어' : '헬라어';
+    setIsLoading(true);
+    (async () => {
+      try {
+        const audioContext = getAudioContext();
+        const base64Audio = await getVersePronunciation(target.originalText, { signal: controller.signal });
+        const buffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
+        setModel(toTrackAudio(buffer));
+        const items = await getVerseAnalysis(target.koreanText, target.originalText, language, buffer.duration, { signal: controller.signal });
+        setAnalysis([...items].sort((a, b) => a.startTime - b.startTime));
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('Failed to load pronunciation practice:', err);
+        setError(getApiErrorMessage(err) || '모범 발음을 불러오지 못했습니다.');
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    })();
+    return () => {
+      controller.abort();
+      stopPlayback();
+      stopRecording(true);
+    };
+  }, [target, getAudioContext, stopPlayback, stopRecording]);
+
+  useEffect(() => () => {
+    audioContextRef.current?.close();
+  }, []);
+
+  if (!target) return null;
+
+  const modelSegments: WaveformSegment[] = analysis.map(item => ({
+    label: item.originalWord,
+    start: item.startTime / 1000,
+    end: item.endTime / 1000,
+  }));
+  const userSegments: WaveformSegment[] = model && recording
+    ? modelSegments.map(segment => ({
+        label: segment.label,
+        start: mapTime(segment.start, model.voiced, recording.voiced),
+        end: mapTime(segment.end, model.voiced, recording.voiced),
+      }))
+    : [];
+
+  // The selected words on a track, or the whole reading when nothing is selected.
+  const getPart = (track: Track): PlaybackPart | null => {
+    const audio = track === 'model' ? model : recording;
+    if (!audio) return null;
+    const segments = track === 'model' ? modelSegments : userSegments;
+    if (selection && segments.length > 0) {
+      return { track, start: segments[selection[0]].start, end: segments[selection[1]].end };
+    }
+    return { track, start: 0, end: audio.buffer.duration };
+  };
+
+  const playParts = (parts: PlaybackPart[], repeat: boolean) => {
+    stopPlayback();
+    if (parts.length === 0) return;
+    const audioContext = getAudioContext();
+    const token = {};
+    playbackRef.current = token;
+    setIsPlaying(true);
+    setIsRepeating(repeat);
+    let index = 0;
+
+    const playNext = () => {
+      if (playbackRef.current !== token) return;
+      if (index >= parts.length) {
+        if (!repeat) {
+          stopPlayback();
+          return;
+        }
+        index = 0;
+      }
+      const part = parts[index++];
+      const audio = part.track === 'model' ? model : recording;
+      if (!audio) return;
+
+      const source = audioContext.createBufferSource();
+      source.buffer = audio.buffer;
+      source.connect(audioContext.destination);
+      source.onended = () => {
+        if (sourceRef.current !== source) return;
+        if (repeat || index < parts.length) {
+          window.setTimeout(playNext, REPEAT_GAP_MS);
+        } else {
+          playNext();
+        }
+      };
+      sourceRef.current = source;
+      const startedAt = audioContext.currentTime;
+      source.start(0, part.start, Math.max(0.01, part.end - part.start));
+
+      const onPlaybackUpdate = () => {
+        if (sourceRef.current !== source) return;
+        setPlayhead({ track: part.track, time: Math.min(part.end, part.start + audioContext.currentTime - startedAt) });
+        animationFrameRef.current = requestAnimationFrame(onPlaybackUpdate);
+      };
+      animationFrameRef.current = requestAnimationFrame(onPlaybackUpdate);
+    };
+
+    if (audioContext.state === 'suspended') {
+      audioContext.resume().then(playNext);
+    } else {
+      playNext();
+    }
+  };
+
+  const comparisonParts = () => [getPart('model'), getPart('user')].filter((part): part is PlaybackPart => part !== null);
+
+  const handleRecord = async () => {
+    if (isRecording) {
+      stopRecording();
+      return;
+    }
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      setError('이 브라우저에서는 녹음을 할 수 없습니다.');
+      return;
+    }
+    stopPlayback();
+    setError(null);
+
+    const recordingTarget = target;
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      if (targetRef.current !== recordingTarget) return;
+      console.error('Microphone access failed:', err);
+      setError('마이크를 사용할 수 없습니다. 브라우저에서 마이크 권한을 허용해주세요.');
+      return;
+    }
+    // The permission prompt can outlast the verse: closed or moved on, the microphone is released unused.
+    if (targetRef.current !== recordingTarget) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const timeout = window.setTimeout(() => recorder.state === 'recording' && recorder.stop(), MAX_RECORDING_MS);
+    recorder.ondataavailable = event => chunks.push(event.data);
+    recorder.onstop = async () => {
+      window.clearTimeout(timeout);
+      stream.getTracks().forEach(track => track.stop());
+      setIsRecording(false);
+      if (recorderRef.current !== recorder) return;
+      recorderRef.current = null;
+      try {
+        const data = await new Blob(chunks, { type: recorder.mimeType }).arrayBuffer();
+        setRecording(toTrackAudio(await getAudioContext().decodeAudioData(data)));
+      } catch (err) {
+        console.error('Failed to decode recording:', err);
+        setError('녹음을 처리하지 못했습니다. 다시 녹음해주세요.');
+      }
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setIsRecording(true);
+  };
+
+  const handleSegmentClick = (index: number, extend: boolean) => {
+    setSelection(prev => {
+      if (extend && prev) return [Math.min(prev[0], index), Math.max(prev[1], index)];
+      if (prev && prev[0] === index && prev[1] === index) return null;
+      return [index, index];
+    });
+  };
+
+  const isHebrew = target.testament === '구약성경';
+  const labelClassName = isHebrew ? 'font-hebrew' : 'font-greek';
+  const selectedWords = selection ? modelSegments.slice(selection[0], selection[1] + 1).map(segment => segment.label).join(' ') : null;
+
+  const renderTrack = (track: Track, audio: TrackAudio, segments: WaveformSegment[]) => (
+    <section className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-gray-700">{TRACK_LABELS[track]}</h3>
+        <button
+          onClick={() => playParts([getPart(track)!], false)}
+          className="text-sm font-semibold text-cyan-700 hover:underline"
+        >
+          {selection ? '선택 구간 듣기' : '듣기'}
+        </button>
+      </div>
+      <Waveform
+        peaks={audio.peaks}
+        duration={audio.buffer.duration}
+        segments={segments}
+        playhead={playhead?.track === track ? playhead.time : null}
+        selection={selection}
+        onSegmentClick={handleSegmentClick}
+        barClassName={track === 'model' ? 'fill-cyan-500' : 'fill-emerald-500'}
+        labelClassName={labelClassName}
+      />
+    </section>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-4xl h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-2xl font-bold text-cyan-800">발음 연습 · {target.book} {target.chapter}:{target.verse}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">&times;</button>
+        </header>
+
+        <main className="flex-grow overflow-y-auto p-4 space-y-6">
+          <div className="space-y-1">
+            <p className={`text-2xl text-gray-800 ${labelClassName}`} dir={isHebrew ? 'rtl' : 'ltr'}>{target.originalText}</p>
+            <p className="text-gray-600">{target.koreanText}</p>
+          </div>
+
+          {isLoading && (
+            <div className="flex items-center gap-2 text-gray-600" role="status">
+              <Spinner />
+              <span>{model ? '단어별 시간을 분석하는 중...' : '모범 발음을 불러오는 중...'}</span>
+            </div>
+          )}
+          {error && <p className="text-red-500" role="alert">{error}</p>}
+
+          {model && (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={handleRecord}
+                  className={`px-4 py-2 rounded-lg font-bold text-white ${isRecording ? 'bg-red-600 hover:bg-red-700 animate-pulse' : 'bg-cyan-600 hover:bg-cyan-700'}`}
+                >
+                  {isRecording ? '녹음 중지' : recording ? '다시 녹음' : '녹음 시작'}
+                </button>
+                <button
+                  onClick={() => isPlaying ? stopPlayback() : playParts(comparisonParts(), false)}
+                  disabled={isRecording}
+                  className="px-4 py-2 rounded-lg font-semibold border border-cyan-600 text-cyan-700 hover:bg-cyan-50 disabled:opacity-50"
+                >
+                  {isPlaying ? '정지' : recording ? '이어서 비교 듣기' : '모범 발음 듣기'}
+                </button>
+                <button
+                  onClick={() => isRepeating ? stopPlayback() : playParts(comparisonParts(), true)}
+                  disabled={isRecording || !selection}
+                  aria-pressed={isRepeating}
+                  className={`px-4 py-2 rounded-lg font-semibold border disabled:opacity-50 ${isRepeating ? 'bg-amber-500 text-white border-amber-500' : 'border-amber-500 text-amber-700 hover:bg-amber-50'}`}
+                  title="선택한 단어를 모범 발음과 내 녹음으로 번갈아 반복합니다"
+                >
+                  구간 반복 (A-B)
+                </button>
+              </div>
+              <p className="text-sm text-gray-500">
+                {selectedWords
+                  ? <>선택한 구간: <span className={labelClassName}>{selectedWords}</span></>
+                  : '파형에서 단어를 눌러 구간을 고르세요. Shift를 누른 채 다른 단어를 누르면 구간이 늘어납니다.'}
+              </p>
+
+              {renderTrack('model', model, modelSegments)}
+              {recording
+                ? renderTrack('user', recording, userSegments)
+                : <p className="text-gray-500 text-center py-6 border border-dashed rounded-md">'녹음 시작'을 누르고 구절을 소리 내어 읽어보세요.</p>}
+            </>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default PronunciationPracticeModal;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { PassageRange, VerseRef } from '../types';
+import { parseReference } from '../utils/referenceParser';
+import { formatPassageRef, getVerseCount } from '../utils/referenceUtils';
+
+interface QuickJumpProps {
+  onJump: (range: PassageRange) => void;
+  disabled: boolean;
+}
+
+// Whether `start` overlaps or directly follows `end`, so the two ranges read as one passage.
+const continues = (end: VerseRef, start: VerseRef) => {
+  if (start.chapter === end.chapter) return Number(start.verse) <= Number(end.verse) + 1;
+  return Number(start.chapter) === Number(end.chapter) + 1 && start.verse === '1'
+    && Number(end.verse) === getVerseCount(end.book, end.chapter);
+};
+
+const QuickJump: React.FC<QuickJumpProps> = ({ onJump, disabled }) => {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // The parts of a reference with gaps ("롬 8:28, 31-39"), opened one at a time.
+  const [parts, setParts] = useState<PassageRange[]>([]);
+  const [openPart, setOpenPart] = useState(0);
+
+  const jumpToPart = (index: number, ranges = parts) => {
+    setOpenPart(index);
+    onJump(ranges[index]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = parseReference(input);
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    // The reader shows one continuous passage; opening the whole span would add the skipped verses.
+    if (result.ranges.some((range, index) => index > 0 && !continues(result.ranges[index - 1].end, range.start))) {
+      setParts(result.ranges);
+      jumpToPart(0, result.ranges);
+      return;
+    }
+    setParts([]);
+    onJump(result.range);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => { setInput(e.target.value); setError(null); setParts([]); }}
+          placeholder="바로 가기: 예) 요 3:16, 창 1:1-5, 고전 13장, 롬 8:28, 31-39"
+          className="flex-grow px-4 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+          aria-label="성경 구절 바로 가기"
+          aria-invalid={!!error}
+          disabled={disabled}
+        />
+        <button
+          type="submit"
+          disabled={disabled || !input.trim()}
+          className="bg-cyan-600 text-white font-bold py-2 px-5 rounded-lg hover:bg-cyan-700 disabled:opacity-50 transition-colors shadow-md"
+        >
+          이동
+        </button>
+      </div>
+      {error && <p className="text-red-500 text-sm mt-2" role="alert">{error}</p>}
+      {parts.length > 0 && (
+        <nav className="flex flex-wrap items-center gap-2 mt-2 text-sm" aria-label="입력한 구절">
+          <span className="text-gray-500">떨어진 구절은 하나씩 엽니다:</span>
+          {parts.map((range, index) => (
+            <button
+              key={formatPassageRef(range)}
+              type="button"
+              onClick={() => jumpToPart(index)}
+              disabled={disabled}
+              aria-current={index === openPart}
+              className={`px-2 py-0.5 rounded-full border ${index === openPart ? 'bg-cyan-600 text-white border-cyan-600' : 'border-cyan-600 text-cyan-700 hover:bg-cyan-50'}`}
+            >
+              {formatPassageRef(range)}
+            </button>
+          ))}
+        </nav>
+      )}
+    </form>
+  );
+};
+
+export default QuickJump;
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { DailyReading, PassageRange, ReadingPlanConfig, ReadingPlanId, ReadingStatus, OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS } from '../types';
+import { READING_PLANS } from '../data/readingPlans';
+import { getPlanDefinition, groupReadingChapters, isReadingComplete } from '../utils/readingPlanUtils';
+import { parseDateKey, toDateKey } from '../utils/dateUtils';
+import { formatPassageRef } from '../utils/referenceUtils';
+import { isChapterRead } from '../utils/trackerUtils';
+
+interface ReadingPlanPanelProps {
+  config: ReadingPlanConfig | null;
+  plan: DailyReading[];
+  readingStatus: ReadingStatus;
+  onConfigChange: (config: ReadingPlanConfig | null) => void;
+  onOpenPassage: (range: PassageRange) => void;
+}
+
+const WEEKDAY_LABELS = ['월', '화', '수', '목', '금', '토', '일'];
+
+const PlanSetup: React.FC<{ initial: ReadingPlanConfig | null; onSave: (config: ReadingPlanConfig) => void; onCancel?: () => void }> = ({ initial, onSave, onCancel }) => {
+  const [planId, setPlanId] = useState<ReadingPlanId>(initial?.planId || 'mcheyne');
+  const [startDate, setStartDate] = useState(initial?.startDate || toDateKey(new Date()));
+  const [daysPerWeek, setDaysPerWeek] = useState(initial?.daysPerWeek || 7);
+  const [books, setBooks] = useState<string[]>(initial?.books || []);
+  const [chaptersPerDay, setChaptersPerDay] = useState(initial?.chaptersPerDay || 3);
+
+  const toggleBook = (book: string) => {
+    setBooks(prev => prev.includes(book) ? prev.filter(b => b !== book) : [...prev, book]);
+  };
+
+  const canSave = planId !== 'custom' || books.length > 0;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave(planId === 'custom'
+      ? { planId, startDate, daysPerWeek, books, chaptersPerDay }
+      : { planId, startDate, daysPerWeek });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid sm:grid-cols-2 gap-2">
+        {READING_PLANS.map(plan => (
+          <label key={plan.id} className={`p-3 rounded-lg border cursor-pointer ${planId === plan.id ? 'border-cyan-500 bg-cyan-50' : 'border-gray-200 hover:bg-gray-50'}`}>
+            <input type="radio" name="reading-plan" value={plan.id} checked={planId === plan.id} onChange={() => setPlanId(plan.id)} className="sr-only" />
+            <span className="block font-bold text-gray-800">{plan.name}</span>
+            <span className="block text-sm text-gray-500">{plan.description}</span>
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-4 items-center">
+        <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+          시작일
+          <input type="date" value={startDate} onChange={e => e.target.value && setStartDate(e.target.value)} className="border rounded px-2 py-1" />
+        </label>
+        <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+          주당 읽는 날
+          <select value={daysPerWeek} onChange={e => setDaysPerWeek(Number(e.target.value))} className="border rounded px-2 py-1">
+            {[7, 6, 5, 4, 3, 2, 1].map(days => <option key={days} value={days}>{days}일</option>)}
+          </select>
+        </label>
+        {planId === 'custom' && (
+          <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+            하루 분량
+            <input type="number" min={1} max={50} value={chaptersPerDay} onChange={e => setChaptersPerDay(Math.max(1, Number(e.target.value) || 1))} className="border rounded px-2 py-1 w-20" />
+            장
+          </label>
+        )}
+      </div>
+      {planId === 'custom' && (
+        <div className="space-y-2">
+          {[OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS].map((testamentBooks, index) => (
+            <div key={index} className="flex flex-wrap gap-1.5">
+              {testamentBooks.map(book => (
+                <button
+                  key={book}
+                  onClick={() => toggleBook(book)}
+                  className={`px-2 py-1 rounded text-sm border ${books.includes(book) ? 'bg-cyan-600 text-white border-cyan-600' : 'bg-white border-gray-300 hover:bg-gray-100'}`}
+                >
+                  {book}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        {onCancel && <button onClick={onCancel} className="px-4 py-2 rounded-lg text-gray-600 hover:bg-gray-100 font-semibold">취소</button>}
+        <button onClick={handleSave} disabled={!canSave} className="px-4 py-2 rounded-lg bg-cyan-600 text-white font-semibold hover:bg-cyan-700 disabled:opacity-50">계획 시작</button>
+      </div>
+    </div>
+  );
+};
+
+const ReadingPlanPanel: React.FC<ReadingPlanPanelProps> = ({ config, plan, readingStatus, onConfigChange, onOpenPassage }) => {
+  const today = toDateKey(new Date());
+  const [isEditing, setIsEditing] = useState(false);
+  const [month, setMonth] = useState(() => {
+    const date = parseDateKey(config && config.startDate > today ? config.startDate : today);
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  });
+  const [selectedDate, setSelectedDate] = useState(today);
+
+  if (!config || isEditing) {
+    return (
+      <PlanSetup
+        initial={config}
+        onSave={newConfig => { onConfigChange(newConfig); setIsEditing(false); }}
+        onCancel={config ? () => setIsEditing(false) : undefined}
+      />
+    );
+  }
+
+  const readingsByDate = new Map(plan.map(reading => [reading.date, reading]));
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const leadingBlanks = (month.getDay() + 6) % 7; // weeks start on Monday
+  const selectedReading = readingsByDate.get(selectedDate) || null;
+
+  const dayClassName = (reading: DailyReading | undefined, dateKey: string) => {
+    if (!reading) return 'text-gray-300';
+    if (isReadingComplete(reading, readingStatus)) return 'bg-cyan-500 text-white';
+    const readCount = reading.chapters.filter(({ book, chapter }) => isChapterRead(readingStatus, book, chapter)).length;
+    if (readCount > 0) return 'bg-cyan-100 text-cyan-900';
+    if (dateKey < today) return 'bg-red-100 text-red-800';
+    return 'bg-white border border-gray-200 text-gray-700';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">{getPlanDefinition(config).name}</h3>
+          <p className="text-sm text-gray-500">{config.startDate} 시작 · 총 {plan.length}일 · 주 {config.daysPerWeek}일</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => setIsEditing(true)} className="px-3 py-1.5 rounded-md text-cyan-700 hover:bg-cyan-50 font-semibold text-sm">계획 변경</button>
+          <button onClick={() => onConfigChange(null)} className="px-3 py-1.5 rounded-md text-red-600 hover:bg-red-50 font-semibold text-sm">계획 중단</button>
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <button onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))} className="px-3 py-1 rounded hover:bg-gray-100" aria-label="이전 달">&lsaquo;</button>
+        <span className="font-semibold text-gray-800">{month.getFullYear()}년 {month.getMonth() + 1}월</span>
+        <button onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))} className="px-3 py-1 rounded hover:bg-gray-100" aria-label="다음 달">&rsaquo;</button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEKDAY_LABELS.map(label => <div key={label} className="text-xs font-semibold text-gray-500 py-1">{label}</div>)}
+        {Array.from({ length: leadingBlanks }, (_, index) => <div key={`blank-${index}`} />)}
+        {Array.from({ length: daysInMonth }, (_, index) => {
+          const dateKey = toDateKey(new Date(month.getFullYear(), month.getMonth(), index + 1));
+          const reading = readingsByDate.get(dateKey);
+          return (
+            <button
+              key={dateKey}
+              onClick={() => setSelectedDate(dateKey)}
+              disabled={!reading}
+              className={`aspect-square rounded-md text-sm font-semibold flex items-center justify-center ${dayClassName(reading, dateKey)} ${dateKey === today ? 'ring-2 ring-amber-400' : ''} ${dateKey === selectedDate ? 'outline outline-2 outline-cyan-700' : ''}`}
+              aria-label={reading ? `${dateKey} ${reading.day}일차` : dateKey}
+            >
+              {index + 1}
+            </button>
+          );
+        })}
+      </div>
+
+      {selectedReading ? (
+        <div className="p-3 rounded-lg bg-gray-50 border">
+          <p className="text-sm text-gray-500 mb-2">{selectedReading.date} · {selectedReading.day}일차</p>
+          <div className="flex flex-wrap gap-2">
+            {groupReadingChapters(selectedReading.chapters).map(range => (
+              <button
+                key={formatPassageRef(range)}
+                onClick={() => onOpenPassage(range)}
+                className="px-3 py-1.5 rounded-md bg-white border border-gray-300 font-semibold text-gray-800 hover:bg-cyan-50 hover:border-cyan-400"
+              >
+                {formatPassageRef(range)}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">읽는 날을 선택하면 그날의 본문이 표시됩니다.</p>
+      )}
+    </div>
+  );
+};
+
+export default ReadingPlanPanel;
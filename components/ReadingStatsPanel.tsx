@@ -0,0 +1,113 @@
+import React from 'react';
+import { ReadingLogEntry } from '../types';
+import { getReadingStats } from '../utils/readingStatsUtils';
+import { addDays, parseDateKey, startOfWeek, toDateKey } from '../utils/dateUtils';
+
+interface ReadingStatsPanelProps {
+  entries: ReadingLogEntry[];
+}
+
+const HEATMAP_WEEKS = 26;
+const WEEKDAY_LABELS = ['월', '', '수', '', '금', '', '일'];
+
+const heatmapClassName = (count: number) => {
+  if (count === 0) return 'bg-gray-100';
+  if (count === 1) return 'bg-cyan-200';
+  if (count <= 3) return 'bg-cyan-400';
+  return 'bg-cyan-600';
+};
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}분`;
+  return `${Math.floor(minutes / 60)}시간 ${minutes % 60}분`;
+};
+
+const StatCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="p-4 rounded-lg bg-gray-50 border text-center">
+    <p className="text-2xl font-bold text-cyan-800">{value}</p>
+    <p className="text-sm text-gray-500">{label}</p>
+  </div>
+);
+
+const ReadingStatsPanel: React.FC<ReadingStatsPanelProps> = ({ entries }) => {
+  const today = toDateKey(new Date());
+  const stats = getReadingStats(entries, today);
+  const maxWeekly = Math.max(1, ...stats.weeklyCounts.map(week => week.count));
+  const heatmapStart = addDays(startOfWeek(today), -7 * (HEATMAP_WEEKS - 1));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <StatCard label="연속 읽은 날" value={`${stats.currentStreak}일`} />
+        <StatCard label="최장 연속" value={`${stats.longestStreak}일`} />
+        <StatCard label="읽은 장" value={`${stats.totalChapters}장`} />
+        <StatCard label="읽은 시간" value={formatDuration(stats.totalTimeMs)} />
+      </div>
+
+      <section>
+        <h3 className="font-bold text-gray-800 mb-2">구약·신약 진행률</h3>
+        <div className="space-y-2">
+          {(['구약성경', '신약성경'] as const).map(testament => {
+            const { read, total } = stats.testaments[testament];
+            const percentage = total > 0 ? Math.round((read / total) * 100) : 0;
+            return (
+              <div key={testament} className="flex items-center gap-3">
+                <span className="w-16 text-sm font-semibold text-gray-700">{testament === '구약성경' ? '구약' : '신약'}</span>
+                <div className="flex-1 bg-gray-200 rounded-full h-3">
+                  <div className="bg-cyan-500 h-3 rounded-full" style={{ width: `${percentage}%` }}></div>
+                </div>
+                <span className="w-28 text-right text-sm font-mono text-gray-600">{read} / {total} ({percentage}%)</span>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      <section>
+        <h3 className="font-bold text-gray-800 mb-2">주간 읽은 장 수</h3>
+        <div className="flex items-end gap-1 h-32 border-b border-gray-200">
+          {stats.weeklyCounts.map(week => (
+            <div key={week.weekStart} className="flex-1 flex flex-col items-center justify-end h-full" title={`${week.weekStart} 주: ${week.count}장`}>
+              {week.count > 0 && <span className="text-xs text-gray-500">{week.count}</span>}
+              <div className="w-full bg-cyan-400 rounded-t" style={{ height: `${(week.count / maxWeekly) * 100}%` }}></div>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1 mt-1">
+          {stats.weeklyCounts.map(week => (
+            <span key={week.weekStart} className="flex-1 text-center text-[10px] text-gray-400">
+              {parseDateKey(week.weekStart).getMonth() + 1}/{parseDateKey(week.weekStart).getDate()}
+            </span>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h3 className="font-bold text-gray-800 mb-2">읽기 기록</h3>
+        <div className="flex gap-1 overflow-x-auto">
+          <div className="grid grid-rows-7 gap-1 mr-1">
+            {WEEKDAY_LABELS.map((label, index) => <span key={index} className="h-3 text-[10px] leading-3 text-gray-400">{label}</span>)}
+          </div>
+          {Array.from({ length: HEATMAP_WEEKS }, (_, week) => (
+            <div key={week} className="grid grid-rows-7 gap-1">
+              {Array.from({ length: 7 }, (_, day) => {
+                const dateKey = addDays(heatmapStart, week * 7 + day);
+                const count = stats.dailyCounts[dateKey] || 0;
+                return (
+                  <div
+                    key={dateKey}
+                    className={`w-3 h-3 rounded-sm ${dateKey > today ? 'bg-transparent' : heatmapClassName(count)}`}
+                    title={`${dateKey}: ${count}장`}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default ReadingStatsPanel;
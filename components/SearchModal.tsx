@@ -0,0 +1,158 @@
+import React, { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { SearchFilters, SearchResult, VerseRef, OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS } from '../types';
+import { buildSearchIndex, search, SearchIndex } from '../services/searchService';
+import Spinner from './Spinner';
+
+interface SearchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenVerse: (ref: VerseRef) => void;
+}
+
+const Snippet: React.FC<{ result: SearchResult }> = ({ result }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  result.highlights.forEach(([start, end], index) => {
+    parts.push(result.snippet.slice(position, start));
+    parts.push(<mark key={index} className="bg-yellow-200 rounded px-0.5">{result.snippet.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(result.snippet.slice(position));
+
+  if (result.field === 'korean') {
+    return <p className="text-gray-700">{parts}</p>;
+  }
+  const isHebrew = result.testament === '구약성경';
+  return <p className={`text-lg text-gray-800 ${isHebrew ? 'font-hebrew' : 'font-greek'}`} dir={isHebrew ? 'rtl' : 'ltr'}>{parts}</p>;
+};
+
+const SearchModal: React.FC<SearchModalProps> = ({ isOpen, onClose, onOpenVerse }) => {
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({ testament: null, book: null });
+  const deferredQuery = useDeferredValue(query);
+
+  // Rebuilt on every open, since chapters read or downloaded in between should be searchable.
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setError(null);
+    buildSearchIndex((done, total) => !cancelled && setProgress({ done, total }))
+      .then(built => { if (!cancelled) setIndex(built); })
+      .catch(err => {
+        console.error('Failed to build search index:', err);
+        if (!cancelled) setError('검색 색인을 만들지 못했습니다.');
+      })
+      .finally(() => { if (!cancelled) setProgress(null); });
+    return () => { cancelled = true; };
+  }, [isOpen]);
+
+  const response = useMemo(
+    () => index && deferredQuery.trim() ? search(index, deferredQuery, filters) : null,
+    [index, deferredQuery, filters]);
+
+  if (!isOpen) return null;
+
+  const books = filters.testament === '구약성경' ? OLD_TESTAMENT_BOOKS
+    : filters.testament === '신약성경' ? NEW_TESTAMENT_BOOKS
+      : [...OLD_TESTAMENT_BOOKS, ...NEW_TESTAMENT_BOOKS];
+  const bookCounts = new Map(response?.bookCounts.map(({ book, count }) => [book, count]));
+
+  const openResult = (result: SearchResult) => {
+    onOpenVerse({ book: result.book, chapter: result.chapter, verse: result.verse });
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-3xl h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-2xl font-bold text-cyan-800">본문 검색</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">&times;</button>
+        </header>
+
+        <div className="p-4 border-b space-y-3">
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="한국어, 히브리어 또는 헬라어 단어 (예: 사랑, 빛을, λογος)"
+            className="w-full border border-gray-300 rounded-lg px-4 py-2 text-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            autoFocus
+          />
+          <div className="flex flex-wrap gap-2 items-center">
+            {([null, '구약성경', '신약성경'] as const).map(testament => (
+              <button
+                key={testament ?? 'all'}
+                onClick={() => setFilters({ testament, book: null })}
+                className={`px-3 py-1 rounded-md text-sm font-semibold ${filters.testament === testament ? 'bg-cyan-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+              >
+                {testament === null ? '전체' : testament === '구약성경' ? '구약' : '신약'}
+              </button>
+            ))}
+            <select
+              value={filters.book ?? ''}
+              onChange={e => setFilters(prev => ({ ...prev, book: e.target.value || null }))}
+              className="border rounded px-2 py-1 text-sm"
+              aria-label="책 선택"
+            >
+              <option value="">모든 책</option>
+              {books.map(book => (
+                <option key={book} value={book}>{book}{bookCounts.has(book) ? ` (${bookCounts.get(book)})` : ''}</option>
+              ))}
+            </select>
+          </div>
+          {index && (
+            <p className="text-xs text-gray-500">
+              {index.isFullText
+                ? '성경 전체를 검색합니다.'
+                : `읽었거나 저장한 본문에서 검색합니다: 한국어 ${index.koreanChapters}장, 원어 ${index.originalChapters}장`}
+            </p>
+          )}
+        </div>
+
+        <main className="flex-grow overflow-y-auto p-4">
+          {progress && (
+            <div className="flex items-center justify-center gap-2 mt-12 text-gray-600">
+              <Spinner />
+              <span>검색 색인을 만드는 중... ({progress.done}/{progress.total}권)</span>
+            </div>
+          )}
+          {error && <p className="text-center text-red-500 mt-12">{error}</p>}
+          {response && response.total === 0 && (
+            <p className="text-center text-gray-500 mt-12">'{deferredQuery}'에 대한 검색 결과가 없습니다.</p>
+          )}
+          {response && response.total > 0 && (
+            <>
+              <p className="text-sm text-gray-500 mb-2">
+                {response.total}개 구절{response.total > response.results.length && ` 중 ${response.results.length}개 표시`}
+              </p>
+              <ul className="divide-y">
+                {response.results.map(result => (
+                  <li key={`${result.field}:${result.book}:${result.chapter}:${result.verse}`}>
+                    <button onClick={() => openResult(result)} className="w-full text-left py-2 px-1 hover:bg-cyan-50 rounded">
+                      <span className="font-semibold text-cyan-700">{result.book} {result.chapter}:{result.verse}</span>
+                      <Snippet result={result} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default SearchModal;
@@ -0,0 +1,127 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { SyncConfig, SyncStatus } from '../types';
+import { DEFAULT_SYNC_SERVER_URL } from '../services/syncService';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+  lastSyncedAt: number | null;
+  error: string | null;
+  config: SyncConfig | null;
+  onConfigChange: (config: SyncConfig | null) => void;
+  onSyncNow: () => void;
+}
+
+const STATUS_DISPLAY: Record<SyncStatus, { label: string; dotClassName: string }> = {
+  disabled: { label: '동기화 꺼짐', dotClassName: 'bg-gray-300' },
+  syncing: { label: '동기화 중', dotClassName: 'bg-cyan-400 animate-pulse' },
+  synced: { label: '동기화됨', dotClassName: 'bg-emerald-500' },
+  offline: { label: '연결 안 됨', dotClassName: 'bg-amber-400' },
+  error: { label: '동기화 오류', dotClassName: 'bg-red-500' },
+};
+
+const MIN_SYNC_KEY_LENGTH = 8;
+
+const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ status, lastSyncedAt, error, config, onConfigChange, onSyncNow }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [serverUrl, setServerUrl] = useState(config?.serverUrl || DEFAULT_SYNC_SERVER_URL);
+  const [syncKey, setSyncKey] = useState(config?.syncKey || '');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!serverUrl.trim() || syncKey.length < MIN_SYNC_KEY_LENGTH) return;
+    onConfigChange({ serverUrl: serverUrl.trim(), syncKey });
+  };
+
+  const handleDisconnect = () => {
+    onConfigChange(null);
+    setSyncKey('');
+  };
+
+  const { label, dotClassName } = STATUS_DISPLAY[status];
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 bg-white text-gray-700 border border-gray-300 font-semibold py-2 px-4 rounded-lg hover:bg-gray-50 transition-all duration-300 shadow-md"
+        aria-expanded={isOpen}
+        title={error || undefined}
+      >
+        <span className={`w-2.5 h-2.5 rounded-full ${dotClassName}`} aria-hidden="true"></span>
+        <span role="status">{label}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-xl z-40 text-left p-4 space-y-3">
+          {config ? (
+            <>
+              <div className="text-sm text-gray-600 space-y-1">
+                <p className="break-all"><span className="font-semibold text-gray-800">서버</span> {config.serverUrl}</p>
+                <p>
+                  <span className="font-semibold text-gray-800">마지막 동기화</span>{' '}
+                  {lastSyncedAt ? new Date(lastSyncedAt).toLocaleString('ko-KR') : '아직 없음'}
+                </p>
+                {error && <p className="text-red-600">{error}</p>}
+              </div>
+              <div className="flex justify-end gap-2">
+                <button onClick={handleDisconnect} className="px-3 py-1.5 rounded-md text-red-600 hover:bg-red-50 font-semibold text-sm">연결 해제</button>
+                <button
+                  onClick={onSyncNow}
+                  disabled={status === 'syncing'}
+                  className="px-3 py-1.5 rounded-md bg-cyan-600 text-white hover:bg-cyan-700 font-semibold text-sm disabled:opacity-50"
+                >
+                  지금 동기화
+                </button>
+              </div>
+            </>
+          ) : (
+            <form onSubmit={handleConnect} className="space-y-3">
+              <p className="text-sm text-gray-600">같은 동기화 키를 쓰는 기기끼리 읽기 기록, 형광펜, 메모를 주고받습니다.</p>
+              <label className="block text-sm font-semibold text-gray-700">
+                서버 주소
+                <input
+                  type="url"
+                  value={serverUrl}
+                  onChange={e => setServerUrl(e.target.value)}
+                  className="mt-1 w-full px-2 py-1.5 border border-gray-300 rounded-md font-normal focus:ring-2 focus:ring-cyan-500"
+                />
+              </label>
+              <label className="block text-sm font-semibold text-gray-700">
+                동기화 키
+                <input
+                  type="password"
+                  value={syncKey}
+                  onChange={e => setSyncKey(e.target.value)}
+                  placeholder={`${MIN_SYNC_KEY_LENGTH}자 이상`}
+                  className="mt-1 w-full px-2 py-1.5 border border-gray-300 rounded-md font-normal focus:ring-2 focus:ring-cyan-500"
+                />
+              </label>
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={!serverUrl.trim() || syncKey.length < MIN_SYNC_KEY_LENGTH}
+                  className="px-3 py-1.5 rounded-md bg-cyan-600 text-white hover:bg-cyan-700 font-semibold text-sm disabled:opacity-50"
+                >
+                  연결
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusIndicator;
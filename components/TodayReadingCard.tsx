@@ -0,0 +1,88 @@
+import React from 'react';
+import { ChapterRef, DailyReading, PassageRange, ReadingPlanConfig, ReadingStatus } from '../types';
+import { getPlanDefinition, getReadingForDate, getNextReading, getReadingPlanProgress, groupReadingChapters } from '../utils/readingPlanUtils';
+import { parseDateKey, toDateKey } from '../utils/dateUtils';
+import { formatPassageRef, getRangeChapters } from '../utils/referenceUtils';
+import { isChapterRead } from '../utils/trackerUtils';
+
+interface TodayReadingCardProps {
+  config: ReadingPlanConfig | null;
+  plan: DailyReading[];
+  readingStatus: ReadingStatus;
+  onOpenPassage: (range: PassageRange) => void;
+  onSetRead: (chapters: ChapterRef[], read: boolean) => void;
+  onOpenPlans: () => void;
+}
+
+const rangeChapters = (range: PassageRange): ChapterRef[] =>
+  getRangeChapters(range).map(chapter => ({ book: range.start.book, chapter }));
+
+const formatDate = (dateKey: string) =>
+  parseDateKey(dateKey).toLocaleDateString('ko-KR', { month: 'long', day: 'numeric', weekday: 'short' });
+
+const TodayReadingCard: React.FC<TodayReadingCardProps> = ({ config, plan, readingStatus, onOpenPassage, onSetRead, onOpenPlans }) => {
+  if (!config) {
+    return (
+      <div className="mb-4 flex items-center justify-between gap-3 px-5 py-3 rounded-xl bg-white border border-gray-200 shadow-sm">
+        <p className="text-gray-600">읽기 계획을 정하면 오늘 읽을 본문을 알려드립니다.</p>
+        <button onClick={onOpenPlans} className="px-4 py-2 bg-cyan-600 text-white rounded-lg font-semibold hover:bg-cyan-700 whitespace-nowrap">계획 선택</button>
+      </div>
+    );
+  }
+
+  const today = toDateKey(new Date());
+  const todayReading = getReadingForDate(plan, today);
+  const reading = todayReading || getNextReading(plan, today);
+  const progress = getReadingPlanProgress(plan, readingStatus, today);
+  const definition = getPlanDefinition(config);
+
+  const paceMessage = progress.daysAhead > 0
+    ? `계획보다 ${progress.daysAhead}일 앞서 있습니다`
+    : progress.daysAhead < 0
+      ? `계획보다 ${-progress.daysAhead}일 뒤처져 있습니다`
+      : '계획대로 읽고 있습니다';
+
+  return (
+    <div className="mb-4 px-5 py-4 rounded-xl bg-white border border-gray-200 shadow-sm">
+      <div className="flex flex-wrap justify-between items-baseline gap-2 mb-3">
+        <div>
+          <h3 className="text-lg font-bold text-cyan-800">
+            {todayReading ? '오늘의 읽기' : reading ? `다음 읽기 · ${formatDate(reading.date)}` : '계획을 모두 마쳤습니다'}
+          </h3>
+          <p className="text-sm text-gray-500">
+            {definition.name}{reading && ` · ${reading.day}일차 / ${progress.totalDays}일`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className={`text-sm font-semibold ${progress.daysAhead < 0 ? 'text-red-600' : 'text-emerald-600'}`}>{paceMessage}</span>
+          <button onClick={onOpenPlans} className="text-sm text-cyan-700 hover:underline">달력 보기</button>
+        </div>
+      </div>
+      {reading && (
+        <ul className="flex flex-wrap gap-2">
+          {groupReadingChapters(reading.chapters).map(range => {
+            const chapters = rangeChapters(range);
+            const isRead = chapters.every(({ book, chapter }) => isChapterRead(readingStatus, book, chapter));
+            return (
+              <li key={formatPassageRef(range)} className={`flex items-center rounded-lg border ${isRead ? 'bg-cyan-50 border-cyan-300' : 'bg-gray-50 border-gray-200'}`}>
+                <button
+                  onClick={() => onSetRead(chapters, !isRead)}
+                  className={`pl-3 pr-1 py-2 ${isRead ? 'text-cyan-600' : 'text-gray-300 hover:text-gray-500'}`}
+                  aria-label={isRead ? `${formatPassageRef(range)} 읽음 취소` : `${formatPassageRef(range)} 읽음으로 표시`}
+                  aria-pressed={isRead}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" /></svg>
+                </button>
+                <button onClick={() => onOpenPassage(range)} className="pl-1 pr-3 py-2 font-semibold text-gray-800 hover:text-cyan-700">
+                  {formatPassageRef(range)}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TodayReadingCard;
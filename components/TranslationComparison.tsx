@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ComparisonColumn, OriginalPassage, TranslationId } from '../types';
+import { DEFAULT_TRANSLATION, getTranslation } from '../data/translations';
+import { getKoreanPassage } from '../services/geminiService';
+import { getApiErrorMessage, isAbortError } from '../services/apiErrors';
+import { parseKoreanPassage } from '../utils/passageNormalizer';
+import { getVerseCount } from '../utils/referenceUtils';
+import Spinner from './Spinner';
+
+interface TranslationComparisonProps {
+  book: string;
+  chapter: string;
+  text: string; // the section's 개역개정 text, already loaded by the reader
+  originalPassage: OriginalPassage | null;
+  testament: '구약성경' | '신약성경';
+  from: number; // verse bounds of the selected range in this chapter
+  to: number;
+  columns: ComparisonColumn[];
+  registerVerseRef: (verseNumber: string, element: HTMLDivElement | null) => void;
+  currentlyPlayingVerse: string | null;
+  focusedVerse?: string | null;
+}
+
+type ColumnState =
+  | { status: 'loading' }
+  | { status: 'done'; verses: Record<string, string> }
+  | { status: 'error'; error: string };
+
+const columnLabel = (column: ComparisonColumn, testament: '구약성경' | '신약성경') =>
+  column === 'original' ? (testament === '구약성경' ? '히브리어' : '헬라어') : getTranslation(column).name;
+
+/**
+ * The chapter as parallel columns, one row per verse number. Every translation other than
+ * the reader's own loads (and is cached) on its own, so a slow or failed column does not
+ * hold up the rest.
+ */
+const TranslationComparison: React.FC<TranslationComparisonProps> = ({ book, chapter, text, originalPassage, testament, from, to, columns, registerVerseRef, currentlyPlayingVerse, focusedVerse }) => {
+  const [passages, setPassages] = useState<Partial<Record<TranslationId, ColumnState>>>({});
+  const [retryCount, setRetryCount] = useState(0);
+  // Requests outlive column changes: hiding a column keeps what it loaded.
+  const requestsRef = useRef(new Map<TranslationId, AbortController>());
+
+  const translationIds = useMemo(
+    () => columns.filter((column): column is TranslationId => column !== 'original' && column !== DEFAULT_TRANSLATION),
+    [columns],
+  );
+
+  // A new chapter starts every column over.
+  useEffect(() => {
+    setPassages({});
+    const requests = requestsRef.current;
+    return () => {
+      requests.forEach(controller => controller.abort());
+      requests.clear();
+    };
+  }, [book, chapter]);
+
+  useEffect(() => {
+    const requests = requestsRef.current;
+    for (const id of translationIds) {
+      if (requests.has(id)) continue;
+      const controller = new AbortController();
+      requests.set(id, controller);
+      setPassages(prev => ({ ...prev, [id]: { status: 'loading' } }));
+      getKoreanPassage(book, chapter, id, getVerseCount(book, chapter), { signal: controller.signal })
+        .then(passage => {
+          if (requests.get(id) !== controller) return;
+          const verses = Object.fromEntries(passage.verses.map(verse => [verse.number, verse.text]));
+          setPassages(prev => ({ ...prev, [id]: { status: 'done', verses } }));
+        })
+        .catch(err => {
+          if (isAbortError(err) || requests.get(id) !== controller) return;
+          console.error(`Failed to fetch ${id} text of ${book} ${chapter}:`, err);
+          const error = getApiErrorMessage(err) || '본문을 가져오지 못했습니다.';
+          setPassages(prev => ({ ...prev, [id]: { status: 'error', error } }));
+        });
+    }
+  }, [book, chapter, translationIds, retryCount]);
+
+  const primaryVerses = useMemo(
+    () => Object.fromEntries(parseKoreanPassage(text).verses.map(verse => [verse.number, verse.text])),
+    [text],
+  );
+
+  const retry = (id: TranslationId) => {
+    requestsRef.current.delete(id);
+    setRetryCount(count => count + 1);
+  };
+
+  const getColumnState = (column: ComparisonColumn): ColumnState => {
+    if (column === DEFAULT_TRANSLATION) return { status: 'done', verses: primaryVerses };
+    if (column === 'original') return originalPassage ? { status: 'done', verses: originalPassage } : { status: 'loading' };
+    return passages[column] ?? { status: 'loading' };
+  };
+
+  const verseNumbers = Array.from({ length: Math.max(0, to - from + 1) }, (_, index) => String(from + index));
+  const gridStyle = { gridTemplateColumns: `2.5rem repeat(${columns.length}, minmax(12rem, 1fr))` };
+  const originalClass = testament === '구약성경' ? 'font-hebrew text-2xl' : 'font-greek text-xl';
+  const originalDir = testament === '구약성경' ? 'rtl' : 'ltr';
+
+  if (columns.length === 0) {
+    return <p className="text-center text-gray-500">비교할 번역을 하나 이상 선택하세요.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto" role="table" aria-label={`${book} ${chapter}장 번역 비교`}>
+      <div className="grid gap-3 border-b-2 border-cyan-200 pb-2 mb-2" style={gridStyle} role="row">
+        <span role="columnheader" className="text-sm text-gray-500">절</span>
+        {columns.map(column => {
+          const state = getColumnState(column);
+          return (
+            <div key={column} role="columnheader" className="flex items-center gap-2 font-bold text-cyan-800">
+              {columnLabel(column, testament)}
+              {state.status === 'loading' && <Spinner />}
+              {state.status === 'error' && column !== 'original' && column !== DEFAULT_TRANSLATION && (
+                <button onClick={() => retry(column)} className="text-xs font-normal text-red-600 hover:underline" title={state.error}>
+                  다시 시도
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {verseNumbers.map(verseNumber => (
+        <div
+          key={verseNumber}
+          ref={element => registerVerseRef(verseNumber, element)}
+          role="row"
+          className={`grid gap-3 p-2 rounded-lg transition-colors duration-300 ${verseNumber === currentlyPlayingVerse ? 'bg-yellow-200' : verseNumber === focusedVerse ? 'bg-cyan-50 ring-2 ring-cyan-300' : ''}`}
+          style={gridStyle}
+        >
+          <span role="rowheader" className="text-sm font-bold text-cyan-600 pt-1">{verseNumber}</span>
+          {columns.map(column => {
+            const state = getColumnState(column);
+            const verseText = state.status === 'done' ? state.verses[verseNumber] : undefined;
+            const isOriginal = column === 'original';
+            return (
+              <div
+                key={column}
+                role="cell"
+                className={isOriginal ? `${originalClass} text-gray-800` : 'text-lg leading-relaxed text-gray-800'}
+                dir={isOriginal ? originalDir : undefined}
+                lang={isOriginal ? (testament === '구약성경' ? 'he' : 'grc') : getTranslation(column).language}
+              >
+                {verseText ?? (state.status !== 'done' ? '' : <span className="text-gray-300" title="이 번역에 없는 절입니다">—</span>)}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TranslationComparison;
@@ -0,0 +1,67 @@
+import React, { useRef, useState } from 'react';
+import { ImportMode, UserDataExport } from '../types';
+import { exportUserData, importUserData, parseUserDataFile, summarizeUserData, UserDataImportError } from '../utils/userDataUtils';
+import { toDateKey } from '../utils/dateUtils';
+
+interface UserDataControlsProps {
+    onImported: () => void;
+}
+
+const UserDataControls: React.FC<UserDataControlsProps> = ({ onImported }) => {
+    const [pendingImport, setPendingImport] = useState<UserDataExport | null>(null);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleExport = () => {
+        const blob = new Blob([JSON.stringify(exportUserData(), null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `bible-study-${toDateKey(new Date())}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setPendingImport(parseUserDataFile(await file.text()));
+            setMessage(null);
+        } catch (error) {
+            console.error('Failed to read user data file', error);
+            setMessage({ text: error instanceof UserDataImportError ? error.message : '파일을 가져오지 못했습니다.', isError: true });
+        }
+    };
+
+    const handleImport = (mode: ImportMode) => {
+        if (!pendingImport) return;
+        if (mode === 'replace' && !window.confirm('이 기기의 읽기 기록, 메모, 북마크, 단어장을 파일 내용으로 바꿀까요? 되돌릴 수 없습니다.')) return;
+        importUserData(pendingImport, mode);
+        setPendingImport(null);
+        setMessage({ text: mode === 'merge' ? '가져온 데이터를 합쳤습니다.' : '가져온 데이터로 바꿨습니다.', isError: false });
+        onImported();
+    };
+
+    return (
+        <div className="mt-2 text-sm text-gray-500">
+            <div className="flex justify-center items-center gap-3">
+                <button onClick={handleExport} className="underline hover:text-cyan-700">내 데이터 내보내기</button>
+                <button onClick={() => fileInputRef.current?.click()} className="underline hover:text-cyan-700">가져오기</button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+            </div>
+            {pendingImport && (
+                <div className="mt-2 inline-flex flex-wrap items-center justify-center gap-2 px-4 py-2 rounded-lg bg-white border border-gray-200 shadow-sm text-gray-700">
+                    <span>{summarizeUserData(pendingImport)}</span>
+                    <button onClick={() => handleImport('merge')} className="px-3 py-1 rounded bg-cyan-600 text-white font-semibold hover:bg-cyan-700">합치기</button>
+                    <button onClick={() => handleImport('replace')} className="px-3 py-1 rounded border border-red-300 text-red-600 font-semibold hover:bg-red-50">바꾸기</button>
+                    <button onClick={() => setPendingImport(null)} className="px-3 py-1 rounded text-gray-500 hover:bg-gray-100">취소</button>
+                </div>
+            )}
+            {message && <p className={`mt-1 ${message.isError ? 'text-red-600' : 'text-emerald-600'}`}>{message.text}</p>}
+        </div>
+    );
+};
+
+export default UserDataControls;
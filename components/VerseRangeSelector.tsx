@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { BibleBookStructure, PassageRange } from '../types';
+import { isValidRange } from '../utils/referenceUtils';
+
+interface VerseRangeSelectorProps {
+  book: string;
+  bookStructure: BibleBookStructure;
+  onSelect: (range: PassageRange) => void;
+}
+
+const verseOptions = (count: number) =>
+  Array.from({ length: count }, (_, i) => String(i + 1)).map(verse => <option key={verse} value={verse}>{verse}절</option>);
+
+const VerseRangeSelector: React.FC<VerseRangeSelectorProps> = ({ book, bookStructure, onSelect }) => {
+  const chapters = Object.keys(bookStructure);
+  const [startChapter, setStartChapter] = useState(chapters[0]);
+  const [startVerse, setStartVerse] = useState('1');
+  const [endChapter, setEndChapter] = useState(chapters[0]);
+  const [endVerse, setEndVerse] = useState(String(bookStructure[chapters[0]]));
+
+  // Keep verse selections within the chosen chapter's verse count.
+  useEffect(() => {
+    if (Number(startVerse) > bookStructure[startChapter]) setStartVerse('1');
+  }, [startChapter, startVerse, bookStructure]);
+  useEffect(() => {
+    if (Number(endVerse) > bookStructure[endChapter]) setEndVerse(String(bookStructure[endChapter]));
+  }, [endChapter, endVerse, bookStructure]);
+
+  const range: PassageRange = {
+    start: { book, chapter: startChapter, verse: startVerse },
+    end: { book, chapter: endChapter, verse: endVerse },
+  };
+  const isValid = isValidRange(range);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isValid) onSelect(range);
+  };
+
+  const selectClassName = 'border border-gray-300 rounded px-1 py-0.5 bg-white';
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center justify-center gap-1.5 text-sm pt-3 mt-2 border-t border-gray-200">
+      <span className="font-semibold text-gray-600 mr-1">구간</span>
+      <select value={startChapter} onChange={e => setStartChapter(e.target.value)} className={selectClassName} aria-label="시작 장">
+        {chapters.map(ch => <option key={ch} value={ch}>{ch}장</option>)}
+      </select>
+      <select value={startVerse} onChange={e => setStartVerse(e.target.value)} className={selectClassName} aria-label="시작 절">
+        {verseOptions(bookStructure[startChapter] || 0)}
+      </select>
+      <span>~</span>
+      <select value={endChapter} onChange={e => setEndChapter(e.target.value)} className={selectClassName} aria-label="끝 장">
+        {chapters.map(ch => <option key={ch} value={ch}>{ch}장</option>)}
+      </select>
+      <select value={endVerse} onChange={e => setEndVerse(e.target.value)} className={selectClassName} aria-label="끝 절">
+        {verseOptions(bookStructure[endChapter] || 0)}
+      </select>
+      <button
+        type="submit"
+        disabled={!isValid}
+        className="ml-1 px-3 py-0.5 bg-cyan-600 text-white font-semibold rounded hover:bg-cyan-700 disabled:opacity-50 transition-colors"
+      >
+        불러오기
+      </button>
+    </form>
+  );
+};
+
+export default VerseRangeSelector;
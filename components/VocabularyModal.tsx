@@ -0,0 +1,218 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReviewDirection, ReviewGrade, VerseRef, VocabularyCard } from '../types';
+import { DueReview, formatInterval, getDueReviews, scheduleReview } from '../utils/vocabularyUtils';
+import { detectScript } from '../utils/searchUtils';
+import GrammarPanel from './GrammarPanel';
+import PronunciationButton from './PronunciationButton';
+
+interface VocabularyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  vocabulary: VocabularyCard[];
+  onReview: (id: string, direction: ReviewDirection, grade: ReviewGrade) => void;
+  onRemove: (id: string) => void;
+  onOpenVerse: (ref: VerseRef) => void;
+}
+
+type VocabularyTab = 'review' | 'words';
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 1, label: '다시', className: 'bg-red-100 text-red-700 hover:bg-red-200' },
+  { grade: 3, label: '어려움', className: 'bg-orange-100 text-orange-700 hover:bg-orange-200' },
+  { grade: 4, label: '알맞음', className: 'bg-green-100 text-green-700 hover:bg-green-200' },
+  { grade: 5, label: '쉬움', className: 'bg-cyan-100 text-cyan-700 hover:bg-cyan-200' },
+];
+
+const DIRECTION_LABELS: Record<ReviewDirection, string> = {
+  recognition: '원어 → 뜻',
+  recall: '뜻 → 원어',
+};
+
+const OriginalWord: React.FC<{ word: string; className?: string }> = ({ word, className = '' }) => {
+  const isHebrew = detectScript(word) === 'hebrew';
+  return <span className={`${isHebrew ? 'font-hebrew' : 'font-greek'} ${className}`} dir={isHebrew ? 'rtl' : 'ltr'}>{word}</span>;
+};
+
+const formatRef = ({ book, chapter, verse }: VerseRef) => `${book} ${chapter}:${verse}`;
+
+const ReviewCard: React.FC<{ review: DueReview; isRevealed: boolean }> = ({ review: { card, direction }, isRevealed }) => {
+  const { definition } = card;
+  const word = (
+    <div className="flex items-center justify-center gap-3">
+      <OriginalWord word={definition.originalWord} className="text-4xl text-cyan-900" />
+      <PronunciationButton originalWord={definition.originalWord} />
+    </div>
+  );
+  const meaning = (
+    <div className="text-center">
+      <p className="text-sm text-gray-500">{definition.partOfSpeech}</p>
+      <p className="text-xl font-semibold text-gray-800 whitespace-pre-wrap">{definition.basicMeaning}</p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {direction === 'recognition' ? word : meaning}
+      {direction === 'recall' && (
+        <p className="text-center text-gray-600">
+          <span className="text-sm font-semibold text-cyan-700 mr-2">{formatRef(card.ref)}</span>
+          {card.verseText}
+        </p>
+      )}
+      {isRevealed && (
+        <div className="border-t pt-6 space-y-4">
+          {direction === 'recognition' ? meaning : word}
+          <p className="text-center text-gray-500 italic">{definition.transliteration}{definition.lemma && ` · 기본형 ${definition.lemma}`}</p>
+          {direction === 'recognition' && (
+            <p className="text-center text-gray-600">
+              <span className="text-sm font-semibold text-cyan-700 mr-2">{formatRef(card.ref)}</span>
+              {card.verseText}
+            </p>
+          )}
+          <GrammarPanel definition={definition} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const VocabularyModal: React.FC<VocabularyModalProps> = ({ isOpen, onClose, vocabulary, onReview, onRemove, onOpenVerse }) => {
+  const [tab, setTab] = useState<VocabularyTab>('review');
+  const [queue, setQueue] = useState<DueReview[]>([]);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  // The session is fixed when the deck opens, so grading a card does not reshuffle the queue;
+  // the deck is read through a ref for that reason.
+  const vocabularyRef = useRef(vocabulary);
+  vocabularyRef.current = vocabulary;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQueue(getDueReviews(vocabularyRef.current));
+    setIsRevealed(false);
+    setReviewedCount(0);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  // Cards in the queue are snapshots; a card failed earlier in the session has a newer schedule.
+  const current: DueReview | undefined = queue[0] && {
+    ...queue[0],
+    card: vocabulary.find(card => card.id === queue[0].card.id) ?? queue[0].card,
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!current) return;
+    onReview(current.card.id, current.direction, grade);
+    setReviewedCount(count => count + 1);
+    setIsRevealed(false);
+    // A forgotten word comes back at the end of this session as well as tomorrow.
+    setQueue(([first, ...rest]) => grade < 3 ? [...rest, first] : rest);
+  };
+
+  const handleRemove = (id: string) => {
+    onRemove(id);
+    setQueue(prev => prev.filter(review => review.card.id !== id));
+  };
+
+  const openVerse = (ref: VerseRef) => {
+    onOpenVerse(ref);
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-3xl h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b">
+          <div className="flex items-center gap-4">
+            <h2 className="text-2xl font-bold text-cyan-800">나의 단어장</h2>
+            <div className="flex gap-1">
+              {(['review', 'words'] as const).map(value => (
+                <button
+                  key={value}
+                  onClick={() => setTab(value)}
+                  className={`px-3 py-1 rounded-md text-sm font-semibold ${tab === value ? 'bg-cyan-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+                >
+                  {value === 'review' ? `복습 (${queue.length})` : `단어 목록 (${vocabulary.length})`}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">&times;</button>
+        </header>
+
+        <main className="flex-grow overflow-y-auto p-4">
+          {tab === 'review' && (
+            vocabulary.length === 0 ? (
+              <p className="text-center text-gray-500 mt-12">아직 저장한 단어가 없습니다. 본문의 단어 풀이에서 책갈피 아이콘을 눌러 저장하세요.</p>
+            ) : !current ? (
+              <p className="text-center text-gray-500 mt-12">
+                {reviewedCount > 0 ? `${reviewedCount}개 카드를 복습했습니다. ` : ''}오늘 복습할 단어가 없습니다.
+              </p>
+            ) : (
+              <div className="max-w-xl mx-auto space-y-6">
+                <div className="flex justify-between text-sm text-gray-500">
+                  <span className="font-semibold text-cyan-700">{DIRECTION_LABELS[current.direction]}</span>
+                  <span>남은 카드 {queue.length}개</span>
+                </div>
+                <div className="border rounded-lg p-6 bg-gray-50">
+                  <ReviewCard review={current} isRevealed={isRevealed} />
+                </div>
+                {isRevealed ? (
+                  <div className="grid grid-cols-4 gap-2">
+                    {GRADES.map(({ grade, label, className }) => (
+                      <button key={grade} onClick={() => handleGrade(grade)} className={`py-2 rounded-md font-semibold ${className}`}>
+                        {label}
+                        <span className="block text-xs font-normal">
+                          {formatInterval(scheduleReview(current.card.schedules[current.direction], grade).interval)}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <button onClick={() => setIsRevealed(true)} className="w-full py-3 rounded-md bg-cyan-600 text-white font-bold hover:bg-cyan-700">
+                    정답 보기
+                  </button>
+                )}
+              </div>
+            )
+          )}
+
+          {tab === 'words' && (
+            <ul className="divide-y">
+              {vocabulary.map(card => (
+                <li key={card.id} className="py-3 flex items-start gap-3">
+                  <div className="flex-grow">
+                    <div className="flex items-center gap-2">
+                      <OriginalWord word={card.definition.originalWord} className="text-xl text-cyan-900" />
+                      <span className="text-gray-500 italic">{card.definition.transliteration}</span>
+                      <PronunciationButton originalWord={card.definition.originalWord} />
+                      {!card.hasAudio && <span className="text-xs text-gray-400" title="연결되어 있을 때 다시 들으면 저장됩니다">발음 미저장</span>}
+                    </div>
+                    <p className="text-gray-700">{card.definition.basicMeaning}</p>
+                    <p className="text-xs text-gray-500">
+                      <button onClick={() => openVerse(card.ref)} className="text-cyan-700 hover:underline">{formatRef(card.ref)}</button>
+                      {' · '}다음 복습 {card.schedules.recognition.dueDate < card.schedules.recall.dueDate ? card.schedules.recognition.dueDate : card.schedules.recall.dueDate}
+                    </p>
+                  </div>
+                  <button onClick={() => handleRemove(card.id)} className="text-sm text-gray-400 hover:text-red-600">삭제</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default VocabularyModal;
@@ -0,0 +1,52 @@
+import React from 'react';
+
+export interface WaveformSegment {
+  label: string;
+  start: number; // seconds
+  end: number;
+}
+
+interface WaveformProps {
+  peaks: number[];
+  duration: number; // seconds
+  segments: WaveformSegment[];
+  playhead: number | null; // seconds
+  selection: [number, number] | null; // first and last selected segment
+  onSegmentClick: (index: number, extend: boolean) => void;
+  barClassName: string;
+  labelClassName: string;
+}
+
+const percent = (time: number, duration: number) => `${Math.min(100, Math.max(0, time / duration * 100))}%`;
+
+// A waveform split into words; clicking a word selects it, shift-clicking extends the selection.
+const Waveform: React.FC<WaveformProps> = ({ peaks, duration, segments, playhead, selection, onSegmentClick, barClassName, labelClassName }) => (
+  <div className="relative h-28 bg-gray-50 border rounded-md overflow-hidden select-none">
+    <svg className="absolute inset-x-0 top-0 h-20 w-full" viewBox={`0 0 ${peaks.length} 100`} preserveAspectRatio="none" aria-hidden="true">
+      {peaks.map((peak, index) => (
+        <rect key={index} x={index} width={0.7} y={50 - peak * 48} height={Math.max(1, peak * 96)} className={barClassName} />
+      ))}
+    </svg>
+    {segments.map((segment, index) => {
+      const isSelected = !!selection && index >= selection[0] && index <= selection[1];
+      return (
+        <button
+          key={index}
+          onClick={e => onSegmentClick(index, e.shiftKey)}
+          className={`absolute inset-y-0 border-l border-gray-300 flex items-end justify-center pb-1 hover:bg-cyan-100/40 ${isSelected ? 'bg-amber-200/50' : ''}`}
+          style={{ left: percent(segment.start, duration), width: percent(segment.end - segment.start, duration) }}
+          title={segment.label}
+          aria-label={`${segment.label} 구간 선택`}
+          aria-pressed={isSelected}
+        >
+          <span className={`truncate text-sm ${labelClassName}`}>{segment.label}</span>
+        </button>
+      );
+    })}
+    {playhead !== null && (
+      <div className="absolute inset-y-0 w-0.5 bg-red-500 pointer-events-none" style={{ left: percent(playhead, duration) }} />
+    )}
+  </div>
+);
+
+export default Waveform;
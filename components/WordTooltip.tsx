@@ -1,35 +1,46 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { TooltipData } from '../types';
+import { MorphologySystem, TooltipData } from '../types';
 import Spinner from './Spinner';
-import { getWordPronunciation } from '../services/geminiService';
-import { decode, decodeAudioData } from '../utils/audioUtils';
+import GrammarPanel from './GrammarPanel';
+import PronunciationButton from './PronunciationButton';
 
 interface WordTooltipProps {
   data: TooltipData | null;
   onMouseEnter: () => void;
   onMouseLeave: () => void;
+  onShowOccurrences?: () => void;
+  isSaved: boolean;
+  onToggleSave: () => void;
+  onClose: () => void;
 }
 
-const SpeakerIcon: React.FC<{isLoading: boolean}> = ({isLoading}) => {
-    if (isLoading) {
-        return <Spinner />;
-    }
-  return (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-      <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5.983 5.983 0 0115 10a5.984 5.984 0 01-1.757 4.243 1 1 0 01-1.415-1.415A3.984 3.984 0 0013 10a3.983 3.983 0 00-1.172-2.828 1 1 0 010-1.415z" clipRule="evenodd" />
-    </svg>
-  );
-};
+const strongsUrl = (strongsNumber: string) =>
+  `https://www.blueletterbible.org/lexicon/${strongsNumber.toLowerCase()}/kjv/${strongsNumber.startsWith('H') ? 'wlc' : 'tr'}/0-1/`;
 
+// Narrow screens show a pinned tooltip as a sheet along the bottom edge.
+const SHEET_QUERY = '(max-width: 639px)';
 
-const WordTooltip: React.FC<WordTooltipProps> = ({ data, onMouseEnter, onMouseLeave }) => {
-  const [isAudioLoading, setIsAudioLoading] = useState(false);
-  const audioContextRef = useRef<AudioContext | null>(null);
+// Robinson codes have no single reference page worth linking to.
+const MORPHOLOGY_REFERENCES: Partial<Record<MorphologySystem, string>> = {
+  oshb: 'https://hb.openscriptures.org/parsing/HebrewMorphologyCodes.html',
+  morphgnt: 'https://github.com/morphgnt/sblgnt',
+};
+
+const WordTooltip: React.FC<WordTooltipProps> = ({ data, onMouseEnter, onMouseLeave, onShowOccurrences, isSaved, onToggleSave, onClose }) => {
   const tooltipRef = useRef<HTMLDivElement>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
   const [position, setPosition] = useState({ top: 0, left: 0 });
+  const isSheet = !!data?.pinned && window.matchMedia(SHEET_QUERY).matches;
+
+  // A pinned tooltip takes focus like a dialog; closing it returns focus to the word.
+  useEffect(() => {
+    if (data?.pinned) {
+      closeButtonRef.current?.focus({ preventScroll: true });
+    }
+  }, [data?.pinned, data?.word, data?.verseNumber]);
 
   useEffect(() => {
-    if (data && tooltipRef.current) {
+    if (data && tooltipRef.current && !isSheet) {
       const tooltipRect = tooltipRef.current.getBoundingClientRect();
       let newTop = data.y + 20;
       let newLeft = data.x;
@@ -46,43 +57,35 @@ const WordTooltip: React.FC<WordTooltipProps> = ({ data, onMouseEnter, onMouseLe
       
       setPosition({ top: newTop, left: newLeft });
     }
-  }, [data]);
+  }, [data, isSheet]);
 
   if (!data) return null;
 
   const { word, definition, isLoading, error } = data;
 
-  const handlePlayPronunciation = async () => {
-    if (!definition?.originalWord || isAudioLoading) return;
-
-    setIsAudioLoading(true);
-    try {
-      if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      }
-      const audioContext = audioContextRef.current;
-      const base64Audio = await getWordPronunciation(definition.originalWord);
-      const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
-      
-      const source = audioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(audioContext.destination);
-      source.start();
-    } catch (err) {
-      console.error("Failed to play pronunciation:", err);
-    } finally {
-      setIsAudioLoading(false);
-    }
-  };
-
   return (
     <div
       ref={tooltipRef}
-      className="fixed z-50 p-4 bg-white border border-gray-200 rounded-lg shadow-xl w-80 transition-opacity duration-200"
-      style={{ top: `${position.top}px`, left: `${position.left}px`, opacity: data ? 1 : 0, pointerEvents: data ? 'auto' : 'none' }}
+      className={isSheet
+        ? 'fixed z-50 inset-x-0 bottom-0 p-4 pb-6 bg-white border-t border-gray-200 rounded-t-2xl shadow-2xl max-h-[70vh] overflow-y-auto'
+        : 'fixed z-50 p-4 bg-white border border-gray-200 rounded-lg shadow-xl w-80 transition-opacity duration-200'}
+      style={isSheet ? undefined : { top: `${position.top}px`, left: `${position.left}px`, opacity: data ? 1 : 0, pointerEvents: data ? 'auto' : 'none' }}
+      role={data.pinned ? 'dialog' : 'tooltip'}
+      aria-label={`'${word}' 단어 풀이`}
       onMouseEnter={onMouseEnter}
       onMouseLeave={onMouseLeave}
     >
+      {data.pinned && (
+        <button
+          ref={closeButtonRef}
+          onClick={onClose}
+          className={`float-right -mt-1 ml-2 text-2xl leading-none text-gray-400 hover:text-gray-700 ${isSheet ? '' : '-mr-1'}`}
+          aria-label="단어 풀이 닫기"
+          aria-keyshortcuts="Escape"
+        >
+          &times;
+        </button>
+      )}
       {isLoading && (
         <div className="flex items-center">
           <Spinner />
@@ -95,43 +98,57 @@ const WordTooltip: React.FC<WordTooltipProps> = ({ data, onMouseEnter, onMouseLe
             <div className="flex items-center gap-3 border-b border-gray-200 pb-2 mb-3">
                 <h3 className="text-xl font-bold text-cyan-800">{definition.originalWord}</h3>
                 <span className="text-gray-500 italic">({definition.transliteration})</span>
-                <button 
-                    onClick={handlePlayPronunciation} 
-                    disabled={isAudioLoading}
-                    className="ml-auto text-gray-500 hover:text-cyan-600 disabled:opacity-50"
-                    aria-label="Play pronunciation"
+                <PronunciationButton originalWord={definition.originalWord} className="ml-auto" />
+                <button
+                    onClick={onToggleSave}
+                    className={isSaved ? 'text-amber-500 hover:text-amber-600' : 'text-gray-400 hover:text-amber-500'}
+                    aria-label={isSaved ? '단어장에서 빼기' : '단어장에 저장'}
+                    title={isSaved ? '단어장에서 빼기' : '단어장에 저장'}
                 >
-                    <SpeakerIcon isLoading={isAudioLoading} />
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill={isSaved ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth={1.5}>
+                        <path d="M5 4a2 2 0 012-2h6a2 2 0 012 2v14l-5-2.5L5 18V4z" />
+                    </svg>
                 </button>
             </div>
             <div className="space-y-4 text-gray-700">
-                <div>
-                    <h4 className="font-bold text-sm text-gray-500 uppercase tracking-wider mb-1.5">문법 정보</h4>
-                    <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-base bg-gray-50 p-3 rounded-md border">
-                        <div>
-                            <div className="text-xs font-semibold text-gray-500">품사</div>
-                            <div className="font-medium">{definition.partOfSpeech}</div>
-                        </div>
-                        <div>
-                            <div className="text-xs font-semibold text-gray-500">성</div>
-                            <div className="font-medium">{definition.gender}</div>
-                        </div>
-                        <div>
-                            <div className="text-xs font-semibold text-gray-500">수</div>
-                            <div className="font-medium">{definition.number}</div>
-                        </div>
-                        <div>
-                            <div className="text-xs font-semibold text-gray-500">격</div>
-                            <div className="font-medium">{definition.case}</div>
-                        </div>
+                {(definition.lemma || definition.strongsNumber || definition.morphologyCode) && (
+                    <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1 text-sm">
+                        {definition.lemma && <span><span className="text-xs font-semibold text-gray-500">기본형</span> <span className="font-medium text-base">{definition.lemma}</span></span>}
+                        {definition.strongsNumber && (
+                            <a href={strongsUrl(definition.strongsNumber)} target="_blank" rel="noopener noreferrer" className="font-mono text-cyan-700 hover:underline" title="스트롱 사전에서 보기">
+                                {definition.strongsNumber}
+                            </a>
+                        )}
+                        {definition.morphologyCode && (
+                            definition.morphologySystem && MORPHOLOGY_REFERENCES[definition.morphologySystem] ? (
+                                <a href={MORPHOLOGY_REFERENCES[definition.morphologySystem]} target="_blank" rel="noopener noreferrer" className="font-mono text-gray-600 hover:underline" title="형태 분석 코드 설명">
+                                    {definition.morphologyCode}
+                                </a>
+                            ) : (
+                                <span className="font-mono text-gray-600" title="형태 분석 코드">{definition.morphologyCode}</span>
+                            )
+                        )}
+                        {definition.lexiconSource === 'local' && <span className="text-xs text-gray-400">사전 데이터</span>}
                     </div>
-                </div>
+                )}
+                <GrammarPanel definition={definition} />
                 <div>
                     <h4 className="font-bold text-sm text-gray-500 uppercase tracking-wider mb-1">기본 의미</h4>
                     <p className="text-base" style={{ whiteSpace: 'pre-wrap' }}>
                         {definition.basicMeaning}
                     </p>
                 </div>
+                {definition.lexiconGloss && (
+                    <div>
+                        <h4 className="font-bold text-sm text-gray-500 uppercase tracking-wider mb-1">스트롱 사전</h4>
+                        <p className="text-sm text-gray-600">{definition.lexiconGloss}</p>
+                    </div>
+                )}
+                {onShowOccurrences && (
+                    <button onClick={onShowOccurrences} className="w-full py-1.5 rounded-md bg-cyan-50 text-cyan-700 font-semibold text-sm hover:bg-cyan-100">
+                        모든 용례 보기
+                    </button>
+                )}
             </div>
         </>
       )}
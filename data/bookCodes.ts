@@ -0,0 +1,71 @@
+import { BookCodes } from '../types';
+
+// Standard identifiers used by USFM files (Korean text) and OSIS/MorphGNT sources (WLC, SBLGNT).
+export const BOOK_CODES: Record<string, BookCodes> = {
+  '창세기': { usfm: 'GEN', osis: 'Gen' },
+  '출애굽기': { usfm: 'EXO', osis: 'Exod' },
+  '레위기': { usfm: 'LEV', osis: 'Lev' },
+  '민수기': { usfm: 'NUM', osis: 'Num' },
+  '신명기': { usfm: 'DEU', osis: 'Deut' },
+  '여호수아': { usfm: 'JOS', osis: 'Josh' },
+  '사사기': { usfm: 'JDG', osis: 'Judg' },
+  '룻기': { usfm: 'RUT', osis: 'Ruth' },
+  '사무엘상': { usfm: '1SA', osis: '1Sam' },
+  '사무엘하': { usfm: '2SA', osis: '2Sam' },
+  '열왕기상': { usfm: '1KI', osis: '1Kgs' },
+  '열왕기하': { usfm: '2KI', osis: '2Kgs' },
+  '역대상': { usfm: '1CH', osis: '1Chr' },
+  '역대하': { usfm: '2CH', osis: '2Chr' },
+  '에스라': { usfm: 'EZR', osis: 'Ezra' },
+  '느헤미야': { usfm: 'NEH', osis: 'Neh' },
+  '에스더': { usfm: 'EST', osis: 'Esth' },
+  '욥기': { usfm: 'JOB', osis: 'Job' },
+  '시편': { usfm: 'PSA', osis: 'Ps' },
+  '잠언': { usfm: 'PRO', osis: 'Prov' },
+  '전도서': { usfm: 'ECC', osis: 'Eccl' },
+  '아가': { usfm: 'SNG', osis: 'Song' },
+  '이사야': { usfm: 'ISA', osis: 'Isa' },
+  '예레미야': { usfm: 'JER', osis: 'Jer' },
+  '예레미야애가': { usfm: 'LAM', osis: 'Lam' },
+  '에스겔': { usfm: 'EZK', osis: 'Ezek' },
+  '다니엘': { usfm: 'DAN', osis: 'Dan' },
+  '호세아': { usfm: 'HOS', osis: 'Hos' },
+  '요엘': { usfm: 'JOL', osis: 'Joel' },
+  '아모스': { usfm: 'AMO', osis: 'Amos' },
+  '오바댜': { usfm: 'OBA', osis: 'Obad' },
+  '요나': { usfm: 'JON', osis: 'Jonah' },
+  '미가': { usfm: 'MIC', osis: 'Mic' },
+  '나훔': { usfm: 'NAM', osis: 'Nah' },
+  '하박국': { usfm: 'HAB', osis: 'Hab' },
+  '스바냐': { usfm: 'ZEP', osis: 'Zeph' },
+  '학개': { usfm: 'HAG', osis: 'Hag' },
+  '스가랴': { usfm: 'ZEC', osis: 'Zech' },
+  '말라기': { usfm: 'MAL', osis: 'Mal' },
+  '마태복음': { usfm: 'MAT', osis: 'Matt' },
+  '마가복음': { usfm: 'MRK', osis: 'Mark' },
+  '누가복음': { usfm: 'LUK', osis: 'Luke' },
+  '요한복음': { usfm: 'JHN', osis: 'John' },
+  '사도행전': { usfm: 'ACT', osis: 'Acts' },
+  '로마서': { usfm: 'ROM', osis: 'Rom' },
+  '고린도전서': { usfm: '1CO', osis: '1Cor' },
+  '고린도후서': { usfm: '2CO', osis: '2Cor' },
+  '갈라디아서': { usfm: 'GAL', osis: 'Gal' },
+  '에베소서': { usfm: 'EPH', osis: 'Eph' },
+  '빌립보서': { usfm: 'PHP', osis: 'Phil' },
+  '골로새서': { usfm: 'COL', osis: 'Col' },
+  '데살로니가전서': { usfm: '1TH', osis: '1Thess' },
+  '데살로니가후서': { usfm: '2TH', osis: '2Thess' },
+  '디모데전서': { usfm: '1TI', osis: '1Tim' },
+  '디모데후서': { usfm: '2TI', osis: '2Tim' },
+  '디도서': { usfm: 'TIT', osis: 'Titus' },
+  '빌레몬서': { usfm: 'PHM', osis: 'Phlm' },
+  '히브리서': { usfm: 'HEB', osis: 'Heb' },
+  '야고보서': { usfm: 'JAS', osis: 'Jas' },
+  '베드로전서': { usfm: '1PE', osis: '1Pet' },
+  '베드로후서': { usfm: '2PE', osis: '2Pet' },
+  '요한1서': { usfm: '1JN', osis: '1John' },
+  '요한2서': { usfm: '2JN', osis: '2John' },
+  '요한3서': { usfm: '3JN', osis: '3John' },
+  '유다서': { usfm: 'JUD', osis: 'Jude' },
+  '요한계시록': { usfm: 'REV', osis: 'Rev' },
+};
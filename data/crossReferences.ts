@@ -0,0 +1,67 @@
+// Curated cross-references that a plain verse-to-verse list cannot label. References are
+// written as typed in the reader (see parseReference) and use Korean verse numbering.
+
+// Accounts of the same event or saying; every passage of a group is a parallel of the others.
+export const PARALLEL_PASSAGES: string[][] = [
+  // Samuel–Kings and Chronicles
+  ['삼하 5:1-10', '대상 11:1-9'],
+  ['삼하 6:1-11', '대상 13:1-14'],
+  ['삼하 7:1-17', '대상 17:1-15'],
+  ['삼하 24:1-25', '대상 21:1-30'],
+  ['왕상 3:4-15', '대하 1:2-13'],
+  ['왕상 8:1-11', '대하 5:2-14'],
+  ['왕상 8:22-53', '대하 6:12-42'],
+  ['왕상 10:1-13', '대하 9:1-12'],
+  ['왕상 12:1-19', '대하 10:1-19'],
+  ['왕하 18:13-37', '사 36:1-22'],
+  ['왕하 19:1-37', '사 37:1-38'],
+  ['왕하 20:1-11', '사 38:1-8'],
+  ['왕하 20:12-19', '사 39:1-8'],
+  ['왕하 22:3-20', '대하 34:8-28'],
+  // The Gospels
+  ['마 3:13-17', '막 1:9-11', '눅 3:21-22'],
+  ['마 4:1-11', '막 1:12-13', '눅 4:1-13'],
+  ['마 5:3-12', '눅 6:20-23'],
+  ['마 6:9-13', '눅 11:2-4'],
+  ['마 8:23-27', '막 4:35-41', '눅 8:22-25'],
+  ['마 13:1-9', '막 4:1-9', '눅 8:4-8'],
+  ['마 14:13-21', '막 6:30-44', '눅 9:10-17', '요 6:1-14'],
+  ['마 14:22-33', '막 6:45-52', '요 6:16-21'],
+  ['마 16:13-20', '막 8:27-30', '눅 9:18-21'],
+  ['마 17:1-8', '막 9:2-8', '눅 9:28-36'],
+  ['마 21:1-11', '막 11:1-11', '눅 19:28-40', '요 12:12-19'],
+  ['마 21:12-13', '막 11:15-17', '눅 19:45-46'],
+  ['마 22:34-40', '막 12:28-34'],
+  ['마 26:26-29', '막 14:22-25', '눅 22:14-20', '고전 11:23-26'],
+  ['마 26:36-46', '막 14:32-42', '눅 22:39-46'],
+  ['마 27:45-56', '막 15:33-41', '눅 23:44-49'],
+  ['마 28:1-10', '막 16:1-8', '눅 24:1-12', '요 20:1-10'],
+];
+
+// New Testament quotations of the Old Testament: [quotation, quoted passage].
+export const OLD_TESTAMENT_QUOTATIONS: [string, string][] = [
+  ['마 1:23', '사 7:14'],
+  ['마 2:6', '미 5:2'],
+  ['마 2:15', '호 11:1'],
+  ['마 3:3', '사 40:3'],
+  ['마 4:4', '신 8:3'],
+  ['마 4:7', '신 6:16'],
+  ['마 4:10', '신 6:13'],
+  ['마 21:5', '슥 9:9'],
+  ['마 22:37', '신 6:5'],
+  ['마 22:39', '레 19:18'],
+  ['마 22:44', '시 110:1'],
+  ['마 27:46', '시 22:1'],
+  ['막 12:10-11', '시 118:22-23'],
+  ['눅 4:18-19', '사 61:1-2'],
+  ['요 19:36', '출 12:46'],
+  ['행 2:17-21', '욜 2:28-32'],
+  ['행 2:25-28', '시 16:8-11'],
+  ['롬 1:17', '합 2:4'],
+  ['롬 4:3', '창 15:6'],
+  ['고전 15:55', '호 13:14'],
+  ['갈 3:11', '합 2:4'],
+  ['히 1:5', '시 2:7'],
+  ['히 10:5-7', '시 40:6-8'],
+  ['벧전 2:6', '사 28:16'],
+];
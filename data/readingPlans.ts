@@ -0,0 +1,72 @@
+import { ReadingPlanId, OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS } from '../types';
+
+export interface ReadingPlanDefinition {
+  id: ReadingPlanId;
+  name: string;
+  description: string;
+  days: number; // reading days; custom plans derive theirs from chaptersPerDay
+  // Each track's books are read in order and spread evenly across the plan; tracks run in parallel.
+  tracks: string[][];
+}
+
+// Book-level chronological order: Job with the patriarchs, the prophets beside the kings they
+// served under, and the epistles in the order they were likely written.
+const CHRONOLOGICAL_BOOKS = [
+  '창세기', '욥기', '출애굽기', '레위기', '민수기', '신명기', '여호수아', '사사기', '룻기',
+  '사무엘상', '시편', '사무엘하', '역대상', '잠언', '아가', '전도서', '열왕기상', '역대하',
+  '요엘', '요나', '아모스', '호세아', '이사야', '미가', '열왕기하', '나훔', '스바냐', '하박국',
+  '예레미야', '예레미야애가', '오바댜', '에스겔', '다니엘', '에스라', '학개', '스가랴', '에스더',
+  '느헤미야', '말라기',
+  '마태복음', '마가복음', '누가복음', '요한복음', '사도행전', '야고보서', '갈라디아서',
+  '데살로니가전서', '데살로니가후서', '고린도전서', '고린도후서', '로마서', '에베소서', '빌립보서',
+  '골로새서', '빌레몬서', '디모데전서', '디도서', '베드로전서', '히브리서', '디모데후서',
+  '베드로후서', '유다서', '요한1서', '요한2서', '요한3서', '요한계시록',
+];
+
+const OT_HISTORY = OLD_TESTAMENT_BOOKS.slice(0, OLD_TESTAMENT_BOOKS.indexOf('에스라'));
+const OT_REST = OLD_TESTAMENT_BOOKS.slice(OLD_TESTAMENT_BOOKS.indexOf('에스라'));
+const GOSPELS_END = NEW_TESTAMENT_BOOKS.indexOf('사도행전');
+
+export const READING_PLANS: ReadingPlanDefinition[] = [
+  {
+    id: 'mcheyne',
+    name: '맥체인 성경읽기',
+    description: '하루 네 곳을 나란히 읽습니다. 1년에 구약 1회, 신약 2회.',
+    days: 365,
+    // The shape of M'Cheyne's calendar (four parallel tracks) rather than his exact table.
+    tracks: [
+      OT_HISTORY,
+      NEW_TESTAMENT_BOOKS,
+      OT_REST,
+      [...NEW_TESTAMENT_BOOKS.slice(GOSPELS_END), ...NEW_TESTAMENT_BOOKS.slice(0, GOSPELS_END)],
+    ],
+  },
+  {
+    id: 'canonical',
+    name: '1년 성경통독',
+    description: '창세기부터 요한계시록까지 성경 순서대로 1년에 읽습니다.',
+    days: 365,
+    tracks: [[...OLD_TESTAMENT_BOOKS, ...NEW_TESTAMENT_BOOKS]],
+  },
+  {
+    id: 'chronological',
+    name: '연대기순 통독',
+    description: '사건이 일어난 순서에 가깝게 1년에 읽습니다.',
+    days: 365,
+    tracks: [CHRONOLOGICAL_BOOKS],
+  },
+  {
+    id: 'nt90',
+    name: '신약 90일',
+    description: '신약 전체를 90일 동안 읽습니다.',
+    days: 90,
+    tracks: [NEW_TESTAMENT_BOOKS],
+  },
+  {
+    id: 'custom',
+    name: '나만의 계획',
+    description: '읽을 책과 하루 분량, 주당 읽는 날을 직접 정합니다.',
+    days: 0,
+    tracks: [],
+  },
+];
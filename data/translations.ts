@@ -0,0 +1,19 @@
+import { ComparisonColumn, Translation, TranslationId } from '../types';
+
+// The reader's own text; its passages are cached under the keys used before other
+// translations could be requested.
+export const DEFAULT_TRANSLATION: TranslationId = 'nkrv';
+
+export const TRANSLATIONS: Translation[] = [
+  { id: 'nkrv', name: '개역개정', promptName: '개역개정판', language: 'ko' },
+  { id: 'rnksv', name: '새번역', promptName: '새번역', language: 'ko' },
+  { id: 'kcb', name: '공동번역', promptName: '공동번역 개정판', language: 'ko' },
+  { id: 'kjv', name: 'KJV', promptName: 'King James Version (KJV)', language: 'en' },
+  { id: 'esv', name: 'ESV', promptName: 'English Standard Version (ESV)', language: 'en' },
+];
+
+export const COMPARISON_COLUMNS: ComparisonColumn[] = [...TRANSLATIONS.map(translation => translation.id), 'original'];
+
+export function getTranslation(id: TranslationId): Translation {
+  return TRANSLATIONS.find(translation => translation.id === id) ?? TRANSLATIONS[0];
+}
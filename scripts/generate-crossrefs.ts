@@ -0,0 +1,68 @@
+// Converts the OpenBible.info cross-reference list (https://www.openbible.info/labs/cross-references/,
+// CC-BY) into the per-book files the related passages panel reads: public/crossrefs/<OSIS book>.json,
+// chapter -> verse -> OSIS references, most voted first.
+//
+// Usage: download and unzip cross-references.zip, then
+//   npm run crossrefs -- path/to/cross_references.txt
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const OUTPUT_DIR = path.join(process.cwd(), 'public', 'crossrefs');
+// Links with no net votes are mostly ones readers disagreed with.
+const MIN_VOTES = 1;
+const MAX_PER_VERSE = 30;
+
+interface Link {
+  reference: string;
+  votes: number;
+}
+
+type Book = Record<string, Record<string, Link[]>>;
+
+async function main() {
+  const input = process.argv[2];
+  if (!input) {
+    console.error('Usage: npm run crossrefs -- <cross_references.txt>');
+    process.exit(1);
+  }
+
+  // Tab-separated: "Gen.1.1	Prov.8.22-Prov.8.30	59", after a "From Verse	To Verse	Votes" header.
+  const books = new Map<string, Book>();
+  let kept = 0;
+  for (const line of (await fs.readFile(input, 'utf8')).split('\n')) {
+    const [from, to, votesText] = line.trim().split('\t');
+    const [book, chapter, verse] = (from || '').split('.');
+    const votes = Number(votesText);
+    if (!to || !verse || !Number.isFinite(votes) || votes < MIN_VOTES) continue;
+    const chapters = books.get(book) ?? {};
+    books.set(book, chapters);
+    const verses = chapters[chapter] ??= {};
+    (verses[verse] ??= []).push({ reference: to, votes });
+    kept++;
+  }
+  if (books.size === 0) {
+    throw new Error(`No cross-references found in ${input}`);
+  }
+
+  await fs.rm(OUTPUT_DIR, { recursive: true, force: true });
+  await fs.mkdir(OUTPUT_DIR, { recursive: true });
+  for (const [book, chapters] of books) {
+    const output: Record<string, Record<string, string[]>> = {};
+    for (const [chapter, verses] of Object.entries(chapters)) {
+      output[chapter] = {};
+      for (const [verse, links] of Object.entries(verses)) {
+        output[chapter][verse] = links
+          .sort((a, b) => b.votes - a.votes)
+          .slice(0, MAX_PER_VERSE)
+          .map(link => link.reference);
+      }
+    }
+    await fs.writeFile(path.join(OUTPUT_DIR, `${book}.json`), JSON.stringify(output));
+  }
+  console.log(`Wrote ${kept} cross-references for ${books.size} books to ${OUTPUT_DIR}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
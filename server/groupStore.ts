@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { GroupChallenge, GroupMemberProgress } from '../types.ts';
+import { openJsonFile } from './jsonFile.ts';
+
+export interface StoredMember extends GroupMemberProgress {
+  tokenHash: string;
+}
+
+export interface StoredGroup extends GroupChallenge {
+  members: Record<string, StoredMember>;
+}
+
+/**
+ * Where the server keeps reading-challenge groups. Updates go through `updateGroup` so a
+ * read-modify-write of one group can't interleave with another request's.
+ */
+export interface GroupStore {
+  getGroup(id: string): Promise<StoredGroup | null>;
+  findGroupByJoinCode(joinCode: string): Promise<StoredGroup | null>;
+  createGroup(group: StoredGroup): Promise<void>;
+  /** Applies `update` to the stored group; returning null deletes it. */
+  updateGroup(id: string, update: (group: StoredGroup) => StoredGroup | null): Promise<StoredGroup | null>;
+  close(): Promise<void>;
+}
+
+export async function createFileGroupStore(filePath: string): Promise<GroupStore> {
+  const file = await openJsonFile<Record<string, StoredGroup>>(filePath, {});
+  const groups = file.data;
+
+  return {
+    async getGroup(id) {
+      return groups[id] || null;
+    },
+    async findGroupByJoinCode(joinCode) {
+      return Object.values(groups).find(group => group.joinCode === joinCode) || null;
+    },
+    async createGroup(group) {
+      groups[group.id] = group;
+      await file.persist();
+    },
+    async updateGroup(id, update) {
+      const group = groups[id];
+      if (!group) return null;
+      const updated = update(group);
+      if (updated) {
+        groups[id] = updated;
+      } else {
+        delete groups[id];
+      }
+      await file.persist();
+      return updated;
+    },
+    async close() {
+      await file.flush();
+    },
+  };
+}
+
+/**
+ * Keeps each group as one JSON row; groups are small and always read whole.
+ */
+export async function createSqliteGroupStore(filePath: string): Promise<GroupStore> {
+  const { DatabaseSync } = await import('node:sqlite');
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const db = new DatabaseSync(filePath);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS groups (
+      id TEXT PRIMARY KEY,
+      join_code TEXT NOT NULL UNIQUE,
+      data TEXT NOT NULL
+    );
+  `);
+
+  const getById = db.prepare('SELECT data FROM groups WHERE id = ?');
+  const getByJoinCode = db.prepare('SELECT data FROM groups WHERE join_code = ?');
+  const insert = db.prepare('INSERT INTO groups (id, join_code, data) VALUES (?, ?, ?)');
+  const updateData = db.prepare('UPDATE groups SET data = ? WHERE id = ?');
+  const remove = db.prepare('DELETE FROM groups WHERE id = ?');
+
+  const fromRow = (row: unknown) => row ? JSON.parse((row as { data: string }).data) as StoredGroup : null;
+
+  return {
+    async getGroup(id) {
+      return fromRow(getById.get(id));
+    },
+    async findGroupByJoinCode(joinCode) {
+      return fromRow(getByJoinCode.get(joinCode));
+    },
+    async createGroup(group) {
+      insert.run(group.id, group.joinCode, JSON.stringify(group));
+    },
+    async updateGroup(id, update) {
+      // node:sqlite is synchronous, so nothing else runs between the read and the write.
+      const group = fromRow(getById.get(id));
+      if (!group) return null;
+      const updated = update(group);
+      if (updated) {
+        updateData.run(JSON.stringify(updated), id);
+      } else {
+        remove.run(id);
+      }
+      return updated;
+    },
+    async close() {
+      db.close();
+    },
+  };
+}
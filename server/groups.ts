@@ -0,0 +1,142 @@
+import http from 'http';
+import { createHash, randomBytes, randomInt, randomUUID } from 'crypto';
+import type { GroupBoard, ReadingPlanConfig, ReadingStatus } from '../types.ts';
+import type { GroupStore, StoredGroup, StoredMember } from './groupStore.ts';
+import { bearerToken, HttpError, readJson, sendJson } from './http.ts';
+
+// No 0/O or 1/I, so codes survive being read aloud or copied from a bulletin.
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+const MAX_NAME_LENGTH = 40;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+function toBoard(group: StoredGroup): GroupBoard {
+  const { members, ...challenge } = group;
+  return {
+    group: challenge,
+    members: Object.values(members).map(({ tokenHash, ...member }) => member),
+  };
+}
+
+function requireName(value: unknown, field: string): string {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new HttpError(400, `${field} must be 1-${MAX_NAME_LENGTH} characters`);
+  }
+  return name;
+}
+
+function requirePlan(value: unknown): ReadingPlanConfig {
+  const plan = value as ReadingPlanConfig;
+  if (typeof plan !== 'object' || plan === null || typeof plan.planId !== 'string'
+    || !/^\d{4}-\d{2}-\d{2}$/.test(plan.startDate) || typeof plan.daysPerWeek !== 'number') {
+    throw new HttpError(400, 'Invalid reading plan');
+  }
+  return plan;
+}
+
+function requireReadingStatus(value: unknown): ReadingStatus {
+  const isChapterMap = (chapters: unknown) => typeof chapters === 'object' && chapters !== null
+    && Object.values(chapters).every(read => read === true);
+  if (typeof value !== 'object' || value === null || !Object.values(value).every(isChapterMap)) {
+    throw new HttpError(400, 'Invalid reading status');
+  }
+  return value as ReadingStatus;
+}
+
+function newMember(displayName: string): { member: StoredMember; memberToken: string } {
+  const memberToken = randomBytes(24).toString('base64url');
+  const now = Date.now();
+  return {
+    member: { memberId: randomUUID(), displayName, readingStatus: {}, joinedAt: now, updatedAt: now, tokenHash: hashToken(memberToken) },
+    memberToken,
+  };
+}
+
+async function generateJoinCode(store: GroupStore): Promise<string> {
+  for (;;) {
+    const code = Array.from({ length: JOIN_CODE_LENGTH }, () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]).join('');
+    if (!await store.findGroupByJoinCode(code)) return code;
+  }
+}
+
+/**
+ * The member a request acts as, identified by the token handed out when they joined.
+ */
+function authenticate(req: http.IncomingMessage, group: StoredGroup): StoredMember {
+  const token = bearerToken(req);
+  const tokenHash = token ? hashToken(token) : null;
+  const member = Object.values(group.members).find(candidate => candidate.tokenHash === tokenHash);
+  if (!member) throw new HttpError(403, 'Not a member of this group');
+  return member;
+}
+
+/**
+ * Routes for group reading challenges:
+ *   POST /groups                 { name, displayName, plan }  -> create and join
+ *   POST /groups/join            { joinCode, displayName }    -> join
+ *   GET  /groups/:id                                          -> the leaderboard data
+ *   PUT  /groups/:id/progress    { readingStatus }
+ *   POST /groups/:id/leave
+ * Returns false when the path is not a group route.
+ */
+export async function handleGroupRequest(store: GroupStore, req: http.IncomingMessage, res: http.ServerResponse, pathname: string): Promise<boolean> {
+  const [, root, groupId, action] = pathname.split('/');
+  if (root !== 'groups') return false;
+
+  if (req.method === 'POST' && !groupId) {
+    const body = await readJson(req) as Record<string, unknown>;
+    const { member, memberToken } = newMember(requireName(body?.displayName, 'displayName'));
+    const group: StoredGroup = {
+      id: randomUUID(),
+      name: requireName(body?.name, 'name'),
+      joinCode: await generateJoinCode(store),
+      plan: requirePlan(body?.plan),
+      createdAt: Date.now(),
+      members: { [member.memberId]: member },
+    };
+    await store.createGroup(group);
+    sendJson(res, 201, { board: toBoard(group), memberId: member.memberId, memberToken });
+    return true;
+  }
+
+  if (req.method === 'POST' && groupId === 'join' && !action) {
+    const body = await readJson(req) as Record<string, unknown>;
+    const joinCode = typeof body?.joinCode === 'string' ? body.joinCode.trim().toUpperCase() : '';
+    const found = await store.findGroupByJoinCode(joinCode);
+    if (!found) throw new HttpError(404, 'No group with that join code');
+    const { member, memberToken } = newMember(requireName(body?.displayName, 'displayName'));
+    const group = await store.updateGroup(found.id, current => ({ ...current, members: { ...current.members, [member.memberId]: member } }));
+    if (!group) throw new HttpError(404, 'No group with that join code');
+    sendJson(res, 200, { board: toBoard(group), memberId: member.memberId, memberToken });
+    return true;
+  }
+
+  const group = groupId ? await store.getGroup(groupId) : null;
+  if (!group) throw new HttpError(404, 'Group not found');
+  const member = authenticate(req, group);
+
+  if (req.method === 'GET' && !action) {
+    sendJson(res, 200, toBoard(group));
+  } else if (req.method === 'PUT' && action === 'progress') {
+    const body = await readJson(req) as Record<string, unknown>;
+    const readingStatus = requireReadingStatus(body?.readingStatus);
+    const updated = await store.updateGroup(group.id, current => ({
+      ...current,
+      members: { ...current.members, [member.memberId]: { ...member, readingStatus, updatedAt: Date.now() } },
+    }));
+    if (!updated) throw new HttpError(404, 'Group not found');
+    sendJson(res, 200, toBoard(updated));
+  } else if (req.method === 'POST' && action === 'leave') {
+    // The group goes away with its last member.
+    await store.updateGroup(group.id, current => {
+      const { [member.memberId]: _, ...members } = current.members;
+      return Object.keys(members).length > 0 ? { ...current, members } : null;
+    });
+    sendJson(res, 200, { ok: true });
+  } else {
+    throw new HttpError(404, 'Not found');
+  }
+  return true;
+}
@@ -0,0 +1,98 @@
+import http from 'http';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { SyncRecord, SyncRequest } from '../types.ts';
+import { createFileStore, createSqliteStore, type SyncStore } from './store.ts';
+import { createFileGroupStore, createSqliteGroupStore, type GroupStore } from './groupStore.ts';
+import { handleGroupRequest } from './groups.ts';
+import { bearerToken, HttpError, readJson, sendJson } from './http.ts';
+
+const PORT = Number(process.env.SYNC_PORT) || 8787;
+const STORE_KIND = process.env.SYNC_STORE === 'sqlite' ? 'sqlite' : 'file';
+const DATA_PATH = process.env.SYNC_DATA_PATH
+  || path.join(process.cwd(), 'server', 'data', STORE_KIND === 'sqlite' ? 'sync.sqlite' : 'sync.json');
+const ALLOWED_ORIGIN = process.env.SYNC_ALLOWED_ORIGIN || '*';
+const MIN_SYNC_KEY_LENGTH = 8;
+
+/**
+ * Devices that share a sync key share data. The key itself is never stored, only its hash.
+ */
+function spaceFor(req: http.IncomingMessage): string {
+  const syncKey = bearerToken(req);
+  if (!syncKey || syncKey.length < MIN_SYNC_KEY_LENGTH) {
+    throw new HttpError(401, `A sync key of at least ${MIN_SYNC_KEY_LENGTH} characters is required`);
+  }
+  return createHash('sha256').update(syncKey).digest('hex');
+}
+
+const isSyncRecord = (value: unknown): value is SyncRecord => {
+  const record = value as SyncRecord;
+  return typeof record === 'object' && record !== null && typeof record.id === 'string'
+    && typeof record.updatedAt === 'number' && typeof record.deviceId === 'string' && 'value' in record;
+};
+
+function parseSyncRequest(body: unknown): SyncRequest {
+  const request = body as SyncRequest;
+  if (typeof request !== 'object' || request === null || typeof request.since !== 'number'
+    || !Array.isArray(request.changes) || !request.changes.every(isSyncRecord)) {
+    throw new HttpError(400, 'Expected { since: number, changes: SyncRecord[] }');
+  }
+  return request;
+}
+
+function createServer(store: SyncStore, groupStore: GroupStore) {
+  return http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+      } else if (req.method === 'GET' && url.pathname === '/health') {
+        sendJson(res, 200, { ok: true, store: STORE_KIND });
+      } else if (req.method === 'POST' && url.pathname === '/sync') {
+        const space = spaceFor(req);
+        const { since, changes } = parseSyncRequest(await readJson(req));
+        const resolved = await store.applyChanges(space, changes);
+        const { revision, changes: updates } = await store.getChangesSince(space, since);
+        // Also echo records whose stored copy won, so the device can drop its losing edit.
+        const updatedIds = new Set(updates.map(record => record.id));
+        sendJson(res, 200, { revision, changes: [...updates, ...resolved.filter(record => !updatedIds.has(record.id))] });
+      } else if (!await handleGroupRequest(groupStore, req, res, url.pathname)) {
+        throw new HttpError(404, 'Not found');
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+      } else {
+        console.error('Request failed', error);
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+    }
+  });
+}
+
+async function main() {
+  const store = STORE_KIND === 'sqlite' ? await createSqliteStore(DATA_PATH) : await createFileStore(DATA_PATH);
+  // SQLite keeps groups in the same database; the file store writes them next to the sync file.
+  const groupStore = STORE_KIND === 'sqlite'
+    ? await createSqliteGroupStore(DATA_PATH)
+    : await createFileGroupStore(path.join(path.dirname(DATA_PATH), 'groups.json'));
+  const server = createServer(store, groupStore);
+  server.listen(PORT, () => {
+    console.log(`Sync server listening on http://localhost:${PORT} (${STORE_KIND} store at ${DATA_PATH})`);
+  });
+
+  const shutdown = () => {
+    server.close(() => Promise.all([store.close(), groupStore.close()]).then(() => process.exit(0)));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Failed to start sync server', error);
+  process.exit(1);
+});
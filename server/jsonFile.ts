@@ -0,0 +1,39 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface JsonFile<T> {
+  data: T;
+  /** Writes `data` out. Writes are chained so an older snapshot never lands after a newer one. */
+  persist(): Promise<void>;
+  /** Waits for pending writes. */
+  flush(): Promise<void>;
+}
+
+export async function openJsonFile<T>(filePath: string, fallback: T): Promise<JsonFile<T>> {
+  let data = fallback;
+  try {
+    data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  let writing = Promise.resolve();
+  const file: JsonFile<T> = {
+    data,
+    persist() {
+      // A failed write rejects its own caller only; later writes still run.
+      writing = writing.catch(() => {}).then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        // Write then rename, so a crash mid-write leaves the previous file intact.
+        const tempPath = `${filePath}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(file.data));
+        await fs.rename(tempPath, filePath);
+      });
+      return writing;
+    },
+    flush() {
+      return writing;
+    },
+  };
+  return file;
+}
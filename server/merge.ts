@@ -0,0 +1,32 @@
+import type { ReadingLogEntry, SyncRecord } from '../types.ts';
+
+const isNewer = (a: SyncRecord, b: SyncRecord) =>
+  a.updatedAt > b.updatedAt || (a.updatedAt === b.updatedAt && a.deviceId > b.deviceId);
+
+function mergeReadingEntries(a: ReadingLogEntry[], b: ReadingLogEntry[]): ReadingLogEntry[] {
+  const seen = new Set<string>();
+  return [...a, ...b]
+    .filter(entry => {
+      const key = `${entry.readAt ?? ''}/${entry.source}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((x, y) => (x.readAt ?? 0) - (y.readAt ?? 0));
+}
+
+/**
+ * Decides what the server keeps when a device sends a record. The most recent edit wins,
+ * with the device id as a tie-breaker so every server and client agrees. Two devices that
+ * both read a chapter keep each other's completions instead of one overwriting the other.
+ * Returns null when the stored record should stay as it is.
+ */
+export function resolveRecord(existing: SyncRecord | undefined, incoming: SyncRecord): SyncRecord | null {
+  if (!existing) return incoming;
+  if (incoming.id.startsWith('reading:') && Array.isArray(existing.value) && Array.isArray(incoming.value)) {
+    const value = mergeReadingEntries(existing.value, incoming.value);
+    if (value.length === existing.value.length && !isNewer(incoming, existing)) return null;
+    return { ...(isNewer(incoming, existing) ? incoming : existing), value };
+  }
+  return isNewer(incoming, existing) ? incoming : null;
+}
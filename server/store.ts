@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { SyncRecord, SyncResponse } from '../types.ts';
+import { resolveRecord } from './merge.ts';
+import { openJsonFile } from './jsonFile.ts';
+
+/**
+ * Where the server keeps records. Each sync key gets its own space; within a space every
+ * accepted change bumps the space's revision, and devices pull everything after the
+ * revision they last saw.
+ */
+export interface SyncStore {
+  /** Resolves the changes against stored records and returns the resulting record for each. */
+  applyChanges(space: string, changes: SyncRecord[]): Promise<SyncRecord[]>;
+  getChangesSince(space: string, since: number): Promise<SyncResponse>;
+  close(): Promise<void>;
+}
+
+interface StoredRecord extends SyncRecord {
+  revision: number;
+}
+
+interface SpaceData {
+  revision: number;
+  records: Record<string, StoredRecord>;
+}
+
+const toSyncRecord = ({ id, value, updatedAt, deviceId }: StoredRecord): SyncRecord => ({ id, value, updatedAt, deviceId });
+
+/**
+ * Keeps everything in memory and rewrites a single JSON file after each change.
+ * Fine for a handful of devices; use the SQLite store for more.
+ */
+export async function createFileStore(filePath: string): Promise<SyncStore> {
+  const file = await openJsonFile<Record<string, SpaceData>>(filePath, {});
+  const spaces = file.data;
+
+  return {
+    async applyChanges(space, changes) {
+      const data = spaces[space] || (spaces[space] = { revision: 0, records: {} });
+      let changed = false;
+      for (const change of changes) {
+        const resolved = resolveRecord(data.records[change.id], change);
+        if (!resolved) continue;
+        data.revision += 1;
+        data.records[change.id] = { ...resolved, revision: data.revision };
+        changed = true;
+      }
+      if (changed) await file.persist();
+      return changes.map(change => toSyncRecord(data.records[change.id]));
+    },
+    async getChangesSince(space, since) {
+      const data = spaces[space];
+      if (!data) return { revision: 0, changes: [] };
+      return {
+        revision: data.revision,
+        changes: Object.values(data.records).filter(record => record.revision > since).map(toSyncRecord),
+      };
+    },
+    async close() {
+      await file.flush();
+    },
+  };
+}
+
+/**
+ * Stores records in SQLite through the built-in node:sqlite module (Node 22.5 or later).
+ */
+export async function createSqliteStore(filePath: string): Promise<SyncStore> {
+  const { DatabaseSync } = await import('node:sqlite');
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const db = new DatabaseSync(filePath);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS spaces (space TEXT PRIMARY KEY, revision INTEGER NOT NULL);
+    CREATE TABLE IF NOT EXISTS records (
+      space TEXT NOT NULL,
+      id TEXT NOT NULL,
+      value TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      device_id TEXT NOT NULL,
+      revision INTEGER NOT NULL,
+      PRIMARY KEY (space, id)
+    );
+    CREATE INDEX IF NOT EXISTS records_by_revision ON records (space, revision);
+  `);
+
+  const getRevision = db.prepare('SELECT revision FROM spaces WHERE space = ?');
+  const setRevision = db.prepare('INSERT INTO spaces (space, revision) VALUES (?, ?) ON CONFLICT (space) DO UPDATE SET revision = excluded.revision');
+  const getRecord = db.prepare('SELECT id, value, updated_at, device_id, revision FROM records WHERE space = ? AND id = ?');
+  const putRecord = db.prepare(`
+    INSERT INTO records (space, id, value, updated_at, device_id, revision) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (space, id) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at,
+      device_id = excluded.device_id, revision = excluded.revision
+  `);
+  const getChanges = db.prepare('SELECT id, value, updated_at, device_id, revision FROM records WHERE space = ? AND revision > ? ORDER BY revision');
+
+  type Row = { id: string; value: string; updated_at: number; device_id: string; revision: number };
+  const fromRow = (row: Row): StoredRecord => ({
+    id: row.id,
+    value: JSON.parse(row.value),
+    updatedAt: row.updated_at,
+    deviceId: row.device_id,
+    revision: row.revision,
+  });
+
+  return {
+    async applyChanges(space, changes) {
+      db.exec('BEGIN');
+      try {
+        let revision = (getRevision.get(space) as { revision: number } | undefined)?.revision ?? 0;
+        const results: SyncRecord[] = [];
+        for (const change of changes) {
+          const row = getRecord.get(space, change.id) as Row | undefined;
+          const existing = row && toSyncRecord(fromRow(row));
+          const resolved = resolveRecord(existing, change);
+          if (resolved) {
+            revision += 1;
+            putRecord.run(space, resolved.id, JSON.stringify(resolved.value), resolved.updatedAt, resolved.deviceId, revision);
+          }
+          results.push((resolved || existing) as SyncRecord);
+        }
+        setRevision.run(space, revision);
+        db.exec('COMMIT');
+        return results;
+      } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+      }
+    },
+    async getChangesSince(space, since) {
+      const revision = (getRevision.get(space) as { revision: number } | undefined)?.revision ?? 0;
+      const rows = getChanges.all(space, since) as Row[];
+      return { revision, changes: rows.map(row => toSyncRecord(fromRow(row))) };
+    },
+    async close() {
+      db.close();
+    },
+  };
+}
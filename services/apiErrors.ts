@@ -0,0 +1,76 @@
+export type ApiErrorKind = 'auth' | 'quota' | 'network' | 'server' | 'parse' | 'unknown';
+
+export class GeminiApiError extends Error {
+    readonly kind: ApiErrorKind;
+    readonly status?: number;
+
+    constructor(kind: ApiErrorKind, message: string, status?: number) {
+        super(message);
+        this.name = 'GeminiApiError';
+        this.kind = kind;
+        this.status = status;
+    }
+
+    get isRetryable(): boolean {
+        return this.kind === 'quota' || this.kind === 'server' || this.kind === 'network';
+    }
+}
+
+export function isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === 'AbortError';
+}
+
+export function createAbortError(): Error {
+    return new DOMException('요청이 취소되었습니다.', 'AbortError');
+}
+
+/**
+ * Maps errors thrown by the Gemini SDK, fetch or JSON.parse onto a GeminiApiError kind.
+ */
+export function classifyError(error: unknown): GeminiApiError {
+    if (error instanceof GeminiApiError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+
+    if (error instanceof SyntaxError) {
+        return new GeminiApiError('parse', message);
+    }
+    if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)) {
+        return new GeminiApiError('auth', message, status);
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+        return new GeminiApiError('quota', message, status ?? 429);
+    }
+    if (status !== undefined && status >= 500) {
+        return new GeminiApiError('server', message, status);
+    }
+    if (error instanceof TypeError || /Failed to fetch|NetworkError|network/i.test(message)) {
+        return new GeminiApiError('network', message, status);
+    }
+    return new GeminiApiError('unknown', message, status);
+}
+
+/**
+ * A user-facing message for errors worth surfacing in the UI, or null for
+ * cancellations and errors that are not specific enough to explain.
+ */
+export function getApiErrorMessage(error: unknown): string | null {
+    if (isAbortError(error)) return null;
+    if (!(error instanceof GeminiApiError)) return null;
+
+    switch (error.kind) {
+        case 'auth':
+            return error.message.includes('API 키') ? error.message : 'API 키가 올바르지 않거나 권한이 없습니다. API 키를 확인해주세요.';
+        case 'quota':
+            return 'API 사용량 한도를 초과했습니다. 잠시 후 다시 시도해주세요.';
+        case 'network':
+            return '네트워크 연결에 문제가 있습니다. 연결 상태를 확인해주세요.';
+        case 'server':
+            return 'Gemini 서버에 일시적인 문제가 있습니다. 잠시 후 다시 시도해주세요.';
+        case 'parse':
+            return '모델 응답을 해석하지 못했습니다. 다시 시도해주세요.';
+        default:
+            return null;
+    }
+}
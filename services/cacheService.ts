@@ -0,0 +1,291 @@
+import { isAbortError } from './apiErrors';
+import { promoteRequest, ScheduleOptions } from './requestScheduler';
+
+const DB_NAME = 'bible-study-cache';
+const DB_VERSION = 1;
+// Bump when the shape of cached values changes; older entries are then ignored and purged.
+const CACHE_VERSION = 2;
+
+const ENTRY_STORE = 'entries';
+const META_STORE = 'meta';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+export type CacheNamespace = 'passage' | 'original-passage' | 'definition' | 'verse-analysis' | 'interlinear' | 'concordance' | 'rendering' | 'cross-reference' | 'word-audio' | 'verse-audio';
+
+const TTL_MS: Record<CacheNamespace, number> = {
+    'passage': 90 * DAY_MS,
+    'original-passage': 90 * DAY_MS,
+    'definition': 30 * DAY_MS,
+    'verse-analysis': 30 * DAY_MS,
+    'interlinear': 90 * DAY_MS,
+    'concordance': 90 * DAY_MS,
+    'rendering': 90 * DAY_MS,
+    'cross-reference': 90 * DAY_MS,
+    'word-audio': 30 * DAY_MS,
+    'verse-audio': 30 * DAY_MS,
+};
+
+interface CacheMeta {
+    key: string;
+    namespace: CacheNamespace;
+    version: number;
+    size: number;
+    createdAt: number;
+    lastAccessed: number;
+    // Pinned entries were downloaded for offline use: they never expire and are never evicted.
+    pinned?: boolean;
+}
+
+export interface CacheOptions {
+    pinned?: boolean;
+}
+
+export class OfflineCacheMissError extends Error {
+    constructor() {
+        super('오프라인 상태입니다. 이 항목은 오프라인용으로 저장되지 않았습니다.');
+        this.name = 'OfflineCacheMissError';
+    }
+}
+
+export interface CacheStats {
+    entries: number;
+    bytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const pending = new Map<string, Promise<unknown>>();
+
+function openDatabase(): Promise<IDBDatabase | null> {
+    if (!dbPromise) {
+        dbPromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') {
+                resolve(null);
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+                    db.createObjectStore(ENTRY_STORE);
+                }
+                if (!db.objectStoreNames.contains(META_STORE)) {
+                    const meta = db.createObjectStore(META_STORE, { keyPath: 'key' });
+                    meta.createIndex('lastAccessed', 'lastAccessed');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn('IndexedDB is unavailable; caching is disabled.', request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+function estimateSize(value: unknown): number {
+    // Character count; most cached values are ASCII (base64 audio, JSON), so this is close enough for quota bookkeeping.
+    return (typeof value === 'string' ? value : JSON.stringify(value)).length;
+}
+
+export function isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * A short, stable hash for building cache keys from long inputs (verse text, passage context).
+ */
+export function hashKey(input: string): string {
+    let hash = 5381;
+    for (let i = 0; i < input.length; i++) {
+        hash = ((hash << 5) + hash + input.charCodeAt(i)) | 0;
+    }
+    return `${(hash >>> 0).toString(36)}${input.length.toString(36)}`;
+}
+
+export async function getCached<T>(namespace: CacheNamespace, key: string, options: CacheOptions = {}): Promise<T | undefined> {
+    const db = await openDatabase();
+    if (!db) return undefined;
+    const fullKey = `${namespace}:${key}`;
+
+    try {
+        const tx = db.transaction([ENTRY_STORE, META_STORE], 'readwrite');
+        const metaStore = tx.objectStore(META_STORE);
+        const meta = await promisify<CacheMeta | undefined>(metaStore.get(fullKey));
+        if (!meta) return undefined;
+
+        const isExpired = !meta.pinned && Date.now() - meta.createdAt > TTL_MS[namespace];
+        if (meta.version !== CACHE_VERSION || isExpired) {
+            metaStore.delete(fullKey);
+            tx.objectStore(ENTRY_STORE).delete(fullKey);
+            await transactionDone(tx);
+            return undefined;
+        }
+
+        const value = await promisify<T | undefined>(tx.objectStore(ENTRY_STORE).get(fullKey));
+        metaStore.put({ ...meta, lastAccessed: Date.now(), pinned: meta.pinned || options.pinned });
+        await transactionDone(tx);
+        return value;
+    } catch (error) {
+        console.warn(`Failed to read cache entry ${fullKey}`, error);
+        return undefined;
+    }
+}
+
+export async function setCached<T>(namespace: CacheNamespace, key: string, value: T, options: CacheOptions = {}): Promise<void> {
+    const db = await openDatabase();
+    if (!db) return;
+    const fullKey = `${namespace}:${key}`;
+    const now = Date.now();
+    const meta: CacheMeta = {
+        key: fullKey,
+        namespace,
+        version: CACHE_VERSION,
+        size: estimateSize(value),
+        createdAt: now,
+        lastAccessed: now,
+        pinned: options.pinned,
+    };
+
+    try {
+        const tx = db.transaction([ENTRY_STORE, META_STORE], 'readwrite');
+        tx.objectStore(ENTRY_STORE).put(value, fullKey);
+        tx.objectStore(META_STORE).put(meta);
+        await transactionDone(tx);
+        await evictIfNeeded(db);
+    } catch (error) {
+        console.warn(`Failed to write cache entry ${fullKey}`, error);
+    }
+}
+
+/**
+ * Returns the cached value for the key, or runs the fetcher and caches its result.
+ * Concurrent calls for the same key share a single fetch. While offline, a cache miss
+ * throws OfflineCacheMissError instead of calling the fetcher.
+ */
+export async function withCache<T>(namespace: CacheNamespace, key: string, fetcher: () => Promise<T>, options: CacheOptions & ScheduleOptions = {}): Promise<T> {
+    const fullKey = `${namespace}:${key}`;
+    const inFlight = pending.get(fullKey);
+    if (inFlight) {
+        if (options.priority !== 'prefetch') {
+            promoteRequest(fullKey);
+        }
+        let value: T;
+        try {
+            value = await (inFlight as Promise<T>);
+        } catch (error) {
+            // The other caller cancelled its request; that should not cancel this one.
+            if (isAbortError(error) && !options.signal?.aborted) {
+                return withCache(namespace, key, fetcher, options);
+            }
+            throw error;
+        }
+        if (options.pinned) {
+            // Re-read to mark the entry stored by the other caller as pinned.
+            await getCached<T>(namespace, key, options);
+        }
+        return value;
+    }
+
+    const promise = (async () => {
+        const cached = await getCached<T>(namespace, key, options);
+        if (cached !== undefined) {
+            return cached;
+        }
+        if (isOffline()) {
+            throw new OfflineCacheMissError();
+        }
+        const value = await fetcher();
+        await setCached(namespace, key, value, options);
+        return value;
+    })();
+
+    pending.set(fullKey, promise);
+    try {
+        return await promise;
+    } finally {
+        pending.delete(fullKey);
+    }
+}
+
+async function evictIfNeeded(db: IDBDatabase) {
+    const tx = db.transaction([ENTRY_STORE, META_STORE], 'readwrite');
+    const metaStore = tx.objectStore(META_STORE);
+    const entries = await promisify<CacheMeta[]>(metaStore.index('lastAccessed').getAll());
+
+    const evictable = entries.filter(meta => !meta.pinned);
+    let total = evictable.reduce((sum, meta) => sum + meta.size, 0);
+    // Oldest access first, so the least recently used entries are evicted.
+    for (const meta of evictable) {
+        if (total <= MAX_CACHE_BYTES) break;
+        metaStore.delete(meta.key);
+        tx.objectStore(ENTRY_STORE).delete(meta.key);
+        total -= meta.size;
+    }
+    await transactionDone(tx);
+}
+
+/**
+ * Every live entry of a namespace, with keys relative to the namespace. Used to search
+ * what has been cached or downloaded without knowing the keys up front.
+ */
+export async function getCachedEntries<T>(namespace: CacheNamespace): Promise<{ key: string; value: T }[]> {
+    const db = await openDatabase();
+    if (!db) return [];
+
+    try {
+        const tx = db.transaction([ENTRY_STORE, META_STORE], 'readonly');
+        const metas = await promisify<CacheMeta[]>(tx.objectStore(META_STORE).getAll());
+        const now = Date.now();
+        const live = metas.filter(meta => meta.namespace === namespace && meta.version === CACHE_VERSION
+            && (meta.pinned || now - meta.createdAt <= TTL_MS[namespace]));
+        const values = await Promise.all(live.map(meta => promisify<T | undefined>(tx.objectStore(ENTRY_STORE).get(meta.key))));
+        return live.flatMap((meta, index) => {
+            const value = values[index];
+            return value === undefined ? [] : [{ key: meta.key.slice(namespace.length + 1), value }];
+        });
+    } catch (error) {
+        console.warn(`Failed to read cache entries of ${namespace}`, error);
+        return [];
+    }
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+    const db = await openDatabase();
+    if (!db) return { entries: 0, bytes: 0 };
+
+    const tx = db.transaction(META_STORE, 'readonly');
+    const entries = await promisify<CacheMeta[]>(tx.objectStore(META_STORE).getAll());
+    return {
+        entries: entries.length,
+        bytes: entries.reduce((sum, meta) => sum + meta.size, 0),
+    };
+}
+
+export async function clearCache(): Promise<void> {
+    pending.clear();
+    const db = await openDatabase();
+    if (!db) return;
+
+    const tx = db.transaction([ENTRY_STORE, META_STORE], 'readwrite');
+    tx.objectStore(ENTRY_STORE).clear();
+    tx.objectStore(META_STORE).clear();
+    await transactionDone(tx);
+}
@@ -0,0 +1,102 @@
+import { ConcordanceLemma, ConcordanceOccurrence, TaggedWord, VerseRef, WordDefinition, OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS } from '../types';
+import { getTextProvider } from './geminiService';
+import { getCached, setCached } from './cacheService';
+import { normalizeStrongsNumber } from './lexiconService';
+import { findTaggedWord, normalizeOriginalWord } from '../utils/originalTextUtils';
+
+type Testament = '구약성경' | '신약성경';
+
+// Lemma key -> occurrences, each encoded as "book|chapter|verse|word" to keep the cached index small.
+type ConcordanceIndex = Record<string, string[]>;
+
+const indexes = new Map<Testament, Promise<ConcordanceIndex>>();
+
+export function isConcordanceAvailable(): boolean {
+  return Boolean(getTextProvider().original.getTaggedBook);
+}
+
+/**
+ * WLC tags every word with a Strong's number; MorphGNT only has the dictionary form.
+ */
+function wordKey(word: TaggedWord): string {
+  return normalizeStrongsNumber(word.strongsNumber) || normalizeOriginalWord(word.lemma);
+}
+
+async function buildIndex(testament: Testament, onProgress?: (done: number, total: number) => void): Promise<ConcordanceIndex> {
+  const provider = getTextProvider().original;
+  if (!provider.getTaggedBook) {
+    throw new Error('원어 용례 검색에는 로컬 원어 본문(TEXT_SOURCE=local)이 필요합니다.');
+  }
+  const books = testament === '구약성경' ? OLD_TESTAMENT_BOOKS : NEW_TESTAMENT_BOOKS;
+  const index: ConcordanceIndex = {};
+  for (const [done, book] of books.entries()) {
+    onProgress?.(done, books.length);
+    const chapters = await provider.getTaggedBook(book, testament);
+    for (const [chapter, verses] of Object.entries(chapters)) {
+      for (const [verse, words] of Object.entries(verses)) {
+        for (const word of words) {
+          const key = wordKey(word);
+          if (key) (index[key] ||= []).push(`${book}|${chapter}|${verse}|${word.text}`);
+        }
+      }
+    }
+  }
+  onProgress?.(books.length, books.length);
+  return index;
+}
+
+/**
+ * Loads the lemma index of a testament, building it from the tagged text on first use.
+ * The built index is kept in the cache, so later sessions skip the parsing.
+ */
+export function loadConcordanceIndex(testament: Testament, onProgress?: (done: number, total: number) => void): Promise<ConcordanceIndex> {
+  let index = indexes.get(testament);
+  if (!index) {
+    const cacheKey = `${getTextProvider().original.id}:${testament}`;
+    index = getCached<ConcordanceIndex>('concordance', cacheKey).then(async cached => {
+      if (cached) return cached;
+      const built = await buildIndex(testament, onProgress);
+      await setCached('concordance', cacheKey, built);
+      return built;
+    });
+    // Drop failed builds so a later search can retry.
+    index.catch(() => indexes.delete(testament));
+    indexes.set(testament, index);
+  }
+  return index;
+}
+
+/**
+ * Works out which lemma a defined word belongs to. The tagged verse is preferred, since it
+ * pins down the exact lemma; the model's lemma and Strong's number are the fallback.
+ */
+export async function resolveConcordanceLemma(definition: WordDefinition, ref: VerseRef, testament: Testament): Promise<ConcordanceLemma | null> {
+  const provider = getTextProvider().original;
+  const words = provider.getTaggedVerse
+    ? await provider.getTaggedVerse(ref.book, ref.chapter, ref.verse, testament)
+    : [];
+  const tagged = findTaggedWord(words, definition.originalWord);
+  const strongsNumber = normalizeStrongsNumber(tagged?.strongsNumber || definition.strongsNumber);
+
+  if (testament === '구약성경') {
+    return strongsNumber
+      ? { key: strongsNumber, lemma: definition.lemma || definition.originalWord, strongsNumber, testament }
+      : null;
+  }
+  const lemma = tagged?.lemma || definition.lemma;
+  return lemma
+    ? { key: normalizeOriginalWord(lemma), lemma, strongsNumber: strongsNumber || undefined, testament }
+    : null;
+}
+
+/**
+ * Every occurrence of the lemma in its testament, in canonical order. The same form repeated
+ * within a verse is listed once.
+ */
+export async function findOccurrences(lemma: ConcordanceLemma, onProgress?: (done: number, total: number) => void): Promise<ConcordanceOccurrence[]> {
+  const index = await loadConcordanceIndex(lemma.testament, onProgress);
+  return [...new Set(index[lemma.key] || [])].map(entry => {
+    const [book, chapter, verse, word] = entry.split('|');
+    return { book, chapter, verse, word };
+  });
+}
@@ -0,0 +1,131 @@
+import { CrossReference, CrossReferenceKind, PassageRange, VerseRef } from '../types';
+import { BOOK_CODES } from '../data/bookCodes';
+import { OLD_TESTAMENT_QUOTATIONS, PARALLEL_PASSAGES } from '../data/crossReferences';
+import { parseReference } from '../utils/referenceParser';
+import { getChapterVerseBounds, getRangeChapters, isValidRange, isVerseInRange } from '../utils/referenceUtils';
+import { getCrossReferenceSuggestions, RequestOptions } from './geminiService';
+
+// Chapter number -> verse number -> OSIS references ("John.1.1" or "John.1.1-John.1.3"), most relevant first.
+type CrossReferenceBook = Record<string, Record<string, string[]>>;
+
+const BOOKS_BY_OSIS = new Map(Object.entries(BOOK_CODES).map(([book, { osis }]) => [osis, book]));
+
+const datasets = new Map<string, Promise<CrossReferenceBook>>();
+
+const toRange = (reference: string): PassageRange | null => {
+  const parsed = parseReference(reference);
+  return 'error' in parsed ? null : parsed.range;
+};
+
+const curatedParallels = PARALLEL_PASSAGES.map(group => group.map(toRange).filter((range): range is PassageRange => !!range));
+const curatedQuotations = OLD_TESTAMENT_QUOTATIONS.map(pair => pair.map(toRange))
+  .filter((pair): pair is [PassageRange, PassageRange] => !!pair[0] && !!pair[1]);
+
+/**
+ * "John.1.1" or "John.1.1-John.1.3" -> a range. References spanning two books, or outside
+ * BIBLE_STRUCTURE, are dropped.
+ */
+export function parseOsisReference(reference: string): PassageRange | null {
+  const [start, end = start] = reference.trim().split('-').map(part => part.split('.'));
+  if (start.length !== 3 || end.length !== 3) return null;
+  const book = BOOKS_BY_OSIS.get(start[0]);
+  if (!book || BOOKS_BY_OSIS.get(end[0]) !== book) return null;
+  const range: PassageRange = {
+    start: { book, chapter: start[1], verse: start[2] },
+    end: { book, chapter: end[1], verse: end[2] },
+  };
+  return isValidRange(range) ? range : null;
+}
+
+function rangesOverlap(a: PassageRange, b: PassageRange): boolean {
+  if (a.start.book !== b.start.book) return false;
+  return getRangeChapters(a).some(chapter => {
+    if (!getRangeChapters(b).includes(chapter)) return false;
+    const first = getChapterVerseBounds(a, chapter);
+    const second = getChapterVerseBounds(b, chapter);
+    return first.from <= second.to && second.from <= first.to;
+  });
+}
+
+const containsVerse = (range: PassageRange, { book, chapter, verse }: VerseRef) =>
+  range.start.book === book && isVerseInRange(range, chapter, verse);
+
+function loadDataset(book: string): Promise<CrossReferenceBook> {
+  const { osis } = BOOK_CODES[book];
+  let dataset = datasets.get(osis);
+  if (!dataset) {
+    const url = `/crossrefs/${osis}.json`;
+    dataset = fetch(url).then(response => {
+      if (!response.ok) {
+        throw new Error(`관련 구절 자료를 불러오지 못했습니다 (${response.status}): ${url}`);
+      }
+      return response.json();
+    });
+    // A missing file stays missing for the session: remembered, and warned about once.
+    dataset.catch(error => console.warn(`No cross-reference data for ${book}`, error));
+    datasets.set(osis, dataset);
+  }
+  return dataset;
+}
+
+function getCuratedReferences(ref: VerseRef): CrossReference[] {
+  const references: CrossReference[] = [];
+  for (const group of curatedParallels) {
+    if (!group.some(range => containsVerse(range, ref))) continue;
+    for (const range of group) {
+      if (!containsVerse(range, ref)) references.push({ kind: 'parallel', range, source: 'dataset' });
+    }
+  }
+  for (const [quotation, quoted] of curatedQuotations) {
+    if (containsVerse(quotation, ref)) references.push({ kind: 'quotation', range: quoted, source: 'dataset' });
+    if (containsVerse(quoted, ref)) references.push({ kind: 'quotation', range: quotation, source: 'dataset' });
+  }
+  return references;
+}
+
+// Keeps the first of overlapping references, so a curated parallel wins over the same passage listed as thematic.
+function dedupe(references: CrossReference[], ref: VerseRef): CrossReference[] {
+  const kept: CrossReference[] = [];
+  for (const reference of references) {
+    if (containsVerse(reference.range, ref)) continue;
+    if (kept.some(other => rangesOverlap(other.range, reference.range))) continue;
+    kept.push(reference);
+  }
+  return kept;
+}
+
+/**
+ * Cross-references of a verse from bundled data: the curated parallels and quotations, plus
+ * thematic references from `public/crossrefs/<OSIS book>.json` (see scripts/generate-crossrefs.ts).
+ * `hasDataset` is false when the thematic file could not be loaded; a failed load is not
+ * retried until the page is reloaded.
+ */
+export async function getCrossReferences(ref: VerseRef): Promise<{ references: CrossReference[]; hasDataset: boolean }> {
+  const curated = getCuratedReferences(ref);
+  try {
+    const dataset = await loadDataset(ref.book);
+    const thematic = (dataset[ref.chapter]?.[ref.verse] || [])
+      .map(parseOsisReference)
+      .filter((range): range is PassageRange => !!range)
+      .map((range): CrossReference => ({ kind: 'thematic', range, source: 'dataset' }));
+    return { references: dedupe([...curated, ...thematic], ref), hasDataset: true };
+  } catch {
+    return { references: dedupe(curated, ref), hasDataset: false };
+  }
+}
+
+const MODEL_KINDS: CrossReferenceKind[] = ['parallel', 'quotation', 'thematic'];
+
+/**
+ * Asks the model for related passages; suggestions that do not parse as a reference are dropped.
+ */
+export async function getModelCrossReferences(ref: VerseRef, verseText: string, options?: RequestOptions): Promise<CrossReference[]> {
+  const suggestions = await getCrossReferenceSuggestions(ref.book, ref.chapter, ref.verse, verseText, options);
+  const references = suggestions.flatMap((suggestion): CrossReference[] => {
+    const range = toRange(suggestion.reference);
+    if (!range) return [];
+    const kind = MODEL_KINDS.find(value => value === suggestion.kind) ?? 'thematic';
+    return [{ kind, range, source: 'model', note: suggestion.note }];
+  });
+  return dedupe(references, ref);
+}
@@ -1,5 +1,17 @@
 import { GoogleGenAI, Modality, Type, GenerateContentResponse } from '@google/genai';
-import { WordDefinition, OriginalPassage, VerseAnalysisItem } from '../types';
+import { WordDefinition, OriginalPassage, VerseAnalysisItem, KoreanPassage, ChapterInterlinear, InterlinearWord, WordMorphology, Translation, TranslationId } from '../types';
+import { BIBLE_STRUCTURE } from '../data/bibleStructure';
+import { DEFAULT_TRANSLATION, getTranslation } from '../data/translations';
+import { parseKoreanPassage, parseOriginalPassage, checkVerseCount, mergeVerses, versesToText, versesToOriginalPassage, originalPassageToVerses } from '../utils/passageNormalizer';
+import { KoreanTextProvider, OriginalTextProvider, TextProvider } from './textProvider';
+import { createLocalTextProvider } from './localTextProvider';
+import { getCached, setCached, withCache, hashKey, isOffline, CacheOptions, CacheNamespace, OfflineCacheMissError } from './cacheService';
+import { scheduleRequest, ScheduleOptions } from './requestScheduler';
+import { GeminiApiError } from './apiErrors';
+import { detectScript } from '../utils/searchUtils';
+import { NOT_APPLICABLE } from '../utils/morphologyUtils';
+
+export interface RequestOptions extends CacheOptions, ScheduleOptions {}
 
 let ai: GoogleGenAI | null = null;
 let currentApiKey: string | null = null;
@@ -8,7 +20,7 @@ function getAiClient(): GoogleGenAI {
     const apiKey = process.env.API_KEY || sessionStorage.getItem('GEMINI_API_KEY');
 
     if (!apiKey) {
-        throw new Error("API 키가 설정되지 않았습니다. API 키를 입력하거나, 배포 플랫폼(Vercel 등)의 환경 변수 설정을 확인해주세요.");
+        throw new GeminiApiError('auth', "API 키가 설정되지 않았습니다. API 키를 입력하거나, 배포 플랫폼(Vercel 등)의 환경 변수 설정을 확인해주세요.");
     }
 
     if (!ai || currentApiKey !== apiKey) {
@@ -19,6 +31,39 @@ function getAiClient(): GoogleGenAI {
     return ai;
 }
 
+/**
+ * Runs a Gemini call through the request scheduler. The signal handed to the call
+ * must be passed on as config.abortSignal so cancellation reaches the SDK.
+ */
+function runGemini<T>(request: (ai: GoogleGenAI, signal: AbortSignal) => Promise<T>, options?: ScheduleOptions): Promise<T> {
+    return scheduleRequest(signal => request(getAiClient(), signal), options);
+}
+
+function parseJsonResponse<T>(text: string): T {
+    try {
+        return JSON.parse(text.trim());
+    } catch (error) {
+        throw new GeminiApiError('parse', error instanceof Error ? error.message : String(error));
+    }
+}
+
+function parseOriginalResponse(text: string): OriginalPassage {
+    try {
+        return versesToOriginalPassage(parseOriginalPassage(text));
+    } catch (error) {
+        throw new GeminiApiError('parse', error instanceof Error ? error.message : String(error));
+    }
+}
+
+/**
+ * withCache for Gemini-backed values: the cache key doubles as the scheduler key, so a
+ * user request joining an in-flight prefetch promotes it in the queue.
+ */
+function withScheduledCache<T>(namespace: CacheNamespace, key: string, fetcher: (options: ScheduleOptions) => Promise<T>, options: RequestOptions = {}): Promise<T> {
+    const schedule: ScheduleOptions = { priority: options.priority, signal: options.signal, key: `${namespace}:${key}` };
+    return withCache(namespace, key, () => fetcher(schedule), options);
+}
+
 export function setSessionApiKey(key: string) {
     sessionStorage.setItem('GEMINI_API_KEY', key);
     // Invalidate the old client instance so a new one is created on next call
@@ -36,82 +81,266 @@ const definitionSchema = {
     number: { type: Type.STRING, description: '문법적 수 (단수, 복수, 또는 해당 없음).' },
     case: { type: Type.STRING, description: '문법적 격 (주격, 소유격 등, 또는 해당 없음).' },
     basicMeaning: { type: Type.STRING, description: '단어의 핵심 의미와 주요 용법을 간결하게 설명하는 한글 정의.' },
+    lemma: { type: Type.STRING, description: '원어 단어의 사전형(기본형).' },
+    strongsNumber: { type: Type.STRING, description: "스트롱 번호 (예: 'H7225', 'G3056'). 모르면 빈 문자열." },
+    morphologyCode: { type: Type.STRING, description: "형태 분석 코드. 히브리어는 OSHB 형식(예: 'HNcfsa'), 그리스어는 Robinson 형식(예: 'N-NSM')." },
+    morphology: {
+      type: Type.OBJECT,
+      description: "언어별 형태 정보. 해당하지 않는 항목은 '해당 없음'.",
+      properties: {
+        stem: { type: Type.STRING, description: "히브리어 동사의 어간(binyan), 예: '칼 (Qal)', '피엘 (Piel)', '히필 (Hiphil)'." },
+        conjugation: { type: Type.STRING, description: "히브리어 동사의 활용형, 예: '완료 (Qatal)', '와우 연속 미완료 (Wayyiqtol)', '명령형 (Imperative)'." },
+        tense: { type: Type.STRING, description: "그리스어 동사의 시제: 현재, 미완료, 미래, 부정과거, 완료, 과거완료." },
+        voice: { type: Type.STRING, description: '그리스어 동사의 태: 능동태, 중간태, 수동태.' },
+        mood: { type: Type.STRING, description: '그리스어 동사의 법: 직설법, 명령법, 가정법, 희구법, 부정사, 분사.' },
+        person: { type: Type.STRING, description: '동사나 대명사의 인칭: 1인칭, 2인칭, 3인칭.' },
+        state: { type: Type.STRING, description: '히브리어 명사·형용사·분사의 상태: 절대형, 연계형.' },
+        definiteness: { type: Type.STRING, description: "명사류의 한정성, 예: '한정 (관사)', '한정 (인칭 접미사)', '비한정'." },
+        suffix: { type: Type.STRING, description: "히브리어 인칭 접미사, 예: '3인칭 남성 단수'. 없으면 '해당 없음'." },
+      },
+      required: ['stem', 'conjugation', 'tense', 'voice', 'mood', 'person', 'state', 'definiteness', 'suffix'],
+    },
   },
-  required: ['originalWord', 'transliteration', 'partOfSpeech', 'gender', 'number', 'case', 'basicMeaning'],
+  required: ['originalWord', 'transliteration', 'partOfSpeech', 'gender', 'number', 'case', 'basicMeaning', 'lemma', 'strongsNumber', 'morphologyCode', 'morphology'],
 };
 
-export async function* streamPassageText(book: string, chapter: string, verseCount?: number): AsyncGenerator<string> {
-    const cacheKey = `passage:${book}:${chapter}`;
-    const cachedText = sessionStorage.getItem(cacheKey);
+const translationNote = (translation: Translation) =>
+    translation.language === 'en' ? ' 영어 번역본이므로 본문은 번역하지 말고 영어 원문 그대로 제공해 주세요.' : '';
 
-    if (cachedText) {
-        yield cachedText;
-        return;
-    }
-    
-    const ai = getAiClient();
-    const model = 'gemini-2.5-flash';
-    
-    let prompt = `성경 ${book} ${chapter}장의 본문을 '개역개정판'으로 제공해 주세요.`;
-    if (verseCount) {
-        prompt += ` 이 장은 총 ${verseCount}절로 이루어져 있습니다. 1절부터 ${verseCount}절까지 모든 내용을 빠짐없이 포함해주세요.`;
-    }
-    prompt += ` 각 절은 줄을 바꿔서 절 번호와 마침표로 시작하게 해주세요 (예: "1. [절 내용]"). 다른 제목이나 설명 없이 본문만 포함해주세요.`;
+const geminiKoreanTextProvider: KoreanTextProvider = {
+    id: 'gemini',
+    async *streamChapter(book: string, chapter: string, translationId: TranslationId, verseCount?: number, options?: ScheduleOptions) {
+        const model = 'gemini-2.5-flash';
+        const translation = getTranslation(translationId);
 
-    const responseStream = await ai.models.generateContentStream({
-        model,
-        contents: prompt,
+        let prompt = `성경 ${book} ${chapter}장의 본문을 '${translation.promptName}' 번역으로 제공해 주세요.${translationNote(translation)}`;
+        if (verseCount) {
+            prompt += ` 이 장은 총 ${verseCount}절로 이루어져 있습니다. 1절부터 ${verseCount}절까지 모든 내용을 빠짐없이 포함해주세요.`;
+        }
+        prompt += ` 각 절은 줄을 바꿔서 절 번호와 마침표로 시작하게 해주세요 (예: "1. [절 내용]"). 다른 제목이나 설명 없이 본문만 포함해주세요.`;
+
+        // Only opening the stream is scheduled and retried; chunks are read outside the queue.
+        const responseStream = await runGemini((ai, signal) => ai.models.generateContentStream({
+            model,
+            contents: prompt,
+            config: { abortSignal: signal },
+        }), options);
+
+        for await (const chunk of responseStream) {
+            const chunkText = chunk.text;
+            if (chunkText) {
+                yield chunkText;
+            }
+        }
+    },
+
+    async fetchVerses(book: string, chapter: string, translationId: TranslationId, verseNumbers: string[], options?: ScheduleOptions): Promise<string> {
+        const model = 'gemini-2.5-flash';
+        const translation = getTranslation(translationId);
+        const prompt = `성경 ${book} ${chapter}장 중 ${verseNumbers.join(', ')}절의 본문만 '${translation.promptName}' 번역으로 제공해 주세요.${translationNote(translation)} 각 절은 줄을 바꿔서 절 번호와 마침표로 시작하게 해주세요 (예: "${verseNumbers[0]}. [절 내용]"). 여러 절을 한 줄에 합치지 말고, 다른 제목이나 설명 없이 본문만 포함해주세요.`;
+
+        const response: GenerateContentResponse = await runGemini((ai, signal) => ai.models.generateContent({
+            model,
+            contents: prompt,
+            config: { abortSignal: signal },
+        }), options);
+        return response.text;
+    },
+};
+
+const geminiOriginalTextProvider: OriginalTextProvider = {
+    id: 'gemini',
+    async getChapter(book: string, chapter: string, testament: '구약성경' | '신약성경', options?: ScheduleOptions): Promise<OriginalPassage> {
+        const model = 'gemini-2.5-flash';
+        const language = testament === '구약성경' ? '히브리어' : '헬라어(코이네 그리스어)';
+        const prompt = `성경 ${book} ${chapter}장의 본문을 원어(${language})로 제공해 주세요. 각 절의 내용은 JSON 형식으로, 절 번호를 키로 하고 절 내용을 값으로 하는 객체로 만들어 주세요. 다른 제목이나 설명 없이 JSON 객체만 반환해주세요. 예: {"1": "원문 내용...", "2": "원문 내용..."}`;
+
+        const response: GenerateContentResponse = await runGemini((ai, signal) => ai.models.generateContent({
+            model,
+            contents: prompt,
+            config: { abortSignal: signal },
+        }), options);
+
+        return parseOriginalResponse(response.text);
+    },
+
+    async getVerses(book: string, chapter: string, testament: '구약성경' | '신약성경', verseNumbers: string[], options?: ScheduleOptions): Promise<OriginalPassage> {
+        const model = 'gemini-2.5-flash';
+        const language = testament === '구약성경' ? '히브리어' : '헬라어(코이네 그리스어)';
+        const prompt = `성경 ${book} ${chapter}장 중 ${verseNumbers.join(', ')}절의 본문을 원어(${language})로 제공해 주세요. 절 번호를 키로 하고 절 내용을 값으로 하는 JSON 객체만 반환해주세요. 예: {"${verseNumbers[0]}": "원문 내용..."}`;
+
+        const response: GenerateContentResponse = await runGemini((ai, signal) => ai.models.generateContent({
+            model,
+            contents: prompt,
+            config: { abortSignal: signal },
+        }), options);
+
+        return parseOriginalResponse(response.text);
+    },
+};
+
+function createConfiguredTextProvider(): TextProvider {
+    const gemini: TextProvider = { korean: geminiKoreanTextProvider, original: geminiOriginalTextProvider };
+    if (process.env.TEXT_SOURCE !== 'local') {
+        return gemini;
+    }
+    const local = createLocalTextProvider({
+        baseUrl: process.env.LOCAL_TEXT_BASE_URL || '/texts',
+        koreanFormat: process.env.LOCAL_KOREAN_FORMAT === 'usfm' ? 'usfm' : 'json',
     });
+    return {
+        korean: local.korean,
+        original: process.env.LOCAL_ORIGINAL_TEXT === 'false' ? gemini.original : local.original,
+    };
+}
 
-    let fullText = '';
-    for await (const chunk of responseStream) {
-        const chunkText = chunk.text;
-        if (chunkText) {
-            fullText += chunkText;
-            yield chunkText;
+let textProvider: TextProvider = createConfiguredTextProvider();
+
+export function getTextProvider(): TextProvider {
+    return textProvider;
+}
+
+export function setTextProvider(provider: Partial<TextProvider>) {
+    textProvider = { ...textProvider, ...provider };
+}
+
+// Translations the configured provider does not carry (e.g. beside local 개역개정 files) come from the model.
+function getKoreanTextProvider(translation: TranslationId): KoreanTextProvider {
+    const provider = textProvider.korean;
+    return !provider.translations || provider.translations.includes(translation) ? provider : geminiKoreanTextProvider;
+}
+
+/**
+ * "<provider id>:<book>:<chapter>" for the default translation, which keeps the key it had
+ * before translations were selectable so cached and downloaded chapters stay valid;
+ * "<provider id>:<translation>:<book>:<chapter>" for the others.
+ */
+export function passageCacheKey(providerId: string, translation: TranslationId, book: string, chapter: string): string {
+    return translation === DEFAULT_TRANSLATION
+        ? `${providerId}:${book}:${chapter}`
+        : `${providerId}:${translation}:${book}:${chapter}`;
+}
+
+/**
+ * Checks a chapter against BIBLE_STRUCTURE and re-requests only the missing verses.
+ * Headings, duplicates and verses beyond the chapter's count are dropped. Cached text was
+ * completed when it was fetched, so `refetchMissing` is off for it: a verse still missing
+ * then is one the translation omits, and asking again on every open would only cost a request.
+ */
+async function completeKoreanPassage(provider: KoreanTextProvider, book: string, chapter: string, translation: TranslationId, raw: string, refetchMissing: boolean, verseCount?: number, options?: ScheduleOptions): Promise<KoreanPassage> {
+    const { verses, issues } = parseKoreanPassage(raw);
+    checkVerseCount(verses, verseCount, issues);
+    let completed = verses;
+
+    if (refetchMissing && issues.missing.length > 0 && provider.fetchVerses && !isOffline()) {
+        try {
+            const retried = parseKoreanPassage(await provider.fetchVerses(book, chapter, translation, issues.missing, options)).verses
+                .filter(verse => issues.missing.includes(verse.number));
+            completed = mergeVerses(verses, retried);
+            checkVerseCount(completed, verseCount, issues);
+        } catch (error) {
+            if (options?.signal?.aborted) throw error;
+            console.warn(`Failed to re-fetch missing verses of ${book} ${chapter} (${translation})`, error);
         }
     }
 
-    if (fullText) {
-        sessionStorage.setItem(cacheKey, fullText.trim());
+    if (issues.headings.length || issues.duplicated.length || issues.merged.length || issues.extra.length) {
+        console.warn(`Normalized ${book} ${chapter} (${translation}):`, issues);
+    }
+    if (verseCount) {
+        completed = completed.filter(verse => Number(verse.number) <= verseCount);
     }
+    return { verses: completed, text: versesToText(completed), issues };
 }
 
+/**
+ * Streams the raw chapter text as it arrives, then returns the normalized passage
+ * (missing verses re-fetched) once the stream is done. The normalized text is what gets
+ * cached, and a cached chapter is served without further requests.
+ */
+export async function* streamPassageText(book: string, chapter: string, translation: TranslationId, verseCount?: number, options?: RequestOptions): AsyncGenerator<string, KoreanPassage> {
+    const provider = getKoreanTextProvider(translation);
+    const cacheKey = passageCacheKey(provider.id, translation, book, chapter);
+    const cachedText = await getCached<string>('passage', cacheKey, options);
 
-export async function getOriginalPassageText(book: string, chapter: string, testament: '구약성경' | '신약성경'): Promise<OriginalPassage> {
-    const cacheKey = `original-passage:${book}:${chapter}`;
-    const cachedText = sessionStorage.getItem(cacheKey);
     if (cachedText) {
-        return Promise.resolve(JSON.parse(cachedText));
+        yield cachedText;
+        const passage = await completeKoreanPassage(provider, book, chapter, translation, cachedText, false, verseCount, options);
+        if (passage.text !== cachedText) {
+            await setCached('passage', cacheKey, passage.text, options);
+        }
+        return passage;
+    }
+    if (isOffline()) {
+        throw new OfflineCacheMissError();
     }
 
-    const ai = getAiClient();
-    const model = 'gemini-2.5-flash';
-    const language = testament === '구약성경' ? '히브리어' : '헬라어(코이네 그리스어)';
-    const prompt = `성경 ${book} ${chapter}장의 본문을 원어(${language})로 제공해 주세요. 각 절의 내용은 JSON 형식으로, 절 번호를 키로 하고 절 내용을 값으로 하는 객체로 만들어 주세요. 다른 제목이나 설명 없이 JSON 객체만 반환해주세요. 예: {"1": "원문 내용...", "2": "원문 내용..."}`;
+    let fullText = '';
+    for await (const chunk of provider.streamChapter(book, chapter, translation, verseCount, options)) {
+        fullText += chunk;
+        yield chunk;
+    }
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model,
-        contents: prompt,
-    });
-    
-    let text = response.text.trim();
-    if (text.startsWith('```json')) {
-        text = text.substring(7, text.length - 3).trim();
+    const passage = await completeKoreanPassage(provider, book, chapter, translation, fullText, true, verseCount, options);
+    if (passage.verses.length > 0) {
+        await setCached('passage', cacheKey, passage.text, options);
+    }
+    return passage;
+}
+
+/**
+ * Drains streamPassageText for callers that only need the normalized result.
+ */
+export async function getKoreanPassage(book: string, chapter: string, translation: TranslationId, verseCount?: number, options?: RequestOptions): Promise<KoreanPassage> {
+    const stream = streamPassageText(book, chapter, translation, verseCount, options);
+    let result = await stream.next();
+    while (!result.done) {
+        result = await stream.next();
     }
-    
-    const passageData: OriginalPassage = JSON.parse(text);
+    return result.value;
+}
+
 
-    if (passageData) {
-        sessionStorage.setItem(cacheKey, JSON.stringify(passageData));
+/**
+ * The passage if it can be read without a model request (a full-text provider or the
+ * cache), otherwise null.
+ */
+export async function peekKoreanPassage(book: string, chapter: string, translation: TranslationId): Promise<KoreanPassage | null> {
+    const provider = getKoreanTextProvider(translation);
+    if (provider.hasFullText) {
+        return getKoreanPassage(book, chapter, translation);
     }
+    const cachedText = await getCached<string>('passage', passageCacheKey(provider.id, translation, book, chapter));
+    return cachedText ? { ...parseKoreanPassage(cachedText), text: cachedText } : null;
+}
 
-    return passageData;
+export function getOriginalPassageText(book: string, chapter: string, testament: '구약성경' | '신약성경', options?: RequestOptions): Promise<OriginalPassage> {
+    const provider = textProvider.original;
+    return withScheduledCache('original-passage', `${provider.id}:${book}:${chapter}`, async schedule => {
+        const passage = await provider.getChapter(book, chapter, testament, schedule);
+        const verses = originalPassageToVerses(passage);
+        const { missing } = checkVerseCount(verses, BIBLE_STRUCTURE[book]?.[chapter]);
+
+        if (missing.length > 0 && provider.getVerses) {
+            try {
+                const retried = originalPassageToVerses(await provider.getVerses(book, chapter, testament, missing, schedule))
+                    .filter(verse => missing.includes(verse.number));
+                return versesToOriginalPassage(mergeVerses(verses, retried));
+            } catch (error) {
+                if (schedule.signal?.aborted) throw error;
+                console.warn(`Failed to re-fetch missing original verses of ${book} ${chapter}`, error);
+            }
+        }
+        return passage;
+    }, options);
 }
 
 
-export async function getWordDefinition(word: string, context: string): Promise<WordDefinition> {
-  const ai = getAiClient();
+export function getWordDefinition(word: string, context: string, options?: RequestOptions): Promise<WordDefinition> {
+    return withScheduledCache('definition', `${word}:${hashKey(context)}`, schedule => fetchWordDefinition(word, context, schedule), options);
+}
+
+async function fetchWordDefinition(word: string, context: string, options: ScheduleOptions): Promise<WordDefinition> {
   const model = 'gemini-2.5-flash';
   const prompt = `주어진 한국어 성경 단어와 문맥을 바탕으로, 해당하는 원어(히브리어/그리스어) 단어의 상세한 문법 정보와 기본 의미를 분석해주세요.
 
@@ -128,26 +357,65 @@ export async function getWordDefinition(word: string, context: string): Promise<
 5.  **number**: 수 (예: '단수', '복수'). 문법적 수가 없는 품사일 경우 '해당 없음'으로 응답.
 6.  **case**: 격 (예: '주격', '소유격', '여격', '대격', '호격'). 격이 없는 언어(히브리어 등)나 품사일 경우 '해당 없음'으로 응답.
 7.  **basicMeaning**: 단어의 핵심적인 기본 의미를 간결하게 설명.
+8.  **lemma**: 원어 단어의 사전형(기본형). 예: 'רֵאשִׁית', 'λόγος'.
+9.  **strongsNumber**: 사전형의 스트롱 번호. 히브리어·아람어는 'H', 그리스어는 'G'로 시작 (예: 'H7225', 'G3056'). 확실하지 않으면 빈 문자열로 응답.
+10. **morphologyCode**: 이 문맥에서의 전체 형태 분석 코드. 히브리어는 OSHB 형식(예: 'HNcfsa', 'HVqp3ms'), 그리스어는 Robinson 형식(예: 'N-NSM', 'V-AAI-3S').
+11. **morphology**: 언어별 형태 정보. 해당하지 않는 항목은 모두 '해당 없음'으로 응답.
+    - 히브리어 동사: stem(어간/binyan), conjugation(활용형), person(인칭). 분사는 state(상태)도 포함.
+    - 그리스어 동사: tense(시제), voice(태), mood(법), person(인칭).
+    - 명사·형용사: 히브리어는 state(절대형/연계형)와 definiteness(한정성), 그리스어는 definiteness(관사 유무).
+    - 히브리어 단어에 인칭 접미사가 붙어 있으면 suffix에 그 인칭·성·수.
 
 응답은 반드시 지정된 JSON 스키마를 따라야 합니다. 다른 설명 없이 JSON 객체만 반환해 주세요.`;
 
-  const response = await ai.models.generateContent({
+  const response = await runGemini((ai, signal) => ai.models.generateContent({
     model,
     contents: prompt,
     config: {
       responseMimeType: 'application/json',
       responseSchema: definitionSchema,
+      abortSignal: signal,
     },
-  });
+  }), options);
+
+  const { morphology, ...definition } = parseJsonResponse<WordDefinition & { morphology: ModelMorphology }>(response.text);
+  const isHebrew = detectScript(definition.originalWord) === 'hebrew';
+  return {
+    ...definition,
+    morphologySystem: isHebrew ? 'oshb' : 'rmac',
+    lexiconSource: 'model',
+    morphology: morphology ? toWordMorphology(morphology, isHebrew) : undefined,
+  };
+}
+
+// The schema's morphology object has the fields of both languages.
+interface ModelMorphology {
+  stem: string;
+  conjugation: string;
+  tense: string;
+  voice: string;
+  mood: string;
+  person: string;
+  state: string;
+  definiteness: string;
+  suffix: string;
+}
+
+function toWordMorphology(morphology: ModelMorphology, isHebrew: boolean): WordMorphology {
+  const { stem, conjugation, tense, voice, mood, person, state, definiteness, suffix } = morphology;
+  if (isHebrew) {
+    return { language: 'hebrew', stem, conjugation, person, state, definiteness, suffix: suffix === NOT_APPLICABLE ? undefined : suffix };
+  }
+  return { language: 'greek', tense, voice, mood, person, definiteness };
+}
 
-  const jsonText = response.text.trim();
-  return JSON.parse(jsonText);
+export function getWordPronunciation(originalWord: string, options?: RequestOptions): Promise<string> {
+    return withScheduledCache('word-audio', originalWord, schedule => fetchWordPronunciation(originalWord, schedule), options);
 }
 
-export async function getWordPronunciation(originalWord: string): Promise<string> {
-    const ai = getAiClient();
+async function fetchWordPronunciation(originalWord: string, options: ScheduleOptions): Promise<string> {
     const model = 'gemini-2.5-flash-preview-tts';
-    const response = await ai.models.generateContent({
+    const response = await runGemini((ai, signal) => ai.models.generateContent({
         model,
         contents: [{ parts: [{ text: `Pronounce the following word: ${originalWord}` }] }],
         config: {
@@ -157,20 +425,24 @@ export async function getWordPronunciation(originalWord: string): Promise<string
                     prebuiltVoiceConfig: { voiceName: 'Kore' },
                 },
             },
+            abortSignal: signal,
         },
-    });
+    }), options);
 
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!base64Audio) {
-        throw new Error("No audio data received from API.");
+        throw new GeminiApiError('parse', "No audio data received from API.");
     }
     return base64Audio;
 }
 
-export async function getVersePronunciation(verseText: string): Promise<string> {
-    const ai = getAiClient();
+export function getVersePronunciation(verseText: string, options?: RequestOptions): Promise<string> {
+    return withScheduledCache('verse-audio', hashKey(verseText), schedule => fetchVersePronunciation(verseText, schedule), options);
+}
+
+async function fetchVersePronunciation(verseText: string, options: ScheduleOptions): Promise<string> {
     const model = 'gemini-2.5-flash-preview-tts';
-    const response = await ai.models.generateContent({
+    const response = await runGemini((ai, signal) => ai.models.generateContent({
         model,
         contents: [{ parts: [{ text: verseText }] }],
         config: {
@@ -180,12 +452,13 @@ export async function getVersePronunciation(verseText: string): Promise<string>
                     prebuiltVoiceConfig: { voiceName: 'Kore' },
                 },
             },
+            abortSignal: signal,
         },
-    });
+    }), options);
 
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!base64Audio) {
-        throw new Error("No audio data received from API.");
+        throw new GeminiApiError('parse', "No audio data received from API.");
     }
     return base64Audio;
 }
@@ -204,13 +477,24 @@ const verseAnalysisSchema = {
     }
 };
 
-export async function getVerseAnalysis(
+export function getVerseAnalysis(
+    koreanVerse: string,
+    originalVerse: string,
+    language: '히브리어' | '헬라어',
+    audioDurationSeconds: number,
+    options?: RequestOptions
+): Promise<VerseAnalysisItem[]> {
+    const key = hashKey(`${language}|${koreanVerse}|${originalVerse}|${audioDurationSeconds.toFixed(2)}`);
+    return withScheduledCache('verse-analysis', key, schedule => fetchVerseAnalysis(koreanVerse, originalVerse, language, audioDurationSeconds, schedule), options);
+}
+
+async function fetchVerseAnalysis(
     koreanVerse: string, 
     originalVerse: string, 
     language: '히브리어' | '헬라어', 
-    audioDurationSeconds: number
+    audioDurationSeconds: number,
+    options: ScheduleOptions
 ): Promise<VerseAnalysisItem[]> {
-    const ai = getAiClient();
     const model = 'gemini-2.5-pro'; // Use a more powerful model for this complex task
     const durationMs = Math.round(audioDurationSeconds * 1000);
 
@@ -238,15 +522,208 @@ export async function getVerseAnalysis(
 
 다른 설명 없이 JSON 배열만 응답으로 제공해 주세요.`;
 
-    const response = await ai.models.generateContent({
+    const response = await runGemini((ai, signal) => ai.models.generateContent({
         model,
         contents: prompt,
         config: {
             responseMimeType: 'application/json',
             responseSchema: verseAnalysisSchema,
+            abortSignal: signal,
         },
-    });
+    }), options);
 
-    const jsonText = response.text.trim();
-    return JSON.parse(jsonText);
-}
\ No newline at end of file
+    return parseJsonResponse<VerseAnalysisItem[]>(response.text);
+}
+
+const interlinearSchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            verse: { type: Type.STRING, description: '절 번호.' },
+            words: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        originalWord: { type: Type.STRING, description: '원어 단어 또는 한 단위로 번역되는 원어 구절.' },
+                        transliteration: { type: Type.STRING, description: '원어의 로마자 음역.' },
+                        gloss: { type: Type.STRING, description: '원어 단어 자체의 짧은 한국어 뜻.' },
+                        koreanWord: { type: Type.STRING, description: '이 원어를 번역한 한국어 구절의 단어들. 번역되지 않았으면 빈 문자열.' },
+                    },
+                    required: ['originalWord', 'transliteration', 'gloss', 'koreanWord'],
+                },
+            },
+        },
+        required: ['verse', 'words'],
+    },
+};
+
+// Verses per request; long chapters such as Psalm 119 are split so each response stays small.
+const INTERLINEAR_BATCH_SIZE = 30;
+
+export interface InterlinearVerse {
+    number: string;
+    korean: string;
+    original: string;
+}
+
+/**
+ * Word-by-word alignment for every verse of a chapter (or the part of it being shown).
+ * The whole result is cached under the chapter, keyed by the text it was built from.
+ */
+export function getChapterInterlinear(
+    book: string,
+    chapter: string,
+    verses: InterlinearVerse[],
+    language: '히브리어' | '헬라어',
+    options?: RequestOptions
+): Promise<ChapterInterlinear> {
+    const key = `${book}:${chapter}:${hashKey(verses.map(verse => `${verse.number}|${verse.korean}|${verse.original}`).join('\n'))}`;
+    return withScheduledCache('interlinear', key, async schedule => {
+        const batches: InterlinearVerse[][] = [];
+        for (let i = 0; i < verses.length; i += INTERLINEAR_BATCH_SIZE) {
+            batches.push(verses.slice(i, i + INTERLINEAR_BATCH_SIZE));
+        }
+        const results = await Promise.all(batches.map(batch => fetchInterlinear(batch, language, schedule)));
+        return Object.assign({}, ...results);
+    }, options);
+}
+
+async function fetchInterlinear(verses: InterlinearVerse[], language: '히브리어' | '헬라어', options: ScheduleOptions): Promise<ChapterInterlinear> {
+    const model = 'gemini-2.5-pro';
+    const prompt = `당신은 성경 원어와 한국어 번역 전문가입니다. 아래 각 절의 원어(${language}) 본문을 단어 단위로 나누고, 각 원어 단어를 한국어 번역의 해당 단어와 정렬하여 행간 대조(interlinear) 자료를 만들어 주세요.
+
+**규칙:**
+- 각 절의 \`words\`는 원어 본문의 **단어 순서 그대로** 나열해야 하며, 원어 본문의 모든 단어가 빠짐없이 한 번씩 포함되어야 합니다.
+- 관사, 전치사, 접속사가 앞 단어에 붙어 있는 경우(예: 히브리어 접두사) 원어 본문에 쓰인 형태 그대로 하나의 단어로 둡니다.
+- 여러 원어 단어가 한 한국어 표현으로 번역되면, 하나로 묶거나 첫 단어에 한국어를 주고 나머지는 \`koreanWord\`를 빈 문자열로 둡니다.
+- \`koreanWord\`에는 주어진 한국어 구절에 실제로 있는 단어만 사용하세요.
+- \`gloss\`는 원어 단어 자체의 짧은 한국어 뜻입니다 (예: "태초에", "하나님", "창조하셨다").
+
+**입력 (절 번호, 한국어, 원어):**
+${verses.map(verse => `${verse.number}절\n한국어: ${verse.korean}\n원어: ${verse.original}`).join('\n\n')}
+
+다른 설명 없이 JSON 배열만 응답으로 제공해 주세요.`;
+
+    const response = await runGemini((ai, signal) => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: interlinearSchema,
+            abortSignal: signal,
+        },
+    }), options);
+
+    const items = parseJsonResponse<{ verse: string; words: InterlinearWord[] }[]>(response.text);
+    const interlinear: ChapterInterlinear = {};
+    for (const { verse, words } of items) {
+        interlinear[verse.replace(/\D/g, '')] = words;
+    }
+    return interlinear;
+}
+
+const renderingSchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING, description: '입력에 주어진 항목 번호.' },
+            koreanWord: { type: Type.STRING, description: '이 원어 단어를 번역한 한국어 구절의 단어들. 번역되지 않았으면 빈 문자열.' },
+        },
+        required: ['id', 'koreanWord'],
+    },
+};
+
+export interface RenderingQuery {
+    korean: string; // the Korean verse
+    original: string; // the inflected original word in that verse
+}
+
+/**
+ * Finds the Korean words that translate one lemma in each of the given verses. Returns
+ * the renderings in the order of the queries; '' where the word is not translated.
+ */
+export function getKoreanRenderings(lemma: string, queries: RenderingQuery[], options?: RequestOptions): Promise<string[]> {
+    const key = `${lemma}:${hashKey(queries.map(query => `${query.original}|${query.korean}`).join('\n'))}`;
+    return withScheduledCache('rendering', key, schedule => fetchKoreanRenderings(lemma, queries, schedule), options);
+}
+
+async function fetchKoreanRenderings(lemma: string, queries: RenderingQuery[], options: ScheduleOptions): Promise<string[]> {
+    const model = 'gemini-2.5-flash';
+    const prompt = `아래 각 항목은 한국어 성경 구절과, 그 구절의 원어 본문에 쓰인 단어(기본형: ${lemma})입니다. 각 항목마다 한국어 구절에서 이 원어 단어를 번역한 부분을 찾아 주세요.
+
+**규칙:**
+- \`koreanWord\`에는 주어진 한국어 구절에 실제로 있는 단어만, 쓰인 형태 그대로 넣으세요 (조사 포함).
+- 번역에서 생략되었으면 빈 문자열로 응답하세요.
+
+**입력:**
+${queries.map((query, index) => `${index + 1}. 원어: ${query.original}\n한국어: ${query.korean}`).join('\n\n')}
+
+다른 설명 없이 JSON 배열만 응답으로 제공해 주세요.`;
+
+    const response = await runGemini((ai, signal) => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: renderingSchema,
+            abortSignal: signal,
+        },
+    }), options);
+
+    const items = parseJsonResponse<{ id: string; koreanWord: string }[]>(response.text);
+    const renderings = queries.map(() => '');
+    for (const { id, koreanWord } of items) {
+        const index = Number(id.replace(/\D/g, '')) - 1;
+        if (index >= 0 && index < renderings.length) {
+            renderings[index] = koreanWord.trim();
+        }
+    }
+    return renderings;
+}
+
+const crossReferenceSchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            reference: { type: Type.STRING, description: "관련 구절. 한국어 성경 이름 전체와 장:절로 씁니다. 예: '요한복음 1:1-3'." },
+            kind: { type: Type.STRING, description: "'parallel'(같은 사건의 병행 본문), 'quotation'(신약의 구약 인용 또는 그 인용의 출처), 'thematic'(주제상 관련 구절) 중 하나." },
+            note: { type: Type.STRING, description: '두 본문이 어떻게 관련되는지 한 문장 설명.' },
+        },
+        required: ['reference', 'kind', 'note'],
+    },
+};
+
+export interface CrossReferenceSuggestion {
+    reference: string; // e.g. "요한복음 1:1-3"
+    kind: string;
+    note: string;
+}
+
+/**
+ * Related passages for one verse, suggested by the model. Used only when no local
+ * cross-reference data covers the verse.
+ */
+export function getCrossReferenceSuggestions(book: string, chapter: string, verse: string, verseText: string, options?: RequestOptions): Promise<CrossReferenceSuggestion[]> {
+    return withScheduledCache('cross-reference', `${book}:${chapter}:${verse}`, schedule => fetchCrossReferenceSuggestions(book, chapter, verse, verseText, schedule), options);
+}
+
+async function fetchCrossReferenceSuggestions(book: string, chapter: string, verse: string, verseText: string, options: ScheduleOptions): Promise<CrossReferenceSuggestion[]> {
+    const model = 'gemini-2.5-flash';
+    const prompt = `성경 ${book} ${chapter}:${verse} ("${verseText}")와 관련된 다른 성경 본문을 최대 10개 찾아 주세요. 같은 사건을 기록한 병행 본문(복음서끼리, 사무엘·열왕기와 역대기 등), 신약의 구약 인용과 그 출처, 주제상 밀접한 구절 순으로 중요한 것부터 나열하세요. 실제로 존재하는 장과 절만 쓰고, 이 구절 자신은 포함하지 마세요.`;
+
+    const response = await runGemini((ai, signal) => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: crossReferenceSchema,
+            abortSignal: signal,
+        },
+    }), options);
+
+    return parseJsonResponse<CrossReferenceSuggestion[]>(response.text);
+}
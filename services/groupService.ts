@@ -0,0 +1,112 @@
+import { GroupBoard, GroupMembership, ReadingPlanConfig, ReadingStatus } from '../types';
+import { DEFAULT_SYNC_SERVER_URL, getSyncConfig } from './syncService';
+
+const GROUP_STORAGE_KEY = 'bibleGroupMemberships';
+const GROUP_TIMEOUT_MS = 15000;
+
+export class GroupRequestError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'GroupRequestError';
+    this.status = status;
+  }
+}
+
+export function getGroupMemberships(): GroupMembership[] {
+  try {
+    const stored = localStorage.getItem(GROUP_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to parse group memberships from localStorage", error);
+    return [];
+  }
+}
+
+function saveGroupMemberships(memberships: GroupMembership[]) {
+  try {
+    localStorage.setItem(GROUP_STORAGE_KEY, JSON.stringify(memberships));
+  } catch (error) {
+    console.error("Failed to save group memberships to localStorage", error);
+  }
+}
+
+/**
+ * Groups live on the same server as sync, so a configured sync server is used for both.
+ */
+export function getGroupServerUrl(): string {
+  return getSyncConfig()?.serverUrl || DEFAULT_SYNC_SERVER_URL;
+}
+
+const ERROR_MESSAGES: Record<number, string> = {
+  403: '이 그룹의 멤버가 아닙니다.',
+  404: '그룹을 찾을 수 없습니다. 참여 코드를 확인해주세요.',
+};
+
+async function groupRequest<T>(serverUrl: string, path: string, init: { method: string; body?: unknown; token?: string }): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${serverUrl.replace(/\/+$/, '')}${path}`, {
+      method: init.method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(init.token ? { Authorization: `Bearer ${init.token}` } : {}),
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      signal: AbortSignal.timeout(GROUP_TIMEOUT_MS),
+    });
+  } catch {
+    throw new GroupRequestError('그룹 서버에 연결할 수 없습니다.');
+  }
+  if (!response.ok) {
+    throw new GroupRequestError(ERROR_MESSAGES[response.status] || `그룹 서버 오류 (${response.status})`, response.status);
+  }
+  return response.json();
+}
+
+interface JoinResponse {
+  board: GroupBoard;
+  memberId: string;
+  memberToken: string;
+}
+
+function remember(serverUrl: string, { board, memberId, memberToken }: JoinResponse): GroupMembership {
+  const membership: GroupMembership = { groupId: board.group.id, groupName: board.group.name, memberId, memberToken, serverUrl };
+  saveGroupMemberships([...getGroupMemberships().filter(m => m.groupId !== membership.groupId), membership]);
+  return membership;
+}
+
+export async function createGroup(name: string, displayName: string, plan: ReadingPlanConfig): Promise<{ membership: GroupMembership; board: GroupBoard }> {
+  const serverUrl = getGroupServerUrl();
+  const response = await groupRequest<JoinResponse>(serverUrl, '/groups', { method: 'POST', body: { name, displayName, plan } });
+  return { membership: remember(serverUrl, response), board: response.board };
+}
+
+export async function joinGroup(joinCode: string, displayName: string): Promise<{ membership: GroupMembership; board: GroupBoard }> {
+  const serverUrl = getGroupServerUrl();
+  const response = await groupRequest<JoinResponse>(serverUrl, '/groups/join', { method: 'POST', body: { joinCode, displayName } });
+  return { membership: remember(serverUrl, response), board: response.board };
+}
+
+export function fetchGroupBoard(membership: GroupMembership): Promise<GroupBoard> {
+  return groupRequest<GroupBoard>(membership.serverUrl, `/groups/${membership.groupId}`, { method: 'GET', token: membership.memberToken });
+}
+
+export function pushGroupProgress(membership: GroupMembership, readingStatus: ReadingStatus): Promise<GroupBoard> {
+  return groupRequest<GroupBoard>(membership.serverUrl, `/groups/${membership.groupId}/progress`, {
+    method: 'PUT',
+    body: { readingStatus },
+    token: membership.memberToken,
+  });
+}
+
+export async function leaveGroup(membership: GroupMembership) {
+  try {
+    await groupRequest(membership.serverUrl, `/groups/${membership.groupId}/leave`, { method: 'POST', token: membership.memberToken });
+  } catch (error) {
+    // A group that is already gone can still be forgotten locally.
+    if (!(error instanceof GroupRequestError && (error.status === 403 || error.status === 404))) throw error;
+  }
+  saveGroupMemberships(getGroupMemberships().filter(m => m.groupId !== membership.groupId));
+}
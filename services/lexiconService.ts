@@ -0,0 +1,112 @@
+import { WordDefinition } from '../types';
+import { getTextProvider } from './geminiService';
+import { findTaggedWord, normalizeOriginalWord } from '../utils/originalTextUtils';
+import { decodeTaggedWord } from '../utils/morphologyUtils';
+
+// An entry of the OpenScriptures Strong's dictionaries (strongs-hebrew/greek-dictionary.js as JSON).
+interface LexiconEntry {
+  lemma: string;
+  xlit?: string;
+  translit?: string;
+  strongs_def?: string;
+  kjv_def?: string;
+}
+
+interface Lexicon {
+  entries: Record<string, LexiconEntry>;
+  // Normalized lemma -> Strong's number, for texts tagged with lemmas only (MorphGNT).
+  byLemma: Map<string, string>;
+}
+
+interface VerseRef {
+  book: string;
+  chapter: string;
+  verse: string;
+}
+
+const lexicons = new Map<'hebrew' | 'greek', Promise<Lexicon>>();
+
+export function isLocalLexiconEnabled(): boolean {
+  return process.env.LEXICON_SOURCE === 'local';
+}
+
+/**
+ * "h7225", "H07225" or "H7225a" -> "H7225". Returns '' for anything that is not a Strong's number.
+ */
+export function normalizeStrongsNumber(value: string | undefined): string {
+  const match = (value || '').trim().match(/^([HG])0*(\d+)/i);
+  return match ? `${match[1].toUpperCase()}${match[2]}` : '';
+}
+
+function loadLexicon(language: 'hebrew' | 'greek'): Promise<Lexicon> {
+  let lexicon = lexicons.get(language);
+  if (!lexicon) {
+    const url = `${process.env.LOCAL_TEXT_BASE_URL || '/texts'}/lexicon/${language}.json`;
+    lexicon = fetch(url).then(async response => {
+      if (!response.ok) {
+        throw new Error(`사전 파일을 불러오지 못했습니다 (${response.status}): ${url}`);
+      }
+      const entries: Record<string, LexiconEntry> = await response.json();
+      const byLemma = new Map<string, string>();
+      for (const [number, entry] of Object.entries(entries)) {
+        const key = normalizeOriginalWord(entry.lemma || '');
+        if (key && !byLemma.has(key)) byLemma.set(key, normalizeStrongsNumber(number));
+      }
+      return { entries, byLemma };
+    });
+    // Drop failed loads so a later lookup can retry.
+    lexicon.catch(() => lexicons.delete(language));
+    lexicons.set(language, lexicon);
+  }
+  return lexicon;
+}
+
+function findEntry(lexicon: Lexicon, strongsNumber: string): LexiconEntry | undefined {
+  // The OpenScriptures files key entries as "H7225"; some conversions pad them ("H07225").
+  return lexicon.entries[strongsNumber] || lexicon.entries[`${strongsNumber[0]}0${strongsNumber.slice(1)}`];
+}
+
+/**
+ * Replaces model output with local data where it is available. With the tagged texts
+ * (TEXT_SOURCE=local), the morphology code and the grammar decoded from it come from WLC or
+ * MorphGNT; with LEXICON_SOURCE=local, so do the lemma, Strong's number and a lexicon gloss.
+ * Returns the definition unchanged if the files are missing or the word cannot be matched.
+ */
+export async function enrichDefinition(definition: WordDefinition, ref: VerseRef, testament: '구약성경' | '신약성경'): Promise<WordDefinition> {
+  const provider = getTextProvider().original;
+  if (!provider.getTaggedVerse && !isLocalLexiconEnabled()) return definition;
+  try {
+    const words = provider.getTaggedVerse
+      ? await provider.getTaggedVerse(ref.book, ref.chapter, ref.verse, testament)
+      : [];
+    const tagged = findTaggedWord(words, definition.originalWord);
+    let enriched = definition;
+    if (tagged) {
+      enriched = {
+        ...enriched,
+        ...decodeTaggedWord(words, tagged),
+        morphologyCode: tagged.morphologyCode,
+        morphologySystem: tagged.morphologySystem,
+      };
+    }
+    if (!isLocalLexiconEnabled()) return enriched;
+
+    const lexicon = await loadLexicon(testament === '구약성경' ? 'hebrew' : 'greek');
+    const strongsNumber = normalizeStrongsNumber(tagged?.strongsNumber)
+      || (tagged ? lexicon.byLemma.get(normalizeOriginalWord(tagged.lemma)) : undefined)
+      || normalizeStrongsNumber(definition.strongsNumber);
+    const entry = strongsNumber ? findEntry(lexicon, strongsNumber) : undefined;
+    if (!tagged && !entry) return enriched;
+
+    return {
+      ...enriched,
+      lemma: entry?.lemma || definition.lemma,
+      strongsNumber: strongsNumber || definition.strongsNumber,
+      lexiconGloss: entry ? [entry.strongs_def, entry.kjv_def].filter(Boolean).join(' — ') : undefined,
+      lexiconSource: 'local',
+    };
+  } catch (error) {
+    console.warn(`Failed to look up ${definition.originalWord} in the local text and lexicon`, error);
+    return definition;
+  }
+}
@@ -0,0 +1,277 @@
+import { OriginalPassage, TaggedBook, TaggedWord } from '../types';
+import { BOOK_CODES } from '../data/bookCodes';
+import { DEFAULT_TRANSLATION } from '../data/translations';
+import { KoreanTextProvider, OriginalTextProvider, TextProvider } from './textProvider';
+
+// Chapter number -> verse number -> verse text
+type BookText = Record<string, Record<string, string>>;
+
+export interface LocalTextProviderOptions {
+  baseUrl: string;
+  koreanFormat: 'json' | 'usfm';
+}
+
+const bookCache = new Map<string, Promise<unknown>>();
+
+function getBookCodes(book: string) {
+  const codes = BOOK_CODES[book];
+  if (!codes) {
+    throw new Error(`알 수 없는 성경 이름입니다: ${book}`);
+  }
+  return codes;
+}
+
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`로컬 본문 파일을 불러오지 못했습니다 (${response.status}): ${url}`);
+  }
+  return response.text();
+}
+
+function loadBook<T>(url: string, parse: (raw: string) => T, cacheKey = url): Promise<T> {
+  let book = bookCache.get(cacheKey) as Promise<T> | undefined;
+  if (!book) {
+    book = fetchText(url).then(parse);
+    // Drop failed loads so a later request can retry.
+    book.catch(() => bookCache.delete(cacheKey));
+    bookCache.set(cacheKey, book);
+  }
+  return book;
+}
+
+function addWord(target: TaggedBook, chapter: string, verse: string, word: TaggedWord) {
+  if (!target[chapter]) {
+    target[chapter] = {};
+  }
+  (target[chapter][verse] ||= []).push(word);
+}
+
+/**
+ * "b/7225" or "c/d/776" -> "H7225": the last segment of a WLC lemma attribute is the
+ * Strong's number, sometimes followed by a letter that distinguishes homographs.
+ */
+function wlcStrongsNumber(lemma: string): string | undefined {
+  const match = lemma.split('/').pop()?.match(/\d+/);
+  return match ? `H${Number(match[0])}` : undefined;
+}
+
+function addVerse(target: BookText, chapter: string, verse: string, text: string) {
+  const cleaned = text.replace(/\s+/g, ' ').trim();
+  if (!cleaned) return;
+  if (!target[chapter]) {
+    target[chapter] = {};
+  }
+  target[chapter][verse] = target[chapter][verse] ? `${target[chapter][verse]} ${cleaned}` : cleaned;
+}
+
+/**
+ * Parses a JSON book file of the form {"1": {"1": "태초에 ...", ...}, ...}.
+ */
+export function parseJsonBook(raw: string): BookText {
+  const data = JSON.parse(raw);
+  const result: BookText = {};
+  for (const [chapter, verses] of Object.entries<Record<string, string>>(data)) {
+    for (const [verse, text] of Object.entries(verses)) {
+      addVerse(result, chapter, verse, String(text));
+    }
+  }
+  return result;
+}
+
+/**
+ * Parses the \c and \v markers of a USFM book, dropping headings, footnotes,
+ * cross references and word-level attributes.
+ */
+export function parseUsfmBook(raw: string): BookText {
+  const result: BookText = {};
+  const body = raw
+    .replace(/\\(f|fe|x)\s[\s\S]*?\\\1\*/g, '')
+    .replace(/\|[^\\]*?(\\\+?w\*)/g, '$1');
+
+  let chapter: string | null = null;
+  let verse: string | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const markerMatch = line.match(/^\\(\S+)\s*(.*)$/);
+    const marker = markerMatch ? markerMatch[1] : null;
+    let content = markerMatch ? markerMatch[2] : line;
+
+    if (marker === 'c') {
+      chapter = content.trim().split(/\s+/)[0];
+      verse = null;
+      continue;
+    }
+    if (marker && /^(id|ide|h|toc\d?|mt\d?|ms\d?|mr|s\d?|sr|r|d|cl|rem)$/.test(marker)) {
+      continue;
+    }
+    if (marker === 'v') {
+      const verseMatch = content.match(/^(\d+)[-\w]*\s*(.*)$/);
+      if (!verseMatch) continue;
+      verse = verseMatch[1];
+      content = verseMatch[2];
+    }
+    if (!chapter) continue;
+
+    // Inline verse markers can follow paragraph markers on the same line.
+    const segments = content.split(/\\v\s+(\d+)[-\w]*\s*/);
+    if (verse) {
+      addVerse(result, chapter, verse, stripUsfmMarkers(segments[0]));
+    }
+    for (let i = 1; i < segments.length; i += 2) {
+      verse = segments[i];
+      addVerse(result, chapter, verse, stripUsfmMarkers(segments[i + 1] || ''));
+    }
+  }
+  return result;
+}
+
+function stripUsfmMarkers(text: string): string {
+  return text.replace(/\\\+?[a-z]+\d?\*?/g, '');
+}
+
+/**
+ * Parses a WLC book in OSIS XML (as distributed by the OpenScriptures morphhb project).
+ */
+export function parseWlcBook(raw: string): BookText {
+  const doc = new DOMParser().parseFromString(raw, 'application/xml');
+  const result: BookText = {};
+  doc.querySelectorAll('verse[osisID]').forEach(verseElement => {
+    const [, chapter, verse] = (verseElement.getAttribute('osisID') || '').split('.');
+    if (!chapter || !verse) return;
+
+    let text = '';
+    verseElement.childNodes.forEach(node => {
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+      const element = node as Element;
+      if (element.tagName === 'w') {
+        text += (element.textContent || '').replace(/\//g, '');
+      } else if (element.tagName === 'seg') {
+        text += element.textContent || '';
+      } else {
+        return;
+      }
+      // Maqqef joins words; everything else is followed by a space.
+      if (!text.endsWith('־')) text += ' ';
+    });
+    addVerse(result, chapter, verse, text.replace(/ ׃/g, '׃'));
+  });
+  return result;
+}
+
+/**
+ * Reads the lemma and morph attributes of each <w> in a WLC book.
+ */
+export function parseWlcWords(raw: string): TaggedBook {
+  const doc = new DOMParser().parseFromString(raw, 'application/xml');
+  const result: TaggedBook = {};
+  doc.querySelectorAll('verse[osisID]').forEach(verseElement => {
+    const [, chapter, verse] = (verseElement.getAttribute('osisID') || '').split('.');
+    if (!chapter || !verse) return;
+    verseElement.querySelectorAll('w').forEach(element => {
+      const lemma = element.getAttribute('lemma') || '';
+      addWord(result, chapter, verse, {
+        text: (element.textContent || '').replace(/\//g, ''),
+        lemma,
+        strongsNumber: wlcStrongsNumber(lemma),
+        morphologyCode: element.getAttribute('morph') || '',
+        morphologySystem: 'oshb',
+      });
+    });
+  });
+  return result;
+}
+
+/**
+ * Parses a SBLGNT book in MorphGNT format. Each line holds one word:
+ * "BBCCVV POS PARSE TEXT WORD NORMALIZED LEMMA".
+ */
+export function parseSblgntBook(raw: string): BookText {
+  const result: BookText = {};
+  for (const line of raw.split(/\r?\n/)) {
+    const columns = line.trim().split(/\s+/);
+    if (columns.length < 4 || !/^\d{6}$/.test(columns[0])) continue;
+    const chapter = String(parseInt(columns[0].substring(2, 4), 10));
+    const verse = String(parseInt(columns[0].substring(4, 6), 10));
+    addVerse(result, chapter, verse, columns[3]);
+  }
+  return result;
+}
+
+/**
+ * Reads the part of speech, parse code and lemma of each MorphGNT word. The morphology code
+ * is the two columns joined, e.g. "V- 3AAI-S--".
+ */
+export function parseSblgntWords(raw: string): TaggedBook {
+  const result: TaggedBook = {};
+  for (const line of raw.split(/\r?\n/)) {
+    const columns = line.trim().split(/\s+/);
+    if (columns.length < 7 || !/^\d{6}$/.test(columns[0])) continue;
+    const chapter = String(parseInt(columns[0].substring(2, 4), 10));
+    const verse = String(parseInt(columns[0].substring(4, 6), 10));
+    addWord(result, chapter, verse, {
+      text: columns[4],
+      lemma: columns[6],
+      morphologyCode: `${columns[1]} ${columns[2]}`,
+      morphologySystem: 'morphgnt',
+    });
+  }
+  return result;
+}
+
+export function createLocalTextProvider({ baseUrl, koreanFormat }: LocalTextProviderOptions): TextProvider {
+  const root = baseUrl.replace(/\/$/, '');
+
+  const korean: KoreanTextProvider = {
+    id: `local-${koreanFormat}`,
+    hasFullText: true,
+    // korean/ holds the 개역개정 text; other translations come from the model.
+    translations: [DEFAULT_TRANSLATION],
+    async *streamChapter(book: string, chapter: string) {
+      const { usfm } = getBookCodes(book);
+      const bookText = koreanFormat === 'usfm'
+        ? await loadBook(`${root}/korean/${usfm}.usfm`, parseUsfmBook)
+        : await loadBook(`${root}/korean/${usfm}.json`, parseJsonBook);
+
+      const verses = bookText[chapter];
+      if (!verses) {
+        throw new Error(`로컬 본문에 ${book} ${chapter}장이 없습니다.`);
+      }
+      yield Object.keys(verses)
+        .sort((a, b) => Number(a) - Number(b))
+        .map(verse => `${verse}. ${verses[verse]}`)
+        .join('\n');
+    },
+  };
+
+  const loadTaggedBook = (book: string, testament: '구약성경' | '신약성경'): Promise<TaggedBook> => {
+    const { osis } = getBookCodes(book);
+    return testament === '구약성경'
+      ? loadBook(`${root}/wlc/${osis}.xml`, parseWlcWords, `${root}/wlc/${osis}.xml#words`)
+      : loadBook(`${root}/sblgnt/${osis}.txt`, parseSblgntWords, `${root}/sblgnt/${osis}.txt#words`);
+  };
+
+  const original: OriginalTextProvider = {
+    id: 'local-wlc-sblgnt',
+    hasFullText: true,
+    async getChapter(book: string, chapter: string, testament: '구약성경' | '신약성경'): Promise<OriginalPassage> {
+      const { osis } = getBookCodes(book);
+      const bookText = testament === '구약성경'
+        ? await loadBook(`${root}/wlc/${osis}.xml`, parseWlcBook)
+        : await loadBook(`${root}/sblgnt/${osis}.txt`, parseSblgntBook);
+
+      const verses = bookText[chapter];
+      if (!verses) {
+        throw new Error(`로컬 원어 본문에 ${book} ${chapter}장이 없습니다.`);
+      }
+      return verses;
+    },
+    getTaggedBook: loadTaggedBook,
+    async getTaggedVerse(book: string, chapter: string, verse: string, testament: '구약성경' | '신약성경'): Promise<TaggedWord[]> {
+      const bookWords = await loadTaggedBook(book, testament);
+      return bookWords[chapter]?.[verse] || [];
+    },
+  };
+
+  return { korean, original };
+}
@@ -0,0 +1,189 @@
+import { OfflineChapterInfo, OfflineLibrary } from '../types';
+import { BIBLE_STRUCTURE } from '../data/bibleStructure';
+import { DEFAULT_TRANSLATION } from '../data/translations';
+import { getKoreanPassage, getOriginalPassageText, getVersePronunciation, getWordDefinition, RequestOptions } from './geminiService';
+import { getDefinitionContext } from '../utils/referenceUtils';
+
+const OFFLINE_LIBRARY_KEY = 'bibleOfflineLibrary';
+const DOWNLOAD_CONCURRENCY = 3;
+
+// Rough per-verse sizes, used only for the estimate shown before downloading.
+const ESTIMATED_TEXT_BYTES_PER_VERSE = 600;
+const ESTIMATED_AUDIO_BYTES_PER_VERSE = 2 * 400 * 1024; // Korean + original verse audio
+const ESTIMATED_DEFINITION_BYTES_PER_VERSE = 12 * 500;
+
+export interface OfflineDownloadRequest {
+    book: string;
+    fromChapter: string;
+    toChapter: string;
+    testament: '구약성경' | '신약성경';
+    includeAudio: boolean;
+    includeDefinitions: boolean;
+}
+
+export interface OfflineDownloadProgress {
+    completed: number;
+    total: number;
+    currentChapter: string | null;
+    failedChapters: string[];
+}
+
+export function getOfflineLibrary(): OfflineLibrary {
+    try {
+        const library = localStorage.getItem(OFFLINE_LIBRARY_KEY);
+        return library ? JSON.parse(library) : {};
+    } catch (error) {
+        console.error("Failed to parse offline library from localStorage", error);
+        return {};
+    }
+}
+
+function saveChapterInfo(book: string, chapter: string, info: OfflineChapterInfo) {
+    try {
+        const library = getOfflineLibrary();
+        if (!library[book]) {
+            library[book] = {};
+        }
+        library[book][chapter] = info;
+        localStorage.setItem(OFFLINE_LIBRARY_KEY, JSON.stringify(library));
+    } catch (error) {
+        console.error("Failed to save offline library to localStorage", error);
+    }
+}
+
+export function clearOfflineLibrary() {
+    localStorage.removeItem(OFFLINE_LIBRARY_KEY);
+}
+
+export function isChapterAvailableOffline(library: OfflineLibrary, book: string, chapter: string): boolean {
+    return !!(library[book] && library[book][chapter]);
+}
+
+function getChapterRange(book: string, fromChapter: string, toChapter: string): string[] {
+    const chapters = Object.keys(BIBLE_STRUCTURE[book] || {});
+    const start = chapters.indexOf(fromChapter);
+    const end = chapters.indexOf(toChapter);
+    if (start === -1 || end === -1 || start > end) return [];
+    return chapters.slice(start, end + 1);
+}
+
+function countVerses(book: string, chapters: string[]): number {
+    return chapters.reduce((sum, chapter) => sum + (BIBLE_STRUCTURE[book]?.[chapter] || 0), 0);
+}
+
+export function estimateDownloadBytes(request: OfflineDownloadRequest): number {
+    const verses = countVerses(request.book, getChapterRange(request.book, request.fromChapter, request.toChapter));
+    let perVerse = ESTIMATED_TEXT_BYTES_PER_VERSE;
+    if (request.includeAudio) perVerse += ESTIMATED_AUDIO_BYTES_PER_VERSE;
+    if (request.includeDefinitions) perVerse += ESTIMATED_DEFINITION_BYTES_PER_VERSE;
+    return verses * perVerse;
+}
+
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+}
+
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>, signal?: AbortSignal) {
+    let index = 0;
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (index < items.length && !signal?.aborted) {
+            const item = items[index++];
+            await worker(item);
+        }
+    });
+    await Promise.all(runners);
+}
+
+function extractWords(verseText: string): string[] {
+    // Mirrors the cleanup App applies to a hovered word, so the cache keys match.
+    return verseText.split(/\s+/).map(word => word.replace(/[.,;:?!()"']/g, '')).filter(Boolean);
+}
+
+/**
+ * Downloads and pins everything needed to read the given chapters without a connection.
+ * Chapters that fail are reported in the result and left out of the offline library.
+ */
+export async function downloadForOffline(
+    request: OfflineDownloadRequest,
+    onProgress: (progress: OfflineDownloadProgress) => void,
+    signal?: AbortSignal,
+): Promise<OfflineDownloadProgress> {
+    const { book, testament, includeAudio, includeDefinitions } = request;
+    const chapters = getChapterRange(book, request.fromChapter, request.toChapter);
+    const unitsPerVerse = (includeAudio ? 2 : 0) + (includeDefinitions ? 1 : 0);
+
+    const progress: OfflineDownloadProgress = {
+        completed: 0,
+        total: chapters.length * 2 + countVerses(book, chapters) * unitsPerVerse,
+        currentChapter: null,
+        failedChapters: [],
+    };
+    const advance = (units = 1) => {
+        progress.completed += units;
+        onProgress({ ...progress });
+    };
+
+    // Downloads queue behind whatever the reader is doing and stop their requests on cancel.
+    const requestOptions: RequestOptions = { pinned: true, priority: 'prefetch', signal };
+
+    if (navigator.storage?.persist) {
+        navigator.storage.persist().catch(() => { /* best effort */ });
+    }
+
+    for (const chapter of chapters) {
+        if (signal?.aborted) break;
+        progress.currentChapter = chapter;
+        onProgress({ ...progress });
+
+        const verseCount = BIBLE_STRUCTURE[book]?.[chapter] || 0;
+        const completedBefore = progress.completed;
+        try {
+            const koreanPassage = await getKoreanPassage(book, chapter, DEFAULT_TRANSLATION, verseCount, requestOptions);
+            // The same context App looks words up with, so definition cache keys (which hash it) match.
+            const passage = getDefinitionContext(book, chapter, koreanPassage.text);
+            advance();
+
+            const originalPassage = await getOriginalPassageText(book, chapter, testament, requestOptions);
+            advance();
+
+            const verses = koreanPassage.verses;
+            let failures = 0;
+            await runWithConcurrency(verses, DOWNLOAD_CONCURRENCY, async verse => {
+                if (includeAudio) {
+                    const originalVerse = originalPassage[verse.number];
+                    const audioTexts = [verse.text, originalVerse].filter(Boolean);
+                    for (const text of audioTexts) {
+                        await getVersePronunciation(text, requestOptions).catch(() => { failures++; });
+                    }
+                    advance(2);
+                }
+                if (includeDefinitions) {
+                    for (const word of new Set(extractWords(verse.text))) {
+                        if (signal?.aborted) return;
+                        await getWordDefinition(word, passage, requestOptions).catch(() => { failures++; });
+                    }
+                    advance();
+                }
+            }, signal);
+
+            if (signal?.aborted) break;
+            if (failures > 0) {
+                throw new Error(`${failures} items failed`);
+            }
+            saveChapterInfo(book, chapter, { downloadedAt: Date.now(), includesAudio: includeAudio, includesDefinitions: includeDefinitions });
+        } catch (error) {
+            if (signal?.aborted) break;
+            console.error(`Offline download failed for ${book} ${chapter}`, error);
+            progress.failedChapters.push(chapter);
+        }
+        // The parsed verse count can differ from BIBLE_STRUCTURE; settle the chapter's share of the bar.
+        const chapterUnits = 2 + verseCount * unitsPerVerse;
+        advance(Math.max(0, completedBefore + chapterUnits - progress.completed));
+    }
+
+    progress.currentChapter = null;
+    onProgress({ ...progress });
+    return progress;
+}
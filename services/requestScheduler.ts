@@ -0,0 +1,177 @@
+import { classifyError, createAbortError } from './apiErrors';
+
+export type RequestPriority = 'user' | 'prefetch';
+
+export interface ScheduleOptions {
+    priority?: RequestPriority;
+    signal?: AbortSignal;
+    // Identifies the request so a user-initiated caller can promote a queued prefetch of the same thing.
+    key?: string;
+}
+
+const MAX_CONCURRENT_REQUESTS = 3;
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 20000;
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { user: 0, prefetch: 1 };
+
+interface QueuedRequest {
+    priority: RequestPriority;
+    sequence: number;
+    key?: string;
+    start: () => void;
+    cancel: () => void;
+}
+
+const queue: QueuedRequest[] = [];
+let activeCount = 0;
+let sequence = 0;
+// Set after a 429 so the whole queue backs off, not just the request that hit it.
+let cooldownUntil = 0;
+let cooldownTimer: number | null = null;
+
+function pump() {
+    const now = Date.now();
+    if (now < cooldownUntil) {
+        if (cooldownTimer === null) {
+            cooldownTimer = window.setTimeout(() => {
+                cooldownTimer = null;
+                pump();
+            }, cooldownUntil - now);
+        }
+        return;
+    }
+
+    while (activeCount < MAX_CONCURRENT_REQUESTS && queue.length > 0) {
+        queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.sequence - b.sequence);
+        const next = queue.shift()!;
+        activeCount++;
+        next.start();
+    }
+}
+
+function backoffDelay(attempt: number): number {
+    // Exponential backoff with equal jitter: half the ceiling, plus up to the other half at random.
+    const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const timer = window.setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Raises queued requests with the given key to user priority.
+ */
+export function promoteRequest(key: string) {
+    for (const request of queue) {
+        if (request.key === key) request.priority = 'user';
+    }
+}
+
+/**
+ * Runs a request through the shared queue: at most MAX_CONCURRENT_REQUESTS run at once,
+ * user requests go before prefetches, and 429/5xx/network failures are retried with
+ * backoff. Failures are rethrown as GeminiApiError; cancellation rejects with an AbortError.
+ */
+export function scheduleRequest<T>(task: (signal: AbortSignal) => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { priority = 'user', signal, key } = options;
+
+    return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        const finish = () => {
+            signal?.removeEventListener('abort', onAbort);
+        };
+
+        let attempt = 0;
+
+        // Each attempt takes a slot of its own, so waiting out the backoff does not hold one.
+        const runAttempt = async () => {
+            let retryDelay: number | null = null;
+            try {
+                resolve(await task(controller.signal));
+                finish();
+            } catch (error) {
+                const apiError = classifyError(error);
+                if (controller.signal.aborted || !apiError.isRetryable || ++attempt >= MAX_ATTEMPTS) {
+                    finish();
+                    reject(controller.signal.aborted ? createAbortError() : apiError);
+                } else {
+                    retryDelay = backoffDelay(attempt - 1);
+                    if (apiError.kind === 'quota') {
+                        cooldownUntil = Math.max(cooldownUntil, Date.now() + retryDelay);
+                    }
+                    console.warn(`Request failed (${apiError.kind}), retrying in ${retryDelay}ms`, apiError);
+                }
+            } finally {
+                activeCount--;
+                pump();
+            }
+
+            if (retryDelay === null) return;
+            try {
+                await sleep(retryDelay, controller.signal);
+            } catch (error) {
+                finish();
+                reject(error);
+                return;
+            }
+            // Back in the queue with its original sequence, ahead of requests made since.
+            enqueue();
+        };
+
+        const request: QueuedRequest = {
+            priority,
+            sequence: sequence++,
+            key,
+            start: () => {
+                signal?.removeEventListener('abort', onQueuedAbort);
+                runAttempt();
+            },
+            cancel: () => {
+                finish();
+                reject(createAbortError());
+            },
+        };
+
+        // Drop the request from the queue if it is cancelled while waiting for a slot.
+        const onQueuedAbort = () => {
+            const index = queue.indexOf(request);
+            if (index !== -1) {
+                queue.splice(index, 1);
+                request.cancel();
+            }
+        };
+
+        const enqueue = () => {
+            signal?.addEventListener('abort', onQueuedAbort, { once: true });
+            queue.push(request);
+            pump();
+        };
+
+        enqueue();
+    });
+}
@@ -0,0 +1,201 @@
+import { BookCount, OriginalPassage, SearchField, SearchFilters, SearchResult, Verse, OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS } from '../types';
+import { BIBLE_STRUCTURE } from '../data/bibleStructure';
+import { DEFAULT_TRANSLATION } from '../data/translations';
+import { getTextProvider } from './geminiService';
+import { getCachedEntries } from './cacheService';
+import { KoreanTextProvider, OriginalTextProvider } from './textProvider';
+import { originalPassageToVerses, parseKoreanPassage } from '../utils/passageNormalizer';
+import { countByBook, getTestament } from '../utils/referenceUtils';
+import { makeSnippet, matchesTerm, parseQuery, SearchScript, Token, tokenize } from '../utils/searchUtils';
+
+const ALL_BOOKS = [...OLD_TESTAMENT_BOOKS, ...NEW_TESTAMENT_BOOKS];
+const RESULT_LIMIT = 200;
+
+interface ChapterText {
+  book: string;
+  chapter: string;
+  verses: Verse[];
+}
+
+interface IndexedVerse {
+  book: string;
+  chapter: string;
+  verse: string;
+  testament: '구약성경' | '신약성경';
+  field: SearchField;
+  text: string;
+  tokens: Token[];
+}
+
+export interface SearchIndex {
+  verses: IndexedVerse[];
+  // Per script: normalized word -> positions in `verses`
+  vocabulary: Record<SearchScript, Map<string, number[]>>;
+  koreanChapters: number;
+  originalChapters: number;
+  isFullText: boolean; // every chapter is indexed, not just cached ones
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  bookCounts: BookCount[]; // over the testament filter only, for choosing a book
+}
+
+const fullTextChapters = new Map<string, Promise<ChapterText[]>>();
+
+const canonicalOrder = (a: ChapterText, b: ChapterText) =>
+  (ALL_BOOKS.indexOf(a.book) - ALL_BOOKS.indexOf(b.book)) || (Number(a.chapter) - Number(b.chapter));
+
+/**
+ * Reads every chapter of a full-text provider once per session. Books that fail to load
+ * (e.g. a file missing from the local set) are skipped.
+ */
+function loadFullText(id: string, readChapter: (book: string, chapter: string) => Promise<Verse[]>, onBookDone: () => void): Promise<ChapterText[]> {
+  let chapters = fullTextChapters.get(id);
+  if (!chapters) {
+    chapters = (async () => {
+      const result: ChapterText[] = [];
+      for (const book of ALL_BOOKS) {
+        try {
+          for (const chapter of Object.keys(BIBLE_STRUCTURE[book] || {})) {
+            result.push({ book, chapter, verses: await readChapter(book, chapter) });
+          }
+        } catch (error) {
+          console.warn(`Failed to index ${book} for search`, error);
+        }
+        onBookDone();
+      }
+      return result;
+    })();
+    fullTextChapters.set(id, chapters);
+  }
+  return chapters;
+}
+
+async function readKoreanChapter(provider: KoreanTextProvider, book: string, chapter: string): Promise<Verse[]> {
+  let text = '';
+  for await (const chunk of provider.streamChapter(book, chapter, DEFAULT_TRANSLATION)) {
+    text += chunk;
+  }
+  return parseKoreanPassage(text).verses;
+}
+
+async function readOriginalChapter(provider: OriginalTextProvider, book: string, chapter: string): Promise<Verse[]> {
+  return originalPassageToVerses(await provider.getChapter(book, chapter, getTestament(book)));
+}
+
+/**
+ * Cache keys are "<provider id>:<book>:<chapter>". Chapters from the current provider win
+ * over ones cached from another provider. Passages of other translations, cached for
+ * comparison under "<provider id>:<translation>:<book>:<chapter>", are not indexed.
+ */
+async function loadCachedChapters<T>(namespace: 'passage' | 'original-passage', providerId: string, toVerses: (value: T) => Verse[]): Promise<ChapterText[]> {
+  const chapters = new Map<string, ChapterText>();
+  const entries = await getCachedEntries<T>(namespace);
+  entries.sort((a, b) => Number(a.key.startsWith(`${providerId}:`)) - Number(b.key.startsWith(`${providerId}:`)));
+  for (const { key, value } of entries) {
+    const parts = key.split(':');
+    if (parts.length !== 3) continue;
+    const [, book, chapter] = parts;
+    if (!BIBLE_STRUCTURE[book]?.[chapter]) continue;
+    chapters.set(`${book}:${chapter}`, { book, chapter, verses: toVerses(value) });
+  }
+  return [...chapters.values()].sort(canonicalOrder);
+}
+
+/**
+ * Indexes whatever text is available without a model request: every chapter of a local
+ * provider, otherwise the chapters that have been read (cached) or downloaded for offline use.
+ */
+export async function buildSearchIndex(onProgress?: (done: number, total: number) => void): Promise<SearchIndex> {
+  const { korean, original } = getTextProvider();
+  const total = (korean.hasFullText ? ALL_BOOKS.length : 0) + (original.hasFullText ? ALL_BOOKS.length : 0);
+  let done = 0;
+  const onBookDone = () => onProgress?.(++done, total);
+
+  const [koreanChapters, originalChapters] = await Promise.all([
+    korean.hasFullText
+      ? loadFullText(korean.id, (book, chapter) => readKoreanChapter(korean, book, chapter), onBookDone)
+      : loadCachedChapters<string>('passage', korean.id, text => parseKoreanPassage(text).verses),
+    original.hasFullText
+      ? loadFullText(original.id, (book, chapter) => readOriginalChapter(original, book, chapter), onBookDone)
+      : loadCachedChapters<OriginalPassage>('original-passage', original.id, originalPassageToVerses),
+  ]);
+
+  const index: SearchIndex = {
+    verses: [],
+    vocabulary: { korean: new Map(), hebrew: new Map(), greek: new Map() },
+    koreanChapters: koreanChapters.length,
+    originalChapters: originalChapters.length,
+    isFullText: Boolean(korean.hasFullText && original.hasFullText),
+  };
+  const addChapters = (chapters: ChapterText[], field: SearchField) => {
+    for (const { book, chapter, verses } of chapters) {
+      const testament = getTestament(book);
+      const script: SearchScript = field === 'korean' ? 'korean' : testament === '구약성경' ? 'hebrew' : 'greek';
+      for (const { number, text } of verses) {
+        const position = index.verses.length;
+        const tokens = tokenize(text, script);
+        index.verses.push({ book, chapter, verse: number, testament, field, text, tokens });
+        for (const token of new Set(tokens.map(({ text: word }) => word))) {
+          const positions = index.vocabulary[script].get(token);
+          if (positions) {
+            positions.push(position);
+          } else {
+            index.vocabulary[script].set(token, [position]);
+          }
+        }
+      }
+    }
+  };
+  addChapters(koreanChapters, 'korean');
+  addChapters(originalChapters, 'original');
+  return index;
+}
+
+const compareVerses = (a: IndexedVerse, b: IndexedVerse) =>
+  (ALL_BOOKS.indexOf(a.book) - ALL_BOOKS.indexOf(b.book)) || (Number(a.chapter) - Number(b.chapter)) || (Number(a.verse) - Number(b.verse));
+
+/**
+ * Finds the verses containing every word of the query. The query's script picks the text
+ * searched: Korean words search the Korean text, Hebrew and Greek words the original.
+ */
+export function search(index: SearchIndex, query: string, filters: SearchFilters): SearchResponse {
+  const { script, terms } = parseQuery(query);
+  if (terms.length === 0) return { results: [], total: 0, bookCounts: [] };
+
+  let matches: Set<number> | null = null;
+  for (const term of terms) {
+    const positions = new Set<number>();
+    for (const [word, wordPositions] of index.vocabulary[script]) {
+      if (matchesTerm(word, term, script)) {
+        wordPositions.forEach(position => positions.add(position));
+      }
+    }
+    matches = matches ? new Set([...matches].filter(position => positions.has(position))) : positions;
+  }
+
+  const inTestament = [...matches!]
+    .map(position => index.verses[position])
+    .filter(verse => !filters.testament || verse.testament === filters.testament)
+    .sort(compareVerses);
+  const filtered = filters.book ? inTestament.filter(verse => verse.book === filters.book) : inTestament;
+
+  const results = filtered.slice(0, RESULT_LIMIT).map(verse => {
+    const highlights = verse.tokens
+      .filter(token => terms.some(term => matchesTerm(token.text, term, script)))
+      .map(token => [token.start, token.end] as [number, number]);
+    const snippet = makeSnippet(verse.text, highlights);
+    return {
+      book: verse.book,
+      chapter: verse.chapter,
+      verse: verse.verse,
+      testament: verse.testament,
+      field: verse.field,
+      snippet: snippet.text,
+      highlights: snippet.highlights,
+    };
+  });
+  return { results, total: filtered.length, bookCounts: countByBook(inTestament) };
+}
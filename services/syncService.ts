@@ -0,0 +1,188 @@
+import { Annotations, ReadingLogEntry, SyncConfig, SyncRecord, SyncRequest, SyncResponse } from '../types';
+import { getReadingLog, saveReadingLog } from '../utils/trackerUtils';
+import { getAnnotations, saveAnnotations } from '../utils/annotationUtils';
+import { getEditTimes, highlightRecordId, noteRecordId, readingRecordId } from '../utils/editTimeUtils';
+
+const SYNC_CONFIG_STORAGE_KEY = 'bibleSyncConfig';
+const SYNC_STATE_STORAGE_KEY = 'bibleSyncState';
+const SYNC_TIMEOUT_MS = 15000;
+
+export const DEFAULT_SYNC_SERVER_URL = process.env.SYNC_SERVER_URL || 'http://localhost:8787';
+
+interface SyncState {
+  deviceId: string;
+  revision: number;
+  lastSyncedAt: number | null;
+  // Record id -> JSON of the value this device and the server last agreed on.
+  synced: Record<string, string>;
+}
+
+export class SyncError extends Error {
+  readonly offline: boolean;
+
+  constructor(message: string, offline = false) {
+    super(message);
+    this.name = 'SyncError';
+    this.offline = offline;
+  }
+}
+
+export function getSyncConfig(): SyncConfig | null {
+  try {
+    const config = localStorage.getItem(SYNC_CONFIG_STORAGE_KEY);
+    return config ? JSON.parse(config) : null;
+  } catch (error) {
+    console.error("Failed to parse sync config from localStorage", error);
+    return null;
+  }
+}
+
+function getSyncState(): SyncState {
+  try {
+    const stored = localStorage.getItem(SYNC_STATE_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.error("Failed to parse sync state from localStorage", error);
+  }
+  return { deviceId: crypto.randomUUID(), revision: 0, lastSyncedAt: null, synced: {} };
+}
+
+function saveSyncState(state: SyncState) {
+  try {
+    localStorage.setItem(SYNC_STATE_STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error("Failed to save sync state to localStorage", error);
+  }
+}
+
+/**
+ * Connecting to a different server or key starts over from revision 0, so everything on
+ * this device is offered to the new space and everything already there is pulled down.
+ */
+export function saveSyncConfig(config: SyncConfig | null) {
+  const state = getSyncState();
+  saveSyncState({ deviceId: state.deviceId, revision: 0, lastSyncedAt: null, synced: {} });
+  if (config) {
+    localStorage.setItem(SYNC_CONFIG_STORAGE_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(SYNC_CONFIG_STORAGE_KEY);
+  }
+}
+
+export function getLastSyncedAt(): number | null {
+  return getSyncState().lastSyncedAt;
+}
+
+/**
+ * Splits local data into syncable records: one per read chapter (all of its completions),
+ * one per highlighted verse and one per note.
+ */
+function buildLocalRecords(log: ReadingLogEntry[], annotations: Annotations): Map<string, unknown> {
+  const records = new Map<string, unknown>();
+  for (const entry of log) {
+    const id = readingRecordId(entry.book, entry.chapter);
+    const entries = (records.get(id) as ReadingLogEntry[] | undefined) || [];
+    entries.push(entry);
+    records.set(id, entries);
+  }
+  for (const [key, color] of Object.entries(annotations.highlights)) {
+    records.set(highlightRecordId(key), color);
+  }
+  for (const note of Object.values(annotations.notes)) {
+    records.set(noteRecordId(note.id), note);
+  }
+  return records;
+}
+
+const toJson = (value: unknown) => JSON.stringify(value ?? null);
+
+function applyRecord(record: SyncRecord, log: ReadingLogEntry[], annotations: Annotations): ReadingLogEntry[] {
+  const separator = record.id.indexOf(':');
+  const kind = record.id.slice(0, separator);
+  const key = record.id.slice(separator + 1);
+  if (kind === 'reading') {
+    const [book, chapter] = key.split('/');
+    const others = log.filter(entry => entry.book !== book || entry.chapter !== chapter);
+    return Array.isArray(record.value) ? [...others, ...record.value] : others;
+  }
+  if (kind === 'highlight') {
+    if (record.value) annotations.highlights[key] = record.value as Annotations['highlights'][string];
+    else delete annotations.highlights[key];
+  } else if (kind === 'note') {
+    if (record.value) annotations.notes[key] = record.value as Annotations['notes'][string];
+    else delete annotations.notes[key];
+  }
+  return log;
+}
+
+async function postSync(config: SyncConfig, request: SyncRequest): Promise<SyncResponse> {
+  let response: Response;
+  try {
+    response = await fetch(`${config.serverUrl.replace(/\/+$/, '')}/sync`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${config.syncKey}` },
+      body: JSON.stringify(request),
+      signal: AbortSignal.timeout(SYNC_TIMEOUT_MS),
+    });
+  } catch {
+    throw new SyncError('동기화 서버에 연결할 수 없습니다.', true);
+  }
+  if (response.status === 401) {
+    throw new SyncError('동기화 키가 올바르지 않습니다.');
+  }
+  if (!response.ok) {
+    throw new SyncError(`동기화 서버 오류 (${response.status})`);
+  }
+  return response.json();
+}
+
+/**
+ * Pushes local edits made since the last sync and applies what other devices changed.
+ * A local edit is stamped with its own time (notes carry one; other records are stamped when
+ * saved, see editTimeUtils); the server keeps the newest edit per record. Returns whether
+ * local data changed.
+ */
+export async function syncNow(): Promise<{ changed: boolean }> {
+  const config = getSyncConfig();
+  if (!config) return { changed: false };
+
+  const state = getSyncState();
+  const sentRecords = buildLocalRecords(getReadingLog(), getAnnotations());
+  const editTimes = getEditTimes();
+  const now = Date.now();
+  const changes: SyncRecord[] = [];
+  for (const id of new Set([...sentRecords.keys(), ...Object.keys(state.synced)])) {
+    const value = sentRecords.get(id) ?? null;
+    if (toJson(value) === (state.synced[id] ?? toJson(null))) continue;
+    const noteUpdatedAt = id.startsWith('note:') && value ? (value as { updatedAt?: number }).updatedAt : undefined;
+    changes.push({ id, value, updatedAt: noteUpdatedAt ?? editTimes[id] ?? now, deviceId: state.deviceId });
+  }
+
+  const response = await postSync(config, { since: state.revision, changes });
+
+  // Re-read local data: edits made while the request was in flight are kept and sent next time.
+  const annotations = getAnnotations();
+  let log = getReadingLog();
+  const currentRecords = buildLocalRecords(log, annotations);
+  let changed = false;
+  for (const record of response.changes) {
+    const remoteJson = toJson(record.value);
+    const editedInFlight = toJson(currentRecords.get(record.id)) !== toJson(sentRecords.get(record.id));
+    if (!editedInFlight && toJson(currentRecords.get(record.id)) !== remoteJson) {
+      log = applyRecord(record, log, annotations);
+      changed = true;
+    }
+    if (record.value === null) {
+      delete state.synced[record.id];
+    } else {
+      state.synced[record.id] = remoteJson;
+    }
+  }
+
+  if (changed) {
+    saveReadingLog(log.sort((a, b) => (a.readAt ?? 0) - (b.readAt ?? 0)));
+    saveAnnotations(annotations);
+  }
+  saveSyncState({ ...state, revision: response.revision, lastSyncedAt: Date.now() });
+  return { changed };
+}
@@ -0,0 +1,35 @@
+import { OriginalPassage, TaggedBook, TaggedWord, TranslationId } from '../types';
+import { ScheduleOptions } from './requestScheduler';
+
+/**
+ * Supplies the passage text of a translation (Korean, or English for comparison).
+ * Implementations must yield text in the "1. [절 내용]" line format that BibleText parses.
+ */
+export interface KoreanTextProvider {
+  readonly id: string;
+  // True when every chapter can be read without a model request, so search can index them all.
+  readonly hasFullText?: boolean;
+  // The translations this provider can supply; any translation when omitted.
+  readonly translations?: TranslationId[];
+  streamChapter(book: string, chapter: string, translation: TranslationId, verseCount?: number, options?: ScheduleOptions): AsyncGenerator<string>;
+  // Re-requests specific verses, in the same line format, when a chapter came back incomplete.
+  fetchVerses?(book: string, chapter: string, translation: TranslationId, verseNumbers: string[], options?: ScheduleOptions): Promise<string>;
+}
+
+/**
+ * Supplies the original-language (Hebrew/Greek) passage keyed by verse number.
+ */
+export interface OriginalTextProvider {
+  readonly id: string;
+  readonly hasFullText?: boolean;
+  getChapter(book: string, chapter: string, testament: '구약성경' | '신약성경', options?: ScheduleOptions): Promise<OriginalPassage>;
+  getVerses?(book: string, chapter: string, testament: '구약성경' | '신약성경', verseNumbers: string[], options?: ScheduleOptions): Promise<OriginalPassage>;
+  // Word-level lemma and morphology, for providers backed by a tagged text.
+  getTaggedVerse?(book: string, chapter: string, verse: string, testament: '구약성경' | '신약성경'): Promise<TaggedWord[]>;
+  getTaggedBook?(book: string, testament: '구약성경' | '신약성경'): Promise<TaggedBook>;
+}
+
+export interface TextProvider {
+  korean: KoreanTextProvider;
+  original: OriginalTextProvider;
+}
@@ -1,3 +1,27 @@
+export type MorphologySystem = 'oshb' | 'rmac' | 'morphgnt';
+
+// Values are Korean labels; '해당 없음' where a category does not apply to the word.
+export interface HebrewMorphology {
+  language: 'hebrew';
+  stem: string; // binyan, e.g. "칼 (Qal)", "히필 (Hiphil)"
+  conjugation: string; // e.g. "완료 (Qatal)", "와우 연속 미완료 (Wayyiqtol)"
+  person: string;
+  state: string; // 절대형, 연계형
+  definiteness: string;
+  suffix?: string; // pronominal suffix, e.g. "3인칭 남성 단수"
+}
+
+export interface GreekMorphology {
+  language: 'greek';
+  tense: string;
+  voice: string;
+  mood: string;
+  person: string;
+  definiteness: string;
+}
+
+export type WordMorphology = HebrewMorphology | GreekMorphology;
+
 export interface WordDefinition {
   originalWord: string;
   transliteration: string;
@@ -6,21 +30,144 @@ export interface WordDefinition {
   number: string;
   case: string;
   basicMeaning: string;
+  // The next fields are missing from definitions cached before they were added.
+  lemma?: string; // dictionary form
+  strongsNumber?: string; // "H7225" or "G3056"; '' when unknown
+  morphologyCode?: string; // full parse code, e.g. "HNcfsa" (OSHB) or "N-NSM" (Robinson)
+  morphologySystem?: MorphologySystem;
+  lexiconGloss?: string; // definition from the bundled lexicon
+  lexiconSource?: 'model' | 'local'; // where lemma and Strong's number came from
+  morphology?: WordMorphology;
+}
+
+// A word of a morphologically tagged original text (WLC or MorphGNT).
+export interface TaggedWord {
+  text: string;
+  lemma: string; // WLC: the Strong's-based lemma attribute, e.g. "b/7225"; MorphGNT: the dictionary form
+  strongsNumber?: string; // Hebrew only, e.g. "H7225"
+  morphologyCode: string;
+  morphologySystem: MorphologySystem;
+}
+
+export type TaggedBook = Record<string, Record<string, TaggedWord[]>>; // chapter -> verse -> words
+
+// A lemma to look up in the concordance: Strong's number for Hebrew, normalized lemma for Greek.
+export interface ConcordanceLemma {
+  key: string;
+  lemma: string; // for display
+  strongsNumber?: string;
+  testament: '구약성경' | '신약성경';
+}
+
+export interface ConcordanceOccurrence {
+  book: string;
+  chapter: string;
+  verse: string;
+  word: string; // the inflected form in the text
+}
+
+export interface BookCount {
+  book: string;
+  count: number;
+}
+
+export type SearchField = 'korean' | 'original';
+
+export interface SearchResult {
+  book: string;
+  chapter: string;
+  verse: string;
+  testament: '구약성경' | '신약성경';
+  field: SearchField;
+  snippet: string;
+  highlights: [number, number][]; // character ranges within the snippet
+}
+
+export interface SearchFilters {
+  testament: '구약성경' | '신약성경' | null;
+  book: string | null;
+}
+
+export type ReviewDirection = 'recognition' | 'recall'; // original -> meaning, meaning -> original
+
+// 0-5 as in SM-2; below 3 is a failed recall.
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+// The SM-2 state of one direction of a vocabulary card.
+export interface ReviewSchedule {
+  easeFactor: number;
+  interval: number; // days until the next review
+  repetitions: number; // successful reviews in a row
+  dueDate: string; // local date key, "YYYY-MM-DD"
+  lastReviewedAt: number | null;
+}
+
+export interface VocabularyCard {
+  id: string; // the original word
+  definition: WordDefinition;
+  ref: VerseRef; // where the word was saved from
+  verseText: string; // the Korean verse, shown as context
+  hasAudio: boolean; // the pronunciation is pinned in the word-audio cache
+  addedAt: number;
+  schedules: Record<ReviewDirection, ReviewSchedule>;
 }
 
 export interface TooltipData {
   x: number;
   y: number;
   word: string;
+  chapter: string; // The chapter of the hovered word, since a passage can span chapters
   verseNumber: string; // The verse number where the word was hovered
   definition: WordDefinition | null;
   isLoading: boolean;
   error: string | null;
+  pinned: boolean; // opened by click, tap or keyboard; stays open until closed
 }
 
 export type BibleBookStructure = Record<string, number>; // Chapter -> Verse count
 export type OriginalPassage = Record<string, string>; // verse number -> text
 
+export interface Verse {
+  number: string;
+  text: string;
+}
+
+// Problems found when checking a model-returned passage against BIBLE_STRUCTURE.
+export interface PassageIssues {
+  missing: string[];
+  duplicated: string[];
+  merged: string[];
+  extra: string[];
+  headings: string[];
+}
+
+export interface KoreanPassage {
+  verses: Verse[];
+  text: string; // normalized "1. [절 내용]" lines
+  issues: PassageIssues;
+}
+
+export interface VerseRef {
+  book: string;
+  chapter: string;
+  verse: string;
+}
+
+export interface PassageRange {
+  start: VerseRef;
+  end: VerseRef; // inclusive; always in the same book as start
+}
+
+// One chapter's worth of a loaded passage, trimmed to the selected verses.
+export interface PassageSection {
+  chapter: string;
+  text: string;
+  chapterText: string; // the whole chapter, untrimmed; the context of word definitions
+  originalPassage: OriginalPassage | null;
+  missingVerses: string[]; // Korean verses still missing after retrying
+  missingOriginalVerses: string[];
+}
+
 export interface VerseAnalysisItem {
   koreanWord: string;
   originalWord: string;
@@ -28,8 +175,230 @@ export interface VerseAnalysisItem {
   endTime: number;   // in milliseconds
 }
 
+// One original-language word (or a phrase translated as a unit) with the Korean that renders it.
+export interface InterlinearWord {
+  originalWord: string;
+  transliteration: string;
+  gloss: string; // short Korean meaning of the original word itself
+  koreanWord: string; // the Korean words in the verse that translate it; '' when untranslated
+}
+
+export type ChapterInterlinear = Record<string, InterlinearWord[]>; // verse number -> words in original order
+
 export type ReadingStatus = Record<string, Record<string, boolean>>;
 
+export type CrossReferenceKind = 'parallel' | 'quotation' | 'thematic';
+
+export interface CrossReference {
+  kind: CrossReferenceKind;
+  range: PassageRange;
+  source: 'dataset' | 'model';
+  note?: string; // why the passage is related, when the model suggested it
+}
+
+export type TranslationId = 'nkrv' | 'rnksv' | 'kcb' | 'kjv' | 'esv';
+
+export interface Translation {
+  id: TranslationId;
+  name: string; // short column label, e.g. "개역개정"
+  promptName: string; // the edition as named to the model, e.g. "개역개정판"
+  language: 'ko' | 'en';
+}
+
+// A column of the translation comparison view: a translation, or the Hebrew/Greek text.
+export type ComparisonColumn = TranslationId | 'original';
+
+export interface DisplayPreferences {
+  interlinear: boolean; // show each verse word by word, Korean stacked over the original
+  comparison: boolean; // show the chapter as parallel translation columns
+  comparisonColumns: ComparisonColumn[];
+}
+
+export interface BookProgress {
+  read: number;
+  total: number;
+  percentage: number; // 0-100, rounded
+}
+
+export type ReadingSource = 'manual' | 'scroll' | 'audio';
+
+export interface ReadingLogEntry {
+  book: string;
+  chapter: string;
+  readAt: number | null; // null for chapters migrated from the old boolean status, whose date is unknown
+  durationMs?: number; // time spent on the chapter, when known
+  source: ReadingSource;
+}
+
+export interface ReadingStats {
+  currentStreak: number; // consecutive days with a reading, ending today or yesterday
+  longestStreak: number;
+  totalChapters: number; // distinct chapters read
+  totalTimeMs: number;
+  weeklyCounts: { weekStart: string; count: number }[]; // oldest first
+  testaments: Record<'구약성경' | '신약성경', { read: number; total: number }>;
+  dailyCounts: Record<string, number>; // date key -> chapters completed that day
+}
+
+export type ReadingPlanId = 'mcheyne' | 'canonical' | 'chronological' | 'nt90' | 'custom';
+
+export interface ReadingPlanConfig {
+  planId: ReadingPlanId;
+  startDate: string; // local date, "YYYY-MM-DD"
+  daysPerWeek: number; // 1-7; reading days run from Monday
+  books?: string[]; // custom plans only
+  chaptersPerDay?: number; // custom plans only
+}
+
+export interface ChapterRef {
+  book: string;
+  chapter: string;
+}
+
+export interface DailyReading {
+  day: number; // 1-based index among reading days
+  date: string; // "YYYY-MM-DD"
+  chapters: ChapterRef[];
+}
+
+export interface ReadingPlanProgress {
+  totalDays: number;
+  dueDays: number; // reading days up to and including today
+  completedDays: number;
+  daysAhead: number; // negative when behind
+}
+
+export interface GroupChallenge {
+  id: string;
+  name: string;
+  joinCode: string;
+  plan: ReadingPlanConfig; // every member follows the same plan
+  createdAt: number;
+}
+
+export interface GroupMemberProgress {
+  memberId: string;
+  displayName: string;
+  readingStatus: ReadingStatus; // plan chapters read since the plan started
+  joinedAt: number;
+  updatedAt: number;
+}
+
+export interface GroupBoard {
+  group: GroupChallenge;
+  members: GroupMemberProgress[];
+}
+
+// What this device keeps to act as a member of a group.
+export interface GroupMembership {
+  groupId: string;
+  groupName: string;
+  memberId: string;
+  memberToken: string;
+  serverUrl: string;
+}
+
+export interface LeaderboardEntry {
+  member: GroupMemberProgress;
+  rank: number;
+  read: number; // plan chapters read
+  total: number;
+  percentage: number;
+  daysAhead: number;
+  bookProgress: { book: string; progress: BookProgress }[]; // books in the plan, in plan order
+}
+
+export interface OfflineChapterInfo {
+  downloadedAt: number;
+  includesAudio: boolean;
+  includesDefinitions: boolean;
+}
+
+export type OfflineLibrary = Record<string, Record<string, OfflineChapterInfo>>; // book -> chapter -> info
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+export interface VerseNote {
+  id: string; // annotation key of the range, e.g. "요한복음/3/16" or "요한복음/3/16-3/18"
+  range: PassageRange;
+  markdown: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Annotations {
+  highlights: Record<string, HighlightColor>; // "book/chapter/verse" -> color
+  notes: Record<string, VerseNote>; // note id -> note
+}
+
+export interface Bookmark {
+  id: string; // "book/chapter" for a chapter, "book/chapter/verse" for a verse
+  book: string;
+  chapter: string;
+  verse?: string;
+  label?: string;
+  createdAt: number;
+}
+
+// The passage that was open last, so the app can offer to resume it on startup.
+export interface LastPassage {
+  range: PassageRange;
+  focusVerse: string | null; // chapter-qualified, e.g. "3:16"
+  scrollY: number;
+  savedAt: number;
+}
+
+export interface UserSettings {
+  readingPlan: ReadingPlanConfig | null;
+  lastPassage: LastPassage | null;
+  displayPreferences: DisplayPreferences | null; // null in files exported before it was included
+}
+
+// Everything the user has created, as written to an export file.
+export interface UserDataExport {
+  format: 'bible-study-user-data';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  readingLog: ReadingLogEntry[];
+  annotations: Annotations;
+  bookmarks: Bookmark[];
+  vocabulary: VocabularyCard[];
+  settings: UserSettings;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+// One synced item. Ids are "reading:book/chapter", "highlight:book/chapter/verse" or "note:<note id>";
+// a null value is a deletion.
+export interface SyncRecord {
+  id: string;
+  value: unknown;
+  updatedAt: number;
+  deviceId: string;
+}
+
+export interface SyncRequest {
+  since: number; // the last server revision this device has seen
+  changes: SyncRecord[];
+}
+
+export interface SyncResponse {
+  revision: number;
+  changes: SyncRecord[]; // records changed after `since`, plus the stored copy of every record sent
+}
+
+export interface SyncConfig {
+  serverUrl: string;
+  syncKey: string; // shared by every device that should see the same data
+}
+
+export type SyncStatus = 'disabled' | 'syncing' | 'synced' | 'offline' | 'error';
+
+export interface BookCodes {
+  usfm: string; // e.g. 'GEN', used for USFM file names
+  osis: string; // e.g. 'Gen', used for WLC (OSIS) and SBLGNT file names
+}
+
 export const OLD_TESTAMENT_BOOKS = [
   '창세기', '출애굽기', '레위기', '민수기', '신명기', '여호수아', '사사기', '룻기', 
   '사무엘상', '사무엘하', '열왕기상', '열왕기하', '역대상', '역대하', '에스라', '느헤미야', 
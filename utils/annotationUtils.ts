@@ -0,0 +1,94 @@
+import { Annotations, HighlightColor, PassageRange, VerseRef } from '../types';
+import { highlightRecordId, noteRecordId, recordEdits } from './editTimeUtils';
+
+const ANNOTATION_STORAGE_KEY = 'bibleAnnotations';
+
+export const HIGHLIGHT_COLORS: { color: HighlightColor; label: string; className: string; swatchClassName: string }[] = [
+  { color: 'yellow', label: '노랑', className: 'bg-yellow-100', swatchClassName: 'bg-yellow-300' },
+  { color: 'green', label: '초록', className: 'bg-green-100', swatchClassName: 'bg-green-300' },
+  { color: 'blue', label: '파랑', className: 'bg-sky-100', swatchClassName: 'bg-sky-300' },
+  { color: 'pink', label: '분홍', className: 'bg-pink-100', swatchClassName: 'bg-pink-300' },
+  { color: 'purple', label: '보라', className: 'bg-violet-100', swatchClassName: 'bg-violet-300' },
+];
+
+export function getHighlightClassName(color: HighlightColor | undefined): string {
+  return HIGHLIGHT_COLORS.find(option => option.color === color)?.className || '';
+}
+
+export function verseKey(ref: VerseRef): string {
+  return `${ref.book}/${ref.chapter}/${ref.verse}`;
+}
+
+export function parseVerseKey(key: string): VerseRef | null {
+  const [book, chapter, verse] = key.split('/');
+  return book && chapter && verse ? { book, chapter, verse } : null;
+}
+
+/**
+ * Notes are keyed by their range: "book/chapter/verse" for a single verse,
+ * "book/chapter/verse-chapter/verse" for a range.
+ */
+export function noteKey(range: PassageRange): string {
+  const { start, end } = range;
+  if (start.chapter === end.chapter && start.verse === end.verse) {
+    return verseKey(start);
+  }
+  return `${verseKey(start)}-${end.chapter}/${end.verse}`;
+}
+
+export function getAnnotations(): Annotations {
+  try {
+    const stored = localStorage.getItem(ANNOTATION_STORAGE_KEY);
+    const annotations = stored ? JSON.parse(stored) : {};
+    return { highlights: annotations.highlights || {}, notes: annotations.notes || {} };
+  } catch (error) {
+    console.error("Failed to parse annotations from localStorage", error);
+    return { highlights: {}, notes: {} };
+  }
+}
+
+// Highlight and note record ids -> values, for stamping edit times.
+function annotationRecords(annotations: Annotations): Map<string, unknown> {
+  return new Map<string, unknown>([
+    ...Object.entries(annotations.highlights).map(([key, color]): [string, unknown] => [highlightRecordId(key), color]),
+    ...Object.values(annotations.notes).map((note): [string, unknown] => [noteRecordId(note.id), note]),
+  ]);
+}
+
+export function saveAnnotations(annotations: Annotations) {
+  recordEdits(annotationRecords(getAnnotations()), annotationRecords(annotations));
+  try {
+    localStorage.setItem(ANNOTATION_STORAGE_KEY, JSON.stringify(annotations));
+  } catch (error) {
+    console.error("Failed to save annotations to localStorage", error);
+  }
+}
+
+export function setHighlight(ref: VerseRef, color: HighlightColor | null) {
+  const annotations = getAnnotations();
+  if (color) {
+    annotations.highlights[verseKey(ref)] = color;
+  } else {
+    delete annotations.highlights[verseKey(ref)];
+  }
+  saveAnnotations(annotations);
+}
+
+export function saveNote(range: PassageRange, markdown: string) {
+  const annotations = getAnnotations();
+  const id = noteKey(range);
+  const now = Date.now();
+  if (!markdown.trim()) {
+    delete annotations.notes[id];
+  } else {
+    const existing = annotations.notes[id];
+    annotations.notes[id] = { id, range, markdown, createdAt: existing?.createdAt ?? now, updatedAt: now };
+  }
+  saveAnnotations(annotations);
+}
+
+export function deleteNote(id: string) {
+  const annotations = getAnnotations();
+  delete annotations.notes[id];
+  saveAnnotations(annotations);
+}
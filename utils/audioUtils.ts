@@ -35,3 +35,55 @@ export function encode(bytes: Uint8Array): string {
   }
   return btoa(binary);
 }
+
+/**
+ * The loudest sample in each of `bucketCount` equal slices of the audio, 0-1, for drawing
+ * a waveform.
+ */
+export function computePeaks(samples: Float32Array, bucketCount: number): number[] {
+  const bucketSize = Math.max(1, Math.floor(samples.length / bucketCount));
+  const peaks: number[] = [];
+  for (let start = 0; start < samples.length && peaks.length < bucketCount; start += bucketSize) {
+    let peak = 0;
+    for (let i = start; i < Math.min(start + bucketSize, samples.length); i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks.push(Math.min(1, peak));
+  }
+  return peaks;
+}
+
+/**
+ * The span of the audio between its first and last sound, in seconds: the silence a
+ * recording starts and ends with is trimmed, measured in 20ms windows against a fraction
+ * of the loudest window.
+ */
+export function detectVoicedRange(samples: Float32Array, sampleRate: number, threshold = 0.1): [number, number] {
+  const windowSize = Math.max(1, Math.round(sampleRate * 0.02));
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += windowSize) {
+    let sum = 0;
+    const end = Math.min(start + windowSize, samples.length);
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    levels.push(Math.sqrt(sum / (end - start)));
+  }
+  const loudest = Math.max(0, ...levels);
+  const duration = samples.length / sampleRate;
+  if (loudest === 0) return [0, duration];
+
+  const first = levels.findIndex(level => level >= loudest * threshold);
+  let last = levels.length - 1;
+  while (last > first && levels[last] < loudest * threshold) last--;
+  return [first * windowSize / sampleRate, Math.min(duration, (last + 1) * windowSize / sampleRate)];
+}
+
+// Maps a time from one span of audio onto another proportionally, e.g. a word of the model
+// reading onto the same word of a slower recording.
+export function mapTime(time: number, from: [number, number], to: [number, number]): number {
+  const fromLength = from[1] - from[0];
+  if (fromLength <= 0) return to[0];
+  const ratio = Math.min(1, Math.max(0, (time - from[0]) / fromLength));
+  return to[0] + ratio * (to[1] - to[0]);
+}
@@ -0,0 +1,70 @@
+import { Bookmark, LastPassage } from '../types';
+
+const BOOKMARK_STORAGE_KEY = 'bibleBookmarks';
+const LAST_PASSAGE_STORAGE_KEY = 'bibleLastPassage';
+
+export function bookmarkId(book: string, chapter: string, verse?: string): string {
+  return verse ? `${book}/${chapter}/${verse}` : `${book}/${chapter}`;
+}
+
+export function getBookmarks(): Bookmark[] {
+  try {
+    const bookmarks = localStorage.getItem(BOOKMARK_STORAGE_KEY);
+    return bookmarks ? JSON.parse(bookmarks) : [];
+  } catch (error) {
+    console.error("Failed to parse bookmarks from localStorage", error);
+    return [];
+  }
+}
+
+export function saveBookmarks(bookmarks: Bookmark[]) {
+  try {
+    localStorage.setItem(BOOKMARK_STORAGE_KEY, JSON.stringify(bookmarks));
+  } catch (error) {
+    console.error("Failed to save bookmarks to localStorage", error);
+  }
+}
+
+export function addBookmark(book: string, chapter: string, verse?: string, label?: string) {
+  const id = bookmarkId(book, chapter, verse);
+  const bookmarks = getBookmarks().filter(bookmark => bookmark.id !== id);
+  bookmarks.unshift({ id, book, chapter, verse, label: label?.trim() || undefined, createdAt: Date.now() });
+  saveBookmarks(bookmarks);
+}
+
+export function removeBookmark(id: string) {
+  saveBookmarks(getBookmarks().filter(bookmark => bookmark.id !== id));
+}
+
+export function updateBookmarkLabel(id: string, label: string) {
+  saveBookmarks(getBookmarks().map(bookmark => bookmark.id === id ? { ...bookmark, label: label.trim() || undefined } : bookmark));
+}
+
+export function isBookmarked(bookmarks: Bookmark[], book: string, chapter: string, verse?: string): boolean {
+  const id = bookmarkId(book, chapter, verse);
+  return bookmarks.some(bookmark => bookmark.id === id);
+}
+
+export function formatBookmarkRef(bookmark: Bookmark): string {
+  return bookmark.verse
+    ? `${bookmark.book} ${bookmark.chapter}:${bookmark.verse}`
+    : `${bookmark.book} ${bookmark.chapter}장`;
+}
+
+export function getLastPassage(): LastPassage | null {
+  try {
+    const lastPassage = localStorage.getItem(LAST_PASSAGE_STORAGE_KEY);
+    return lastPassage ? JSON.parse(lastPassage) : null;
+  } catch (error) {
+    console.error("Failed to parse last passage from localStorage", error);
+    return null;
+  }
+}
+
+export function saveLastPassage(lastPassage: LastPassage) {
+  try {
+    localStorage.setItem(LAST_PASSAGE_STORAGE_KEY, JSON.stringify(lastPassage));
+  } catch (error) {
+    console.error("Failed to save last passage to localStorage", error);
+  }
+}
@@ -0,0 +1,22 @@
+// Dates are handled as local "YYYY-MM-DD" keys so a reading day does not shift with the time zone.
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addDays(key: string, days: number): string {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+// Monday of the week containing the date, as a date key.
+export function startOfWeek(key: string): string {
+  return addDays(key, -((parseDateKey(key).getDay() + 6) % 7));
+}
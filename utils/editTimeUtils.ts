@@ -0,0 +1,40 @@
+const EDIT_TIMES_STORAGE_KEY = 'bibleEditTimes';
+
+// Sync record ids: one per read chapter, highlighted verse and note.
+export const readingRecordId = (book: string, chapter: string) => `reading:${book}/${chapter}`;
+export const highlightRecordId = (verseKey: string) => `highlight:${verseKey}`;
+export const noteRecordId = (id: string) => `note:${id}`;
+
+/**
+ * Record id -> when this device last changed it. Sync sends this time rather than the time
+ * of the sync, so an old offline edit does not win over a newer one from another device.
+ */
+export function getEditTimes(): Record<string, number> {
+  try {
+    const stored = localStorage.getItem(EDIT_TIMES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Failed to parse edit times from localStorage", error);
+    return {};
+  }
+}
+
+/**
+ * Stamps every record whose value differs between `before` and `after` with the current time.
+ */
+export function recordEdits(before: Map<string, unknown>, after: Map<string, unknown>) {
+  const now = Date.now();
+  const editTimes = getEditTimes();
+  let changed = false;
+  for (const id of new Set([...before.keys(), ...after.keys()])) {
+    if (JSON.stringify(before.get(id) ?? null) === JSON.stringify(after.get(id) ?? null)) continue;
+    editTimes[id] = now;
+    changed = true;
+  }
+  if (!changed) return;
+  try {
+    localStorage.setItem(EDIT_TIMES_STORAGE_KEY, JSON.stringify(editTimes));
+  } catch (error) {
+    console.error("Failed to save edit times to localStorage", error);
+  }
+}
@@ -0,0 +1,53 @@
+import { DailyReading, GroupBoard, LeaderboardEntry, ReadingLogEntry, ReadingStatus } from '../types';
+import { generateReadingPlan, getReadingPlanProgress } from './readingPlanUtils';
+import { calculateBookProgress, isChapterRead } from './trackerUtils';
+import { parseDateKey } from './dateUtils';
+
+const chapterKey = (book: string, chapter: string) => `${book}/${chapter}`;
+
+/**
+ * What this device reports to a group: the plan's chapters read on or after the plan's start
+ * date. Earlier reads, and old ones without a date, don't count toward the challenge.
+ */
+export function getChallengeStatus(log: ReadingLogEntry[], plan: DailyReading[], startDate: string): ReadingStatus {
+  const planChapters = new Set(plan.flatMap(reading => reading.chapters.map(({ book, chapter }) => chapterKey(book, chapter))));
+  const startTime = parseDateKey(startDate).getTime();
+  const status: ReadingStatus = {};
+  for (const { book, chapter, readAt } of log) {
+    if (readAt === null || readAt < startTime || !planChapters.has(chapterKey(book, chapter))) continue;
+    if (!status[book]) {
+      status[book] = {};
+    }
+    status[book][chapter] = true;
+  }
+  return status;
+}
+
+/**
+ * Ranks members by how many of the plan's chapters they have read; members with the same
+ * count share a rank. Per-book progress uses the tracker's own calculation.
+ */
+export function buildLeaderboard(board: GroupBoard, today: string): LeaderboardEntry[] {
+  const plan = generateReadingPlan(board.group.plan);
+  const chapters = [...new Map(plan.flatMap(reading => reading.chapters).map(ref => [chapterKey(ref.book, ref.chapter), ref])).values()];
+  const books = [...new Set(chapters.map(({ book }) => book))];
+
+  const entries = board.members.map(member => {
+    const read = chapters.filter(({ book, chapter }) => isChapterRead(member.readingStatus, book, chapter)).length;
+    return {
+      member,
+      rank: 0,
+      read,
+      total: chapters.length,
+      percentage: chapters.length > 0 ? Math.round((read / chapters.length) * 100) : 0,
+      daysAhead: getReadingPlanProgress(plan, member.readingStatus, today).daysAhead,
+      bookProgress: books.map(book => ({ book, progress: calculateBookProgress(member.readingStatus, book) })),
+    };
+  });
+
+  entries.sort((a, b) => b.read - a.read || a.member.displayName.localeCompare(b.member.displayName, 'ko'));
+  entries.forEach((entry, index) => {
+    entry.rank = index > 0 && entries[index - 1].read === entry.read ? entries[index - 1].rank : index + 1;
+  });
+  return entries;
+}
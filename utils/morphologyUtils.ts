@@ -0,0 +1,159 @@
+import { GreekMorphology, HebrewMorphology, TaggedWord, WordMorphology } from '../types';
+
+export const NOT_APPLICABLE = '해당 없음';
+
+// The grammar fields of WordDefinition that a morphology code determines.
+export interface DecodedMorphology {
+  partOfSpeech: string;
+  gender: string;
+  number: string;
+  case: string;
+  morphology: WordMorphology;
+}
+
+const HEBREW_STEMS: Record<string, string> = {
+  q: '칼 (Qal)', Q: '칼 수동 (Qal passive)', N: '니팔 (Niphal)', p: '피엘 (Piel)', P: '푸알 (Pual)',
+  h: '히필 (Hiphil)', H: '호팔 (Hophal)', t: '히트파엘 (Hithpael)', o: '포엘 (Polel)', O: '포랄 (Polal)',
+  r: '히트포엘 (Hithpolel)', m: '포엘 (Poel)', M: '포알 (Poal)', k: '팔렐 (Palel)', K: '풀랄 (Pulal)',
+  l: '필펠 (Pilpel)', L: '폴팔 (Polpal)', f: '히트팔펠 (Hithpalpel)', D: '니트파엘 (Nithpael)',
+  j: '페알랄 (Pealal)', i: '필렐 (Pilel)', u: '호트파알 (Hothpaal)', c: '티필 (Tiphil)',
+  v: '히쉬타펠 (Hishtaphel)', w: '니트팔렐 (Nithpalel)', y: '니트포엘 (Nithpoel)', z: '히트포엘 (Hithpoel)',
+};
+
+const HEBREW_CONJUGATIONS: Record<string, string> = {
+  p: '완료 (Qatal)', q: '와우 연속 완료 (Weqatal)', i: '미완료 (Yiqtol)', w: '와우 연속 미완료 (Wayyiqtol)',
+  h: '청유형 (Cohortative)', j: '지시형 (Jussive)', v: '명령형 (Imperative)',
+  r: '능동 분사 (Participle)', s: '수동 분사 (Passive participle)',
+  a: '부정사 절대형 (Infinitive absolute)', c: '부정사 연계형 (Infinitive construct)',
+};
+
+const HEBREW_PARTS_OF_SPEECH: Record<string, string> = {
+  V: '동사', N: '명사', A: '형용사', P: '대명사', R: '전치사', C: '접속사', D: '부사', T: '불변화사',
+};
+
+const PERSONS: Record<string, string> = { '1': '1인칭', '2': '2인칭', '3': '3인칭' };
+const GENDERS: Record<string, string> = { m: '남성', f: '여성', b: '통성', c: '통성', n: '중성' };
+const NUMBERS: Record<string, string> = { s: '단수', p: '복수', d: '쌍수' };
+const STATES: Record<string, string> = { a: '절대형', c: '연계형', d: '한정형' };
+
+const label = (labels: Record<string, string>, code: string | undefined) =>
+  (code && labels[code]) || NOT_APPLICABLE;
+
+/**
+ * Decodes an OpenScriptures Hebrew Bible morphology code such as "HR/Ncfsa" or
+ * "HC/Vqw3ms/Sp3ms": a language letter, then the morphemes separated by "/". The first
+ * verb, noun, adjective or pronoun is the word itself; the rest are prefixes and suffixes.
+ */
+export function decodeOshbCode(code: string): DecodedMorphology | null {
+  const morphemes = code.slice(1).split('/').filter(Boolean);
+  const mainIndex = morphemes.findIndex(morpheme => /^[VNAP]/.test(morpheme));
+  const main = morphemes[mainIndex >= 0 ? mainIndex : morphemes.findIndex(morpheme => !morpheme.startsWith('S'))];
+  if (!main) return null;
+
+  const prefixes = mainIndex > 0 ? morphemes.slice(0, mainIndex) : [];
+  const suffix = morphemes.slice(mainIndex + 1).find(morpheme => morpheme.startsWith('Sp'));
+  const hasArticle = prefixes.some(prefix => prefix === 'Td' || prefix === 'Rd');
+  const [pos, ...rest] = main;
+
+  let partOfSpeech = HEBREW_PARTS_OF_SPEECH[pos] || NOT_APPLICABLE;
+  let stem = NOT_APPLICABLE, conjugation = NOT_APPLICABLE, person = NOT_APPLICABLE;
+  let gender = NOT_APPLICABLE, number = NOT_APPLICABLE, state = NOT_APPLICABLE;
+
+  if (pos === 'V') {
+    const [stemCode, conjugationCode, ...inflection] = rest;
+    stem = label(HEBREW_STEMS, stemCode);
+    conjugation = label(HEBREW_CONJUGATIONS, conjugationCode);
+    if (conjugationCode === 'r' || conjugationCode === 's') {
+      [gender, number, state] = [label(GENDERS, inflection[0]), label(NUMBERS, inflection[1]), label(STATES, inflection[2])];
+    } else if (conjugationCode !== 'a' && conjugationCode !== 'c') {
+      [person, gender, number] = [label(PERSONS, inflection[0]), label(GENDERS, inflection[1]), label(NUMBERS, inflection[2])];
+    }
+  } else if (pos === 'N' || pos === 'A') {
+    const [type, genderCode, numberCode, stateCode] = rest;
+    if (pos === 'N' && type === 'p') {
+      partOfSpeech = '고유명사';
+    } else {
+      if (pos === 'A' && (type === 'c' || type === 'o')) partOfSpeech = type === 'c' ? '기수' : '서수';
+      [gender, number, state] = [label(GENDERS, genderCode), label(NUMBERS, numberCode), label(STATES, stateCode)];
+    }
+  } else if (pos === 'P') {
+    const [, personCode, genderCode, numberCode] = rest;
+    [person, gender, number] = [label(PERSONS, personCode), label(GENDERS, genderCode), label(NUMBERS, numberCode)];
+  }
+
+  let definiteness = NOT_APPLICABLE;
+  const isNominal = pos === 'N' || pos === 'A' || (pos === 'V' && (rest[1] === 'r' || rest[1] === 's'));
+  if (partOfSpeech === '고유명사') {
+    definiteness = '한정 (고유명사)';
+  } else if (isNominal) {
+    definiteness = hasArticle ? '한정 (관사)'
+      : suffix ? '한정 (인칭 접미사)'
+        : state === '한정형' ? '한정'
+          : state === '연계형' ? '뒤따르는 명사에 따름'
+            : '비한정';
+  }
+
+  const morphology: HebrewMorphology = { language: 'hebrew', stem, conjugation, person, state, definiteness };
+  if (suffix) {
+    morphology.suffix = [label(PERSONS, suffix[2]), label(GENDERS, suffix[3]), label(NUMBERS, suffix[4])].join(' ');
+  }
+  return { partOfSpeech, gender, number, case: NOT_APPLICABLE, morphology };
+}
+
+const GREEK_PARTS_OF_SPEECH: Record<string, string> = {
+  'A-': '형용사', 'C-': '접속사', 'D-': '부사', 'I-': '감탄사', 'N-': '명사', 'P-': '전치사',
+  'RA': '관사', 'RD': '지시대명사', 'RI': '의문/부정대명사', 'RP': '인칭대명사', 'RR': '관계대명사',
+  'V-': '동사', 'X-': '불변화사',
+};
+const GREEK_TENSES: Record<string, string> = { P: '현재', I: '미완료', F: '미래', A: '부정과거', X: '완료', Y: '과거완료' };
+const GREEK_VOICES: Record<string, string> = { A: '능동태', M: '중간태', P: '수동태' };
+const GREEK_MOODS: Record<string, string> = { I: '직설법', D: '명령법', S: '가정법', O: '희구법', N: '부정사', P: '분사' };
+const GREEK_CASES: Record<string, string> = { N: '주격', G: '소유격', D: '여격', A: '대격', V: '호격' };
+const GREEK_GENDERS: Record<string, string> = { M: '남성', F: '여성', N: '중성' };
+const GREEK_NUMBERS: Record<string, string> = { S: '단수', P: '복수' };
+
+/**
+ * Decodes a MorphGNT code, "<part of speech> <parse>", where the eight parse characters are
+ * person, tense, voice, mood, case, number, gender and degree ("-" when not applicable).
+ * Whether the word has an article comes from the surrounding words, so the caller passes it.
+ */
+export function decodeMorphGntCode(code: string, hasArticle?: boolean): DecodedMorphology | null {
+  const [pos, parse = ''] = code.split(' ');
+  if (!pos || !GREEK_PARTS_OF_SPEECH[pos]) return null;
+  const [personCode, tenseCode, voiceCode, moodCode, caseCode, numberCode, genderCode] = parse;
+  const caseLabel = label(GREEK_CASES, caseCode);
+  const isNominal = caseLabel !== NOT_APPLICABLE && pos !== 'RA';
+
+  const morphology: GreekMorphology = {
+    language: 'greek',
+    tense: label(GREEK_TENSES, tenseCode),
+    voice: label(GREEK_VOICES, voiceCode),
+    mood: label(GREEK_MOODS, moodCode),
+    person: label(PERSONS, personCode),
+    definiteness: isNominal && hasArticle !== undefined ? (hasArticle ? '한정 (관사)' : '관사 없음') : NOT_APPLICABLE,
+  };
+  return {
+    partOfSpeech: GREEK_PARTS_OF_SPEECH[pos],
+    gender: label(GREEK_GENDERS, genderCode),
+    number: label(GREEK_NUMBERS, numberCode),
+    case: caseLabel,
+    morphology,
+  };
+}
+
+const greekCase = (word: TaggedWord) => word.morphologyCode.split(' ')[1]?.[4];
+
+/**
+ * Decodes the code of a word of a tagged verse. A Greek word counts as articular when one
+ * of the two words before it is an article in the same case: "ὁ λόγος", or with an
+ * adjective in between.
+ */
+export function decodeTaggedWord(words: TaggedWord[], word: TaggedWord): DecodedMorphology | null {
+  if (word.morphologySystem === 'oshb') {
+    return decodeOshbCode(word.morphologyCode);
+  }
+  const index = words.indexOf(word);
+  const hasArticle = words.slice(Math.max(0, index - 2), index)
+    .some(previous => previous.morphologyCode.startsWith('RA ') && greekCase(previous) === greekCase(word));
+  return decodeMorphGntCode(word.morphologyCode, hasArticle);
+}
@@ -0,0 +1,35 @@
+import { TaggedWord } from '../types';
+
+// Hebrew points and cantillation marks, leaving out the maqaf, paseq and sof pasuq punctuation.
+const HEBREW_MARKS = /[\u0591-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7]/g;
+// Combining diacritics left after NFD: Greek accents and breathings.
+const COMBINING_MARKS = /[\u0300-\u036F]/g;
+const PUNCTUATION = /[.,;:!?()[\]"'\u00B7\u0387\u2018\u2019\u201C\u201D\u05BE\u05C0\u05C3/]/g;
+
+/**
+ * Reduces a Hebrew or Greek word to its bare letters so forms that differ only in vowel
+ * points, accents, breathing marks, case or punctuation compare equal.
+ */
+export function normalizeOriginalWord(word: string): string {
+  return word
+    .replace(HEBREW_MARKS, '')
+    .normalize('NFD')
+    .replace(COMBINING_MARKS, '')
+    .replace(PUNCTUATION, '')
+    .toLowerCase()
+    // Final sigma is the same letter as medial sigma.
+    .replace(/ς/g, 'σ')
+    .trim();
+}
+
+/**
+ * The tagged word a model-reported original word refers to: an exact match of the bare letters
+ * first, then a word that contains it (the model often leaves off prefixed prepositions).
+ */
+export function findTaggedWord(words: TaggedWord[], originalWord: string): TaggedWord | undefined {
+  const target = normalizeOriginalWord(originalWord);
+  if (!target) return undefined;
+  const normalized = words.map(word => ({ word, text: normalizeOriginalWord(word.text) }));
+  return normalized.find(({ text }) => text === target)?.word
+    || normalized.find(({ text }) => text && (text.includes(target) || target.includes(text)))?.word;
+}
@@ -0,0 +1,171 @@
+import { Verse, PassageIssues, OriginalPassage } from '../types';
+
+const VERSE_LINE_PATTERN = /^(\d+)\.\s*(.*)$/;
+const MERGED_LINE_PATTERN = /^(\d+)\s*[-~]\s*(\d+)\.\s*(.*)$/;
+
+export function emptyIssues(): PassageIssues {
+  return { missing: [], duplicated: [], merged: [], extra: [], headings: [] };
+}
+
+function byVerseNumber(a: Verse, b: Verse): number {
+  return Number(a.number) - Number(b.number);
+}
+
+/**
+ * Splits "16. ... 17. ..." when the model ran consecutive verses together on one line.
+ */
+function splitInlineVerses(number: string, text: string): Verse[] {
+  const verses: Verse[] = [];
+  let current = { number, text: '' };
+  let rest = text;
+  while (rest) {
+    const next = String(Number(current.number) + 1);
+    const markerIndex = rest.search(new RegExp(`(^|\\s)${next}\\.\\s`));
+    if (markerIndex === -1) {
+      current.text += rest;
+      break;
+    }
+    current.text += rest.substring(0, markerIndex);
+    verses.push({ number: current.number, text: current.text.trim() });
+    rest = rest.substring(markerIndex).replace(new RegExp(`^\\s*${next}\\.\\s*`), '');
+    current = { number: next, text: '' };
+  }
+  verses.push({ number: current.number, text: current.text.trim() });
+  return verses;
+}
+
+/**
+ * Parses the "1. [절 내용]" lines of a Korean passage into verses, dropping
+ * headings and commentary, keeping the first copy of duplicated verses, and
+ * treating merged verses ("16-17. ...") as missing so they can be re-fetched.
+ */
+export function parseKoreanPassage(raw: string): { verses: Verse[]; issues: PassageIssues } {
+  const issues = emptyIssues();
+  const verseMap = new Map<string, string>();
+
+  for (const rawLine of raw.split('\n')) {
+    // Models occasionally wrap numbers in markdown emphasis ("**1.** ...").
+    const line = rawLine.replace(/\*\*/g, '').replace(/^#+\s*/, '').trim();
+    if (!line) continue;
+
+    const mergedMatch = line.match(MERGED_LINE_PATTERN);
+    if (mergedMatch) {
+      for (let n = Number(mergedMatch[1]); n <= Number(mergedMatch[2]); n++) {
+        issues.merged.push(String(n));
+      }
+      continue;
+    }
+
+    const match = line.match(VERSE_LINE_PATTERN);
+    if (!match) {
+      issues.headings.push(line);
+      continue;
+    }
+
+    for (const verse of splitInlineVerses(String(Number(match[1])), match[2])) {
+      if (verseMap.has(verse.number)) {
+        issues.duplicated.push(verse.number);
+      } else {
+        verseMap.set(verse.number, verse.text);
+      }
+    }
+  }
+
+  const verses = [...verseMap.entries()].map(([number, text]) => ({ number, text })).sort(byVerseNumber);
+  return { verses, issues };
+}
+
+function stripCodeFence(text: string): string {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return fenced ? fenced[1] : text.trim();
+}
+
+/**
+ * Parses an original-language passage returned as JSON. Accepts a verse map
+ * ({"1": "..."}), keys like "1절", or an array of strings or {verse, text} objects.
+ */
+export function parseOriginalPassage(raw: string): Verse[] {
+  const body = stripCodeFence(raw);
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    const objectMatch = body.match(/\{[\s\S]*\}/);
+    if (!objectMatch) {
+      throw new Error('원어 본문 응답을 해석할 수 없습니다.');
+    }
+    data = JSON.parse(objectMatch[0]);
+  }
+
+  const verses: Verse[] = [];
+  if (Array.isArray(data)) {
+    data.forEach((item, index) => {
+      if (typeof item === 'string') {
+        verses.push({ number: String(index + 1), text: item });
+      } else if (item && typeof item === 'object') {
+        const { verse, number, text } = item as Record<string, unknown>;
+        const verseNumber = String(verse ?? number ?? index + 1).match(/\d+/)?.[0];
+        if (verseNumber && typeof text === 'string') verses.push({ number: verseNumber, text });
+      }
+    });
+  } else if (data && typeof data === 'object') {
+    for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+      const verseNumber = key.match(/\d+/)?.[0];
+      if (verseNumber && typeof value === 'string') {
+        verses.push({ number: String(Number(verseNumber)), text: value });
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  return verses
+    .map(verse => ({ number: verse.number, text: verse.text.trim() }))
+    .filter(verse => verse.text && !seen.has(verse.number) && seen.add(verse.number))
+    .sort(byVerseNumber);
+}
+
+/**
+ * Fills in issues.missing and issues.extra against the expected verse count.
+ */
+export function checkVerseCount(verses: Verse[], verseCount: number | undefined, issues: PassageIssues = emptyIssues()): PassageIssues {
+  if (!verseCount) return issues;
+  const present = new Set(verses.map(verse => verse.number));
+  issues.missing = [];
+  for (let n = 1; n <= verseCount; n++) {
+    if (!present.has(String(n))) issues.missing.push(String(n));
+  }
+  issues.extra = verses.filter(verse => Number(verse.number) > verseCount).map(verse => verse.number);
+  return issues;
+}
+
+/**
+ * Adds re-fetched verses, without overwriting verses that were already present.
+ */
+export function mergeVerses(verses: Verse[], additions: Verse[]): Verse[] {
+  const merged = new Map(verses.map(verse => [verse.number, verse.text]));
+  for (const verse of additions) {
+    if (!merged.has(verse.number)) merged.set(verse.number, verse.text);
+  }
+  return [...merged.entries()].map(([number, text]) => ({ number, text })).sort(byVerseNumber);
+}
+
+export function versesToText(verses: Verse[]): string {
+  return verses.map(verse => `${verse.number}. ${verse.text}`).join('\n');
+}
+
+export function versesToOriginalPassage(verses: Verse[]): OriginalPassage {
+  return Object.fromEntries(verses.map(verse => [verse.number, verse.text]));
+}
+
+export function originalPassageToVerses(passage: OriginalPassage): Verse[] {
+  return Object.entries(passage).map(([number, text]) => ({ number, text })).sort(byVerseNumber);
+}
+
+export function findMissingVerses(verseNumbers: string[], from: number, to: number): string[] {
+  const present = new Set(verseNumbers);
+  const missing: string[] = [];
+  for (let n = from; n <= to; n++) {
+    if (!present.has(String(n))) missing.push(String(n));
+  }
+  return missing;
+}
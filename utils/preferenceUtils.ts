@@ -0,0 +1,27 @@
+import { DisplayPreferences } from '../types';
+
+const PREFERENCES_STORAGE_KEY = 'bibleDisplayPreferences';
+
+const DEFAULT_PREFERENCES: DisplayPreferences = {
+  interlinear: false,
+  comparison: false,
+  comparisonColumns: ['nkrv', 'rnksv', 'original'],
+};
+
+export function getDisplayPreferences(): DisplayPreferences {
+  try {
+    const stored = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    return { ...DEFAULT_PREFERENCES, ...(stored ? JSON.parse(stored) : {}) };
+  } catch (error) {
+    console.error("Failed to parse display preferences from localStorage", error);
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+export function saveDisplayPreferences(preferences: DisplayPreferences) {
+  try {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error("Failed to save display preferences to localStorage", error);
+  }
+}
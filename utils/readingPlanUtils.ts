@@ -0,0 +1,136 @@
+import { ChapterRef, DailyReading, PassageRange, ReadingPlanConfig, ReadingPlanProgress, ReadingStatus, OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS } from '../types';
+import { BIBLE_STRUCTURE } from '../data/bibleStructure';
+import { READING_PLANS, ReadingPlanDefinition } from '../data/readingPlans';
+import { isChapterRead } from './trackerUtils';
+import { getVerseCount } from './referenceUtils';
+import { parseDateKey, toDateKey } from './dateUtils';
+
+const READING_PLAN_STORAGE_KEY = 'bibleReadingPlan';
+const DEFAULT_CHAPTERS_PER_DAY = 3;
+
+export function getReadingPlanConfig(): ReadingPlanConfig | null {
+  try {
+    const config = localStorage.getItem(READING_PLAN_STORAGE_KEY);
+    return config ? JSON.parse(config) : null;
+  } catch (error) {
+    console.error("Failed to parse reading plan from localStorage", error);
+    return null;
+  }
+}
+
+export function saveReadingPlanConfig(config: ReadingPlanConfig) {
+  try {
+    localStorage.setItem(READING_PLAN_STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error("Failed to save reading plan to localStorage", error);
+  }
+}
+
+export function clearReadingPlanConfig() {
+  localStorage.removeItem(READING_PLAN_STORAGE_KEY);
+}
+
+export function getPlanDefinition(config: ReadingPlanConfig): ReadingPlanDefinition {
+  return READING_PLANS.find(plan => plan.id === config.planId) || READING_PLANS[0];
+}
+
+function bookChapters(books: string[]): ChapterRef[] {
+  return books.flatMap(book => Object.keys(BIBLE_STRUCTURE[book] || {}).map(chapter => ({ book, chapter })));
+}
+
+// Splits chapters into `days` consecutive portions whose sizes differ by at most one.
+function spreadChapters(chapters: ChapterRef[], days: number): ChapterRef[][] {
+  return Array.from({ length: days }, (_, day) =>
+    chapters.slice(Math.floor((day * chapters.length) / days), Math.floor(((day + 1) * chapters.length) / days)));
+}
+
+function readingDates(startDate: string, count: number, daysPerWeek: number): string[] {
+  const dates: string[] = [];
+  const date = parseDateKey(startDate || '');
+  // A hand-edited or imported config may lack these; without a valid date or day count the loop never ends.
+  if (Number.isNaN(date.getTime())) return dates;
+  const activeDays = Number.isFinite(daysPerWeek) ? Math.min(7, Math.max(1, Math.floor(daysPerWeek))) : 7;
+  while (dates.length < count) {
+    // Monday is 0, so a five-day plan reads Monday to Friday.
+    if ((date.getDay() + 6) % 7 < activeDays) {
+      dates.push(toDateKey(date));
+    }
+    date.setDate(date.getDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * Generates the plan's daily assignments from BIBLE_STRUCTURE. Built-in plans spread each
+ * track over a fixed number of days; custom plans read their books at chaptersPerDay.
+ */
+export function generateReadingPlan(config: ReadingPlanConfig): DailyReading[] {
+  const definition = getPlanDefinition(config);
+  let portionsByTrack: ChapterRef[][][];
+
+  if (definition.id === 'custom') {
+    const books = [...OLD_TESTAMENT_BOOKS, ...NEW_TESTAMENT_BOOKS].filter(book => config.books?.includes(book));
+    const chapters = bookChapters(books);
+    const perDay = Math.max(1, config.chaptersPerDay || DEFAULT_CHAPTERS_PER_DAY);
+    portionsByTrack = [spreadChapters(chapters, Math.ceil(chapters.length / perDay))];
+  } else {
+    portionsByTrack = definition.tracks.map(books => spreadChapters(bookChapters(books), definition.days));
+  }
+
+  const dayCount = Math.max(0, ...portionsByTrack.map(portions => portions.length));
+  const dates = readingDates(config.startDate, dayCount, config.daysPerWeek);
+  return dates.map((date, index) => ({
+    day: index + 1,
+    date,
+    chapters: portionsByTrack.flatMap(portions => portions[index] || []),
+  }));
+}
+
+/**
+ * Groups consecutive chapters of the same book into whole-chapter ranges, e.g. 창세기 1-3장.
+ */
+export function groupReadingChapters(chapters: ChapterRef[]): PassageRange[] {
+  const ranges: PassageRange[] = [];
+  for (const { book, chapter } of chapters) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end.book === book && Number(last.end.chapter) + 1 === Number(chapter)) {
+      last.end = { book, chapter, verse: String(getVerseCount(book, chapter)) };
+    } else {
+      ranges.push({
+        start: { book, chapter, verse: '1' },
+        end: { book, chapter, verse: String(getVerseCount(book, chapter)) },
+      });
+    }
+  }
+  return ranges;
+}
+
+export function isReadingComplete(reading: DailyReading, status: ReadingStatus): boolean {
+  return reading.chapters.every(({ book, chapter }) => isChapterRead(status, book, chapter));
+}
+
+export function getReadingForDate(plan: DailyReading[], date: string): DailyReading | null {
+  return plan.find(reading => reading.date === date) || null;
+}
+
+/**
+ * The first reading day from `date` on, for showing what comes next on a rest day.
+ */
+export function getNextReading(plan: DailyReading[], date: string): DailyReading | null {
+  return plan.find(reading => reading.date >= date) || null;
+}
+
+/**
+ * Compares finished reading days with the days due so far. A chapter read once counts
+ * for every day that assigns it, since ReadingStatus only records whether it was read.
+ */
+export function getReadingPlanProgress(plan: DailyReading[], status: ReadingStatus, today: string): ReadingPlanProgress {
+  const dueDays = plan.filter(reading => reading.date <= today).length;
+  const completedDays = plan.filter(reading => isReadingComplete(reading, status)).length;
+  return {
+    totalDays: plan.length,
+    dueDays,
+    completedDays,
+    daysAhead: completedDays - dueDays,
+  };
+}
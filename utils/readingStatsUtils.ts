@@ -0,0 +1,65 @@
+import { ReadingLogEntry, ReadingStats, OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS } from '../types';
+import { BIBLE_STRUCTURE } from '../data/bibleStructure';
+import { addDays, startOfWeek, toDateKey } from './dateUtils';
+
+const WEEKS_SHOWN = 12;
+
+function countChapters(books: string[]): number {
+  return books.reduce((sum, book) => sum + Object.keys(BIBLE_STRUCTURE[book] || {}).length, 0);
+}
+
+function countReadChapters(entries: ReadingLogEntry[], books: string[]): number {
+  return new Set(entries.filter(entry => books.includes(entry.book)).map(entry => `${entry.book}/${entry.chapter}`)).size;
+}
+
+/**
+ * Streaks, weekly counts and the heatmap only use entries with a timestamp; chapters
+ * migrated from the old boolean status still count towards completion.
+ */
+export function getReadingStats(entries: ReadingLogEntry[], today: string = toDateKey(new Date())): ReadingStats {
+  const dailyCounts: Record<string, number> = {};
+  let totalTimeMs = 0;
+  for (const entry of entries) {
+    totalTimeMs += entry.durationMs || 0;
+    if (entry.readAt === null) continue;
+    const day = toDateKey(new Date(entry.readAt));
+    dailyCounts[day] = (dailyCounts[day] || 0) + 1;
+  }
+
+  const days = Object.keys(dailyCounts).sort();
+  let longestStreak = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && addDays(days[index - 1], 1) === day ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  });
+
+  // A streak is still alive if today's reading has not happened yet.
+  let currentStreak = 0;
+  let cursor = dailyCounts[today] ? today : addDays(today, -1);
+  while (dailyCounts[cursor]) {
+    currentStreak++;
+    cursor = addDays(cursor, -1);
+  }
+
+  const thisWeek = startOfWeek(today);
+  const weeklyCounts = Array.from({ length: WEEKS_SHOWN }, (_, index) => {
+    const weekStart = addDays(thisWeek, -7 * (WEEKS_SHOWN - 1 - index));
+    const count = Array.from({ length: 7 }, (_, day) => dailyCounts[addDays(weekStart, day)] || 0)
+      .reduce((sum, value) => sum + value, 0);
+    return { weekStart, count };
+  });
+
+  return {
+    currentStreak,
+    longestStreak,
+    totalChapters: countReadChapters(entries, [...OLD_TESTAMENT_BOOKS, ...NEW_TESTAMENT_BOOKS]),
+    totalTimeMs,
+    weeklyCounts,
+    testaments: {
+      '구약성경': { read: countReadChapters(entries, OLD_TESTAMENT_BOOKS), total: countChapters(OLD_TESTAMENT_BOOKS) },
+      '신약성경': { read: countReadChapters(entries, NEW_TESTAMENT_BOOKS), total: countChapters(NEW_TESTAMENT_BOOKS) },
+    },
+    dailyCounts,
+  };
+}
@@ -0,0 +1,166 @@
+import { PassageRange, OLD_TESTAMENT_BOOKS, NEW_TESTAMENT_BOOKS } from '../types';
+import { BIBLE_STRUCTURE } from '../data/bibleStructure';
+import { BOOK_ABBREVIATIONS } from '../data/bookAbbreviations';
+import { getVerseCount, isValidRange } from './referenceUtils';
+
+export type ReferenceParseResult =
+  | { ranges: PassageRange[]; range: PassageRange }
+  | { error: string };
+
+// Full names and abbreviations, longest first so '사도행전' wins over '사'.
+const BOOK_ALIASES: [string, string][] = [
+  ...[...OLD_TESTAMENT_BOOKS, ...NEW_TESTAMENT_BOOKS].map((book): [string, string] => [book, book]),
+  ...Object.entries(BOOK_ABBREVIATIONS),
+].sort((a, b) => b[0].length - a[0].length);
+
+// chapter[:verse][-chapter[:verse]]
+const SEGMENT_PATTERN = /^(\d+)(?::(\d+))?(?:-(\d+)(?::(\d+))?)?$/;
+
+// Each alias as a prefix pattern that allows spaces between its letters ("요한 복음", "요한 1서").
+const ALIAS_PATTERNS: [RegExp, string][] = BOOK_ALIASES.map(([alias, book]) =>
+  [new RegExp(`^${[...alias].join('\\s*')}`), book]);
+
+/**
+ * Splits the book name off a typed reference. Spaces are only ignored inside the name; the
+ * rest keeps them, so spaces between numbers can be told apart from the name.
+ */
+export function resolveBookName(input: string): { book: string; rest: string } | null {
+  for (const [pattern, book] of ALIAS_PATTERNS) {
+    const match = input.match(pattern);
+    if (!match) continue;
+    const rest = input.substring(match[0].length).trim();
+    // The alias must end at a non-Hangul character, so '사도' is not read as '사' + '도'.
+    if (rest && /^[가-힣]/.test(rest)) continue;
+    return { book, rest };
+  }
+  return null;
+}
+
+function normalizeNumbers(rest: string): string {
+  return rest
+    .replace(/[~–—]/g, '-')
+    .replace(/장(?=\d)/g, ':')
+    .replace(/[장절]/g, '')
+    .replace(/\./g, ':');
+}
+
+function checkChapter(book: string, chapter: string): string | null {
+  const chapterCount = Object.keys(BIBLE_STRUCTURE[book] || {}).length;
+  if (!BIBLE_STRUCTURE[book]?.[chapter]) {
+    return `${book}은(는) ${chapterCount}장까지 있습니다. (${chapter}장 없음)`;
+  }
+  return null;
+}
+
+function checkVerse(book: string, chapter: string, verse: string): string | null {
+  const verseCount = getVerseCount(book, chapter);
+  if (Number(verse) < 1 || Number(verse) > verseCount) {
+    return `${book} ${chapter}장은 ${verseCount}절까지 있습니다. (${verse}절 없음)`;
+  }
+  return null;
+}
+
+/**
+ * Parses a typed Korean reference such as "창 1:1-5", "요3:16", "고전 13장",
+ * "롬 8:28, 31-39" or "시 23" into ranges validated against BIBLE_STRUCTURE.
+ * `range` spans from the first to the last range, for loading as one passage.
+ */
+export function parseReference(input: string): ReferenceParseResult {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return { error: '성경 구절을 입력하세요. (예: 요 3:16)' };
+  }
+
+  const resolved = resolveBookName(trimmed);
+  if (!resolved) {
+    const token = trimmed.match(/^[^\d\s:]+/)?.[0] || trimmed;
+    return { error: `'${token}'은(는) 알 수 없는 성경 이름입니다.` };
+  }
+
+  const { book } = resolved;
+  // "요1 1:1" is not 요 11:1: numbers split by a space are ambiguous, so they are not joined.
+  const spacedNumbers = resolved.rest.match(/\d+\s+\d+/);
+  if (spacedNumbers) {
+    return { error: `'${spacedNumbers[0]}': 숫자 사이를 띄어 쓸 수 없습니다. 장과 절은 콜론으로 구분하세요. (예: ${book} 1:1)` };
+  }
+  const compactRest = resolved.rest.replace(/\s+/g, '');
+  const chapters = Object.keys(BIBLE_STRUCTURE[book] || {});
+  const isSingleChapterBook = chapters.length === 1;
+  const rest = normalizeNumbers(compactRest);
+
+  if (!rest) {
+    const lastChapter = chapters[chapters.length - 1];
+    const range: PassageRange = {
+      start: { book, chapter: chapters[0], verse: '1' },
+      end: { book, chapter: lastChapter, verse: String(getVerseCount(book, lastChapter)) },
+    };
+    if (!isSingleChapterBook) {
+      return { error: `${book}의 장을 입력하세요. (예: ${book} 1장)` };
+    }
+    return { ranges: [range], range };
+  }
+
+  const ranges: PassageRange[] = [];
+  let contextChapter: string | null = isSingleChapterBook ? chapters[0] : null;
+  // In single-chapter books a bare number is a verse ("유 5"), unless written as a chapter ("유 1장").
+  let inVerseContext = isSingleChapterBook && !/^\d+(?:-\d+)?장$/.test(compactRest);
+
+  for (const segment of rest.split(/[,;]/)) {
+    if (!segment) continue;
+    const match = segment.match(SEGMENT_PATTERN);
+    if (!match) {
+      return { error: `'${segment}'을(를) 장·절로 해석할 수 없습니다.` };
+    }
+    const [, a, b, c, d] = match;
+    let range: PassageRange;
+
+    if (b !== undefined) {
+      // a:b, a:b-c, a:b-c:d
+      const endChapter = d !== undefined ? c : a;
+      const endVerse = d !== undefined ? d : (c ?? b);
+      range = { start: { book, chapter: a, verse: b }, end: { book, chapter: endChapter, verse: endVerse } };
+      contextChapter = endChapter;
+      inVerseContext = true;
+    } else if (d !== undefined) {
+      // a-c:d: from the start of chapter a
+      range = { start: { book, chapter: a, verse: '1' }, end: { book, chapter: c, verse: d } };
+      contextChapter = c;
+      inVerseContext = true;
+    } else if (inVerseContext && contextChapter) {
+      // a or a-c are verses in the current chapter
+      range = { start: { book, chapter: contextChapter, verse: a }, end: { book, chapter: contextChapter, verse: c ?? a } };
+    } else {
+      // a or a-c are whole chapters
+      const endChapter = c ?? a;
+      const chapterError = checkChapter(book, a) || checkChapter(book, endChapter);
+      if (chapterError) return { error: chapterError };
+      range = {
+        start: { book, chapter: a, verse: '1' },
+        end: { book, chapter: endChapter, verse: String(getVerseCount(book, endChapter)) },
+      };
+      contextChapter = endChapter;
+    }
+
+    const error = checkChapter(book, range.start.chapter)
+      || checkChapter(book, range.end.chapter)
+      || checkVerse(book, range.start.chapter, range.start.verse)
+      || checkVerse(book, range.end.chapter, range.end.verse);
+    if (error) return { error };
+
+    const startIndex = chapters.indexOf(range.start.chapter);
+    const endIndex = chapters.indexOf(range.end.chapter);
+    if (startIndex > endIndex || (startIndex === endIndex && Number(range.start.verse) > Number(range.end.verse))) {
+      return { error: `'${segment}': 범위의 끝이 시작보다 앞에 있습니다.` };
+    }
+    ranges.push(range);
+  }
+
+  if (ranges.length === 0) {
+    return { error: `'${trimmed}'을(를) 해석할 수 없습니다.` };
+  }
+  const range: PassageRange = { start: ranges[0].start, end: ranges[ranges.length - 1].end };
+  if (!isValidRange(range)) {
+    return { error: '여러 구절은 앞에서부터 순서대로 입력하세요.' };
+  }
+  return { ranges, range };
+}
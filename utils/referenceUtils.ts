@@ -0,0 +1,131 @@
+import { BookCount, PassageRange, OriginalPassage, OLD_TESTAMENT_BOOKS } from '../types';
+import { BIBLE_STRUCTURE } from '../data/bibleStructure';
+
+export function getTestament(book: string): '구약성경' | '신약성경' {
+  return OLD_TESTAMENT_BOOKS.includes(book) ? '구약성경' : '신약성경';
+}
+
+export function getVerseCount(book: string, chapter: string): number {
+  return BIBLE_STRUCTURE[book]?.[chapter] || 0;
+}
+
+export function wholeChapterRange(book: string, chapter: string): PassageRange {
+  return {
+    start: { book, chapter, verse: '1' },
+    end: { book, chapter, verse: String(getVerseCount(book, chapter)) },
+  };
+}
+
+export function getRangeChapters(range: PassageRange): string[] {
+  const chapters = Object.keys(BIBLE_STRUCTURE[range.start.book] || {});
+  const start = chapters.indexOf(range.start.chapter);
+  const end = chapters.indexOf(range.end.chapter);
+  if (start === -1 || end === -1 || start > end) return [];
+  return chapters.slice(start, end + 1);
+}
+
+/**
+ * Returns the verse bounds of the range within one of its chapters.
+ */
+export function getChapterVerseBounds(range: PassageRange, chapter: string): { from: number; to: number } {
+  return {
+    from: chapter === range.start.chapter ? Number(range.start.verse) : 1,
+    to: chapter === range.end.chapter ? Number(range.end.verse) : getVerseCount(range.start.book, chapter),
+  };
+}
+
+export function isWholeChapterRange(range: PassageRange): boolean {
+  return range.start.verse === '1' && Number(range.end.verse) === getVerseCount(range.end.book, range.end.chapter);
+}
+
+export function isValidRange(range: PassageRange): boolean {
+  if (range.start.book !== range.end.book) return false;
+  const chapters = Object.keys(BIBLE_STRUCTURE[range.start.book] || {});
+  const startIndex = chapters.indexOf(range.start.chapter);
+  const endIndex = chapters.indexOf(range.end.chapter);
+  const startVerse = Number(range.start.verse);
+  const endVerse = Number(range.end.verse);
+  if (startIndex === -1 || endIndex === -1) return false;
+  if (startVerse < 1 || startVerse > getVerseCount(range.start.book, range.start.chapter)) return false;
+  if (endVerse < 1 || endVerse > getVerseCount(range.end.book, range.end.chapter)) return false;
+  return startIndex < endIndex || (startIndex === endIndex && startVerse <= endVerse);
+}
+
+/**
+ * Formats a range the way Korean references are usually written:
+ * "요한복음 3장", "창세기 1-3장", "요한복음 3:16-18", "요한복음 3:16-4:2".
+ */
+export function formatPassageRef(range: PassageRange): string {
+  const { start, end } = range;
+  if (isWholeChapterRange(range)) {
+    return start.chapter === end.chapter
+      ? `${start.book} ${start.chapter}장`
+      : `${start.book} ${start.chapter}-${end.chapter}장`;
+  }
+  if (start.chapter === end.chapter) {
+    return start.verse === end.verse
+      ? `${start.book} ${start.chapter}:${start.verse}`
+      : `${start.book} ${start.chapter}:${start.verse}-${end.verse}`;
+  }
+  return `${start.book} ${start.chapter}:${start.verse}-${end.chapter}:${end.verse}`;
+}
+
+/**
+ * Keeps only the "N. text" lines whose verse number falls within [from, to].
+ */
+export function trimPassageText(text: string, from: number, to: number): string {
+  return text
+    .split('\n')
+    .filter(line => {
+      const match = line.match(/^(\d+)\./);
+      if (!match) return false;
+      const verse = Number(match[1]);
+      return verse >= from && verse <= to;
+    })
+    .join('\n');
+}
+
+/**
+ * The context a word definition is requested and cached with: the whole chapter, so a word
+ * looked up in a few selected verses reuses the definition downloaded for offline reading.
+ */
+export function getDefinitionContext(book: string, chapter: string, chapterText: string): string {
+  return trimPassageText(chapterText, 1, getVerseCount(book, chapter));
+}
+
+export function trimOriginalPassage(passage: OriginalPassage, from: number, to: number): OriginalPassage {
+  const trimmed: OriginalPassage = {};
+  for (const [verse, text] of Object.entries(passage)) {
+    const number = Number(verse);
+    if (number >= from && number <= to) {
+      trimmed[verse] = text;
+    }
+  }
+  return trimmed;
+}
+
+function compareVerses(book: string, a: { chapter: string; verse: string }, b: { chapter: string; verse: string }): number {
+  const chapters = Object.keys(BIBLE_STRUCTURE[book] || {});
+  return (chapters.indexOf(a.chapter) - chapters.indexOf(b.chapter)) || (Number(a.verse) - Number(b.verse));
+}
+
+export function isVerseInRange(range: PassageRange, chapter: string, verse: string): boolean {
+  const book = range.start.book;
+  return compareVerses(book, range.start, { chapter, verse }) <= 0 && compareVerses(book, { chapter, verse }, range.end) <= 0;
+}
+
+/**
+ * Counts consecutive runs of the same book, so canonically ordered items give one count per book.
+ */
+export function countByBook(items: { book: string }[]): BookCount[] {
+  const counts: BookCount[] = [];
+  for (const { book } of items) {
+    const last = counts[counts.length - 1];
+    if (last && last.book === book) {
+      last.count++;
+    } else {
+      counts.push({ book, count: 1 });
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,79 @@
+import { PassageRange } from '../types';
+import { BIBLE_STRUCTURE } from '../data/bibleStructure';
+import { parseReference } from './referenceParser';
+import { getVerseCount, isWholeChapterRange } from './referenceUtils';
+
+export interface PassageRoute {
+  book: string;
+  range: PassageRange | null;
+  focusVerse: string | null; // chapter-qualified, e.g. "3:16"
+}
+
+/**
+ * Builds a hash route such as "#/창세기/1", "#/창세기/1/3" or "#/요한복음/3:16-4:2".
+ */
+export function buildRoute(book: string, range: PassageRange | null, focusVerse: string | null = null): string {
+  const bookPart = `#/${book}`;
+  if (!range) return bookPart;
+
+  const { start, end } = range;
+  if (isWholeChapterRange(range) && start.chapter === end.chapter) {
+    const focus = focusVerse?.startsWith(`${start.chapter}:`) ? `/${focusVerse.split(':')[1]}` : '';
+    return `${bookPart}/${start.chapter}${focus}`;
+  }
+
+  let rangePart: string;
+  if (isWholeChapterRange(range)) {
+    rangePart = `${start.chapter}-${end.chapter}`;
+  } else if (start.chapter === end.chapter) {
+    rangePart = `${start.chapter}:${start.verse}-${end.verse}`;
+  } else {
+    rangePart = `${start.chapter}:${start.verse}-${end.chapter}:${end.verse}`;
+  }
+  return `${bookPart}/${rangePart}${focusVerse ? `/${focusVerse}` : ''}`;
+}
+
+export function parseRoute(hash: string): PassageRoute | null {
+  const path = hash.replace(/^#\/?/, '');
+  if (!path) return null;
+
+  const [bookSegment, rangeSegment, focusSegment] = path.split('/').map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+  const book = bookSegment;
+  if (!BIBLE_STRUCTURE[book]) return null;
+  if (!rangeSegment) return { book, range: null, focusVerse: null };
+
+  const result = parseReference(`${book} ${/^\d+$/.test(rangeSegment) ? `${rangeSegment}장` : rangeSegment}`);
+  if ('error' in result) return { book, range: null, focusVerse: null };
+
+  let focusVerse: string | null = null;
+  if (focusSegment) {
+    focusVerse = /^\d+$/.test(focusSegment) ? `${result.range.start.chapter}:${focusSegment}` : focusSegment;
+    const [chapter, verse] = focusVerse.split(':');
+    if (!verse || Number(verse) < 1 || Number(verse) > getVerseCount(book, chapter)) {
+      focusVerse = null;
+    }
+  }
+  return { book, range: result.range, focusVerse };
+}
+
+export function updateRoute(route: string, mode: 'push' | 'replace' | 'none') {
+  if (mode === 'none') return;
+  let current = window.location.hash;
+  try {
+    current = decodeURI(current);
+  } catch {
+    // keep the raw hash
+  }
+  if (current === route) return;
+  if (mode === 'push') {
+    window.history.pushState(null, '', route);
+  } else {
+    window.history.replaceState(null, '', route);
+  }
+}
@@ -0,0 +1,115 @@
+import { normalizeOriginalWord } from './originalTextUtils';
+
+export type SearchScript = 'korean' | 'hebrew' | 'greek';
+
+export interface Token {
+  start: number;
+  end: number;
+  text: string; // normalized
+}
+
+// Particles whose form depends on whether the preceding syllable ends in a consonant (받침).
+const AFTER_CONSONANT = ['으로서', '으로써', '으로', '과', '은', '을', '이'];
+const AFTER_VOWEL = ['로서', '로써', '로', '와', '는', '를', '가'];
+const AFTER_ANY = ['에게서', '에게', '에서', '께서', '까지', '부터', '처럼', '보다', '에', '의'];
+// Short particles that also end many nouns (사도, 기도), stripped only from longer words.
+const AFTER_LONG_STEM = ['도', '만', '께'];
+// Longest first, so "에게서" is tried before "에게" and "에".
+const PARTICLES = [...AFTER_ANY, ...AFTER_CONSONANT, ...AFTER_VOWEL, ...AFTER_LONG_STEM].sort((a, b) => b.length - a.length);
+
+const HANGUL_START = 0xAC00;
+const HANGUL_END = 0xD7A3;
+const RIEUL_FINAL = 8;
+
+function finalConsonant(syllable: string): number | null {
+  const code = syllable.charCodeAt(0);
+  if (code < HANGUL_START || code > HANGUL_END) return null;
+  return (code - HANGUL_START) % 28;
+}
+
+/**
+ * Strips one trailing particle ('은/는', '이/가', '을/를', '의', '에', '에게', ...) from a
+ * Korean word, e.g. "상자를" -> "상자". Particles that alternate by 받침 are only stripped
+ * in the form that fits the preceding syllable, so "아이" and "사이" are left alone.
+ */
+export function stripKoreanParticle(word: string): string {
+  for (const particle of PARTICLES) {
+    if (!word.endsWith(particle)) continue;
+    const stem = word.slice(0, -particle.length);
+    if (!stem) continue;
+    const final = finalConsonant(stem[stem.length - 1]);
+    if (final === null) continue;
+    if (AFTER_CONSONANT.includes(particle)) {
+      if (final === 0) continue;
+      // 'ㄹ' takes '로', not '으로': "길로".
+      if (particle.startsWith('으로') && final === RIEUL_FINAL) continue;
+    }
+    if (AFTER_VOWEL.includes(particle) && final !== 0) {
+      if (!(particle.startsWith('로') && final === RIEUL_FINAL)) continue;
+    }
+    if (AFTER_LONG_STEM.includes(particle) && stem.length < 2) continue;
+    return stem;
+  }
+  return word;
+}
+
+export function detectScript(text: string): SearchScript {
+  if (/[\u0590-\u05FF]/.test(text)) return 'hebrew';
+  if (/[\u0370-\u03FF\u1F00-\u1FFF]/.test(text)) return 'greek';
+  return 'korean';
+}
+
+/**
+ * Splits verse text into words with their positions. Korean words are lowercased only;
+ * Hebrew and Greek words are reduced to bare letters. The maqaf separates Hebrew words.
+ */
+export function tokenize(text: string, script: SearchScript): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[^\s\u05BE\u05C3.,;:!?()"'\u00B7\u0387\u2018\u2019\u201C\u201D]+/g)) {
+    const normalized = script === 'korean' ? match[0].toLowerCase() : normalizeOriginalWord(match[0]);
+    if (normalized) {
+      tokens.push({ start: match.index, end: match.index + match[0].length, text: normalized });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * The normalized terms of a search query. Korean terms lose their particles, so "빛을"
+ * finds "빛이", "빛과" and "빛".
+ */
+export function parseQuery(query: string): { script: SearchScript; terms: string[] } {
+  const script = detectScript(query);
+  const terms = tokenize(query, script).map(token => script === 'korean' ? stripKoreanParticle(token.text) : token.text);
+  return { script, terms: [...new Set(terms)] };
+}
+
+/**
+ * Korean words match on their beginning, since particles and endings follow the stem.
+ * Hebrew words match anywhere, since prepositions, the article and conjunctions are prefixed.
+ */
+export function matchesTerm(token: string, term: string, script: SearchScript): boolean {
+  if (script === 'korean') return token.startsWith(term);
+  if (script === 'hebrew') return token.includes(term);
+  return token.startsWith(term);
+}
+
+/**
+ * Cuts a long verse down to the part around the first highlight, shifting the highlight
+ * ranges to match.
+ */
+export function makeSnippet(text: string, highlights: [number, number][], radius = 60): { text: string; highlights: [number, number][] } {
+  if (text.length <= radius * 2 || highlights.length === 0) {
+    return { text, highlights };
+  }
+  const from = Math.max(0, highlights[0][0] - radius);
+  const to = Math.min(text.length, highlights[0][1] + radius);
+  const prefix = from > 0 ? '…' : '';
+  const offset = prefix.length - from;
+  return {
+    text: `${prefix}${text.slice(from, to)}${to < text.length ? '…' : ''}`,
+    highlights: highlights
+      .filter(([start, end]) => start >= from && end <= to)
+      .map(([start, end]) => [start + offset, end + offset]),
+  };
+}
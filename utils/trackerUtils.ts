@@ -1,55 +1,141 @@
-import { ReadingStatus } from '../types';
+import { BookProgress, ChapterRef, ReadingLogEntry, ReadingSource, ReadingStatus } from '../types';
+import { BIBLE_STRUCTURE } from '../data/bibleStructure';
+import { readingRecordId, recordEdits } from './editTimeUtils';
 
+// Legacy per-chapter booleans; migrated into the reading log on first load.
 const TRACKER_STORAGE_KEY = 'bibleReadingStatus';
+const READING_LOG_STORAGE_KEY = 'bibleReadingLog';
+const READING_LOG_VERSION = 1;
 
-export function getReadingStatus(): ReadingStatus {
+interface StoredReadingLog {
+  version: number;
+  entries: ReadingLogEntry[];
+}
+
+// Chapter record id -> its completions, for stamping edit times.
+function groupByChapter(entries: ReadingLogEntry[]): Map<string, ReadingLogEntry[]> {
+  const chapters = new Map<string, ReadingLogEntry[]>();
+  for (const entry of entries) {
+    const id = readingRecordId(entry.book, entry.chapter);
+    chapters.set(id, [...(chapters.get(id) || []), entry]);
+  }
+  return chapters;
+}
+
+function readStoredEntries(): ReadingLogEntry[] {
+  try {
+    const stored = localStorage.getItem(READING_LOG_STORAGE_KEY);
+    const log: StoredReadingLog | null = stored ? JSON.parse(stored) : null;
+    return Array.isArray(log?.entries) ? log.entries : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveReadingLog(entries: ReadingLogEntry[]) {
+  recordEdits(groupByChapter(readStoredEntries()), groupByChapter(entries));
   try {
-    const status = localStorage.getItem(TRACKER_STORAGE_KEY);
-    return status ? JSON.parse(status) : {};
+    const stored: StoredReadingLog = { version: READING_LOG_VERSION, entries };
+    localStorage.setItem(READING_LOG_STORAGE_KEY, JSON.stringify(stored));
   } catch (error) {
-    console.error("Failed to parse reading status from localStorage", error);
-    return {};
+     console.error("Failed to save reading log to localStorage", error);
   }
 }
 
-export function markChapterAsRead(book: string, chapter: string) {
+function migrateLegacyStatus(): ReadingLogEntry[] {
+  const legacy = localStorage.getItem(TRACKER_STORAGE_KEY);
+  if (!legacy) return [];
+  const status: ReadingStatus = JSON.parse(legacy);
+  const entries: ReadingLogEntry[] = Object.entries(status).flatMap(([book, chapters]) =>
+    Object.keys(chapters)
+      .filter(chapter => chapters[chapter])
+      .map(chapter => ({ book, chapter, readAt: null, source: 'manual' as const })));
+  saveReadingLog(entries);
+  localStorage.removeItem(TRACKER_STORAGE_KEY);
+  return entries;
+}
+
+/**
+ * Every chapter completion, oldest first. A chapter appears once per time it was read.
+ */
+export function getReadingLog(): ReadingLogEntry[] {
   try {
-    const status = getReadingStatus();
+    const stored = localStorage.getItem(READING_LOG_STORAGE_KEY);
+    if (!stored) {
+      return migrateLegacyStatus();
+    }
+    const log: StoredReadingLog = JSON.parse(stored);
+    return Array.isArray(log.entries) ? log.entries : [];
+  } catch (error) {
+    console.error("Failed to parse reading log from localStorage", error);
+    return [];
+  }
+}
+
+/**
+ * Which chapters have been read at least once, derived from the reading log.
+ */
+export function getReadingStatus(): ReadingStatus {
+  const status: ReadingStatus = {};
+  for (const { book, chapter } of getReadingLog()) {
     if (!status[book]) {
       status[book] = {};
     }
     status[book][chapter] = true;
-    localStorage.setItem(TRACKER_STORAGE_KEY, JSON.stringify(status));
-  } catch (error) {
-     console.error("Failed to save reading status to localStorage", error);
   }
+  return status;
+}
+
+export function markChapterAsRead(book: string, chapter: string, details: { durationMs?: number; source?: ReadingSource } = {}) {
+  const entries = getReadingLog();
+  entries.push({ book, chapter, readAt: Date.now(), durationMs: details.durationMs, source: details.source || 'manual' });
+  saveReadingLog(entries);
+}
+
+function removeChapters(entries: ReadingLogEntry[], chapters: ChapterRef[]): ReadingLogEntry[] {
+  return entries.filter(entry => !chapters.some(({ book, chapter }) => entry.book === book && entry.chapter === chapter));
 }
 
 export function toggleChapterReadStatus(book: string, chapter: string) {
-  try {
+  const entries = getReadingLog();
+  const isRead = entries.some(entry => entry.book === book && entry.chapter === chapter);
+  if (isRead) {
+    // Marking as unread forgets every completion of the chapter.
+    saveReadingLog(removeChapters(entries, [{ book, chapter }]));
+  } else {
+    markChapterAsRead(book, chapter);
+  }
+}
+
+export function setChaptersReadStatus(chapters: ChapterRef[], read: boolean) {
+  const entries = getReadingLog();
+  if (read) {
     const status = getReadingStatus();
-    if (!status[book]) {
-      status[book] = {};
-    }
-    
-    if (status[book][chapter]) {
-      // It's read, so mark as unread by deleting
-      delete status[book][chapter];
-      // Clean up empty book object
-      if (Object.keys(status[book]).length === 0) {
-        delete status[book];
+    const now = Date.now();
+    for (const { book, chapter } of chapters) {
+      if (!isChapterRead(status, book, chapter)) {
+        entries.push({ book, chapter, readAt: now, source: 'manual' });
       }
-    } else {
-      // It's unread, so mark as read
-      status[book][chapter] = true;
     }
-
-    localStorage.setItem(TRACKER_STORAGE_KEY, JSON.stringify(status));
-  } catch (error) {
-     console.error("Failed to save reading status to localStorage", error);
+    saveReadingLog(entries);
+  } else {
+    saveReadingLog(removeChapters(entries, chapters));
   }
 }
 
 export function isChapterRead(status: ReadingStatus, book: string, chapter: string): boolean {
     return !!(status[book] && status[book][chapter]);
-}
\ No newline at end of file
+}
+
+export function calculateBookProgress(status: ReadingStatus, book: string): BookProgress {
+  const chapters = Object.keys(BIBLE_STRUCTURE[book] || {});
+  const totalChapters = chapters.length;
+  if (totalChapters === 0) return { read: 0, total: 0, percentage: 0 };
+
+  const readChapters = chapters.filter(ch => isChapterRead(status, book, ch)).length;
+  return {
+    read: readChapters,
+    total: totalChapters,
+    percentage: Math.round((readChapters / totalChapters) * 100),
+  };
+}
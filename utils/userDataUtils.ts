@@ -0,0 +1,287 @@
+import { Annotations, Bookmark, DisplayPreferences, ImportMode, LastPassage, ReadingLogEntry, ReadingPlanConfig, ReadingStatus, UserDataExport, UserSettings, VocabularyCard } from '../types';
+import { READING_PLANS } from '../data/readingPlans';
+import { COMPARISON_COLUMNS } from '../data/translations';
+import { getReadingLog, saveReadingLog } from './trackerUtils';
+import { getAnnotations, saveAnnotations } from './annotationUtils';
+import { getBookmarks, saveBookmarks, getLastPassage, saveLastPassage } from './bookmarkUtils';
+import { getReadingPlanConfig, saveReadingPlanConfig, clearReadingPlanConfig } from './readingPlanUtils';
+import { getVocabulary, saveVocabulary } from './vocabularyUtils';
+import { getDisplayPreferences, saveDisplayPreferences } from './preferenceUtils';
+
+const EXPORT_FORMAT = 'bible-study-user-data';
+export const USER_DATA_VERSION = 2;
+
+export class UserDataImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserDataImportError';
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Upgrades an export of the given version by one version. Version 0 is the bare
+ * `bibleReadingStatus` object (book -> chapter -> true) that older builds kept in localStorage;
+ * version 1 had no vocabulary or display preferences.
+ */
+const MIGRATIONS: Record<number, (data: UnknownRecord) => UnknownRecord> = {
+  0: data => {
+    const status = data as ReadingStatus;
+    const readingLog: ReadingLogEntry[] = Object.entries(status).flatMap(([book, chapters]) =>
+      isRecord(chapters)
+        ? Object.keys(chapters).filter(chapter => chapters[chapter] === true).map(chapter => ({ book, chapter, readAt: null, source: 'manual' as const }))
+        : []);
+    return {
+      format: EXPORT_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      readingLog,
+      annotations: { highlights: {}, notes: {} },
+      bookmarks: [],
+      settings: { readingPlan: null, lastPassage: null },
+    };
+  },
+  1: data => ({
+    ...data,
+    version: 2,
+    vocabulary: [],
+    settings: { ...(isRecord(data.settings) ? data.settings : {}), displayPreferences: null },
+  }),
+};
+
+export function exportUserData(): UserDataExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: USER_DATA_VERSION,
+    exportedAt: new Date().toISOString(),
+    readingLog: getReadingLog(),
+    annotations: getAnnotations(),
+    bookmarks: getBookmarks(),
+    vocabulary: getVocabulary(),
+    settings: { readingPlan: getReadingPlanConfig(), lastPassage: getLastPassage(), displayPreferences: getDisplayPreferences() },
+  };
+}
+
+function validateReadingLog(value: unknown): ReadingLogEntry[] {
+  if (!Array.isArray(value)) throw new UserDataImportError('읽기 기록 형식이 올바르지 않습니다.');
+  return value.map(entry => {
+    if (!isRecord(entry) || typeof entry.book !== 'string' || typeof entry.chapter !== 'string') {
+      throw new UserDataImportError('읽기 기록에 잘못된 항목이 있습니다.');
+    }
+    if (entry.readAt !== null && typeof entry.readAt !== 'number') {
+      throw new UserDataImportError('읽기 기록에 잘못된 항목이 있습니다.');
+    }
+    const readAt = typeof entry.readAt === 'number' ? entry.readAt : null;
+    return {
+      book: entry.book,
+      chapter: entry.chapter,
+      readAt,
+      durationMs: typeof entry.durationMs === 'number' ? entry.durationMs : undefined,
+      source: entry.source === 'scroll' || entry.source === 'audio' ? entry.source : 'manual',
+    };
+  });
+}
+
+function validateAnnotations(value: unknown): Annotations {
+  if (!isRecord(value) || !isRecord(value.highlights) || !isRecord(value.notes)) {
+    throw new UserDataImportError('메모와 형광펜 형식이 올바르지 않습니다.');
+  }
+  for (const note of Object.values(value.notes)) {
+    if (!isRecord(note) || typeof note.id !== 'string' || typeof note.markdown !== 'string' || !isRecord(note.range)) {
+      throw new UserDataImportError('메모에 잘못된 항목이 있습니다.');
+    }
+  }
+  return value as unknown as Annotations;
+}
+
+function validateBookmarks(value: unknown): Bookmark[] {
+  if (!Array.isArray(value) || value.some(bookmark => !isRecord(bookmark) || typeof bookmark.id !== 'string'
+    || typeof bookmark.book !== 'string' || typeof bookmark.chapter !== 'string')) {
+    throw new UserDataImportError('북마크 형식이 올바르지 않습니다.');
+  }
+  return value as Bookmark[];
+}
+
+const isSchedule = (value: unknown): boolean =>
+  isRecord(value) && typeof value.easeFactor === 'number' && typeof value.interval === 'number'
+  && typeof value.repetitions === 'number' && typeof value.dueDate === 'string';
+
+// The word audio is cached per device, so imported cards start without it.
+function validateVocabulary(value: unknown): VocabularyCard[] {
+  if (!Array.isArray(value)) throw new UserDataImportError('단어장 형식이 올바르지 않습니다.');
+  return value.map(card => {
+    if (!isRecord(card) || typeof card.id !== 'string' || !isRecord(card.definition)
+      || typeof card.definition.originalWord !== 'string' || !isVerseRef(card.ref) || typeof card.addedAt !== 'number'
+      || !isRecord(card.schedules) || !isSchedule(card.schedules.recognition) || !isSchedule(card.schedules.recall)) {
+      throw new UserDataImportError('단어장에 잘못된 항목이 있습니다.');
+    }
+    return { ...(card as unknown as VocabularyCard), verseText: typeof card.verseText === 'string' ? card.verseText : '', hasAudio: false };
+  });
+}
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isVerseRef = (value: unknown): boolean =>
+  isRecord(value) && typeof value.book === 'string' && typeof value.chapter === 'string' && typeof value.verse === 'string';
+
+// An invalid plan would break plan generation on every start, so the whole file is rejected.
+function validateReadingPlan(value: unknown): ReadingPlanConfig | null {
+  if (value === null || value === undefined) return null;
+  const isValid = isRecord(value)
+    && READING_PLANS.some(plan => plan.id === value.planId)
+    && typeof value.startDate === 'string' && DATE_KEY_PATTERN.test(value.startDate)
+    && Number.isInteger(value.daysPerWeek) && (value.daysPerWeek as number) >= 1 && (value.daysPerWeek as number) <= 7
+    && (value.planId !== 'custom' || (
+      Array.isArray(value.books) && value.books.every(book => typeof book === 'string')
+      && Number.isInteger(value.chaptersPerDay) && (value.chaptersPerDay as number) >= 1
+    ));
+  if (!isValid) throw new UserDataImportError('읽기 계획 설정이 올바르지 않습니다.');
+  return value as unknown as ReadingPlanConfig;
+}
+
+function validateLastPassage(value: unknown): LastPassage | null {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value) || !isRecord(value.range) || !isVerseRef(value.range.start) || !isVerseRef(value.range.end)
+    || typeof value.savedAt !== 'number') {
+    throw new UserDataImportError('마지막으로 읽은 위치 형식이 올바르지 않습니다.');
+  }
+  return value as unknown as LastPassage;
+}
+
+function validateDisplayPreferences(value: unknown): DisplayPreferences | null {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value) || typeof value.interlinear !== 'boolean' || typeof value.comparison !== 'boolean'
+    || !Array.isArray(value.comparisonColumns) || value.comparisonColumns.some(column => !COMPARISON_COLUMNS.includes(column))) {
+    throw new UserDataImportError('보기 설정 형식이 올바르지 않습니다.');
+  }
+  return value as unknown as DisplayPreferences;
+}
+
+function validateSettings(value: unknown): UserSettings {
+  if (!isRecord(value)) throw new UserDataImportError('설정 형식이 올바르지 않습니다.');
+  return {
+    readingPlan: validateReadingPlan(value.readingPlan),
+    lastPassage: validateLastPassage(value.lastPassage),
+    displayPreferences: validateDisplayPreferences(value.displayPreferences),
+  };
+}
+
+/**
+ * Parses an export file, migrating older versions to the current one.
+ * Throws UserDataImportError with a message suitable for the UI.
+ */
+export function parseUserDataFile(text: string): UserDataExport {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new UserDataImportError('JSON 파일을 읽을 수 없습니다.');
+  }
+  if (!isRecord(raw)) throw new UserDataImportError('지원하지 않는 파일 형식입니다.');
+
+  let data: UnknownRecord = raw;
+  const fileVersion = raw.format === EXPORT_FORMAT ? raw.version : 0;
+  if (typeof fileVersion !== 'number') throw new UserDataImportError('파일의 버전 정보가 없습니다.');
+  let version = fileVersion;
+  if (version > USER_DATA_VERSION) {
+    throw new UserDataImportError('더 새로운 버전에서 내보낸 파일입니다. 앱을 업데이트한 뒤 다시 시도해주세요.');
+  }
+  while (version < USER_DATA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new UserDataImportError(`버전 ${version} 파일은 가져올 수 없습니다.`);
+    data = migrate(data);
+    version = data.version as number;
+  }
+
+  return {
+    format: EXPORT_FORMAT,
+    version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : new Date().toISOString(),
+    readingLog: validateReadingLog(data.readingLog),
+    annotations: validateAnnotations(data.annotations),
+    bookmarks: validateBookmarks(data.bookmarks),
+    vocabulary: validateVocabulary(data.vocabulary),
+    settings: validateSettings(data.settings),
+  };
+}
+
+const logEntryKey = (entry: ReadingLogEntry) => `${entry.book}/${entry.chapter}/${entry.readAt ?? ''}`;
+
+function mergeReadingLogs(current: ReadingLogEntry[], incoming: ReadingLogEntry[]): ReadingLogEntry[] {
+  const seen = new Set(current.map(logEntryKey));
+  const readChapters = new Set(current.map(entry => `${entry.book}/${entry.chapter}`));
+  const merged = [...current];
+  for (const entry of incoming) {
+    // Undated entries only say "read at some point"; skip them once the chapter is already read.
+    if (entry.readAt === null && readChapters.has(`${entry.book}/${entry.chapter}`)) continue;
+    if (seen.has(logEntryKey(entry))) continue;
+    seen.add(logEntryKey(entry));
+    readChapters.add(`${entry.book}/${entry.chapter}`);
+    merged.push(entry);
+  }
+  return merged.sort((a, b) => (a.readAt ?? 0) - (b.readAt ?? 0));
+}
+
+function mergeAnnotations(current: Annotations, incoming: Annotations): Annotations {
+  const notes = { ...current.notes };
+  for (const note of Object.values(incoming.notes)) {
+    if (!notes[note.id] || notes[note.id].updatedAt < note.updatedAt) {
+      notes[note.id] = note;
+    }
+  }
+  return { highlights: { ...incoming.highlights, ...current.highlights }, notes };
+}
+
+function mergeBookmarks(current: Bookmark[], incoming: Bookmark[]): Bookmark[] {
+  const ids = new Set(current.map(bookmark => bookmark.id));
+  return [...current, ...incoming.filter(bookmark => !ids.has(bookmark.id))];
+}
+
+// A saved word already on this device keeps its review history here.
+function mergeVocabulary(current: VocabularyCard[], incoming: VocabularyCard[]): VocabularyCard[] {
+  const ids = new Set(current.map(card => card.id));
+  return [...current, ...incoming.filter(card => !ids.has(card.id))];
+}
+
+/**
+ * Writes imported data to localStorage. Merging keeps everything on this device and adds
+ * what the file has on top: read chapters are unioned, and the newer copy of a note wins.
+ * Display preferences are only taken over when replacing.
+ */
+export function importUserData(data: UserDataExport, mode: ImportMode) {
+  if (mode === 'replace') {
+    saveReadingLog(data.readingLog);
+    saveAnnotations(data.annotations);
+    saveBookmarks(data.bookmarks);
+    saveVocabulary(data.vocabulary);
+    if (data.settings.displayPreferences) saveDisplayPreferences(data.settings.displayPreferences);
+    if (data.settings.readingPlan) {
+      saveReadingPlanConfig(data.settings.readingPlan);
+    } else {
+      clearReadingPlanConfig();
+    }
+    if (data.settings.lastPassage) saveLastPassage(data.settings.lastPassage);
+    return;
+  }
+
+  saveReadingLog(mergeReadingLogs(getReadingLog(), data.readingLog));
+  saveAnnotations(mergeAnnotations(getAnnotations(), data.annotations));
+  saveBookmarks(mergeBookmarks(getBookmarks(), data.bookmarks));
+  saveVocabulary(mergeVocabulary(getVocabulary(), data.vocabulary));
+  if (data.settings.readingPlan && !getReadingPlanConfig()) {
+    saveReadingPlanConfig(data.settings.readingPlan);
+  }
+  const lastPassage = getLastPassage();
+  if (data.settings.lastPassage && (!lastPassage || lastPassage.savedAt < data.settings.lastPassage.savedAt)) {
+    saveLastPassage(data.settings.lastPassage);
+  }
+}
+
+export function summarizeUserData(data: UserDataExport): string {
+  const chapters = new Set(data.readingLog.map(entry => `${entry.book}/${entry.chapter}`)).size;
+  return `읽은 장 ${chapters}개, 메모 ${Object.keys(data.annotations.notes).length}개, 형광펜 ${Object.keys(data.annotations.highlights).length}개, 북마크 ${data.bookmarks.length}개, 단어 ${data.vocabulary.length}개`;
+}
@@ -0,0 +1,109 @@
+import { ReviewDirection, ReviewGrade, ReviewSchedule, VerseRef, VocabularyCard, WordDefinition } from '../types';
+import { addDays, toDateKey } from './dateUtils';
+
+const VOCABULARY_STORAGE_KEY = 'bibleVocabulary';
+
+export const REVIEW_DIRECTIONS: ReviewDirection[] = ['recognition', 'recall'];
+
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+export interface DueReview {
+  card: VocabularyCard;
+  direction: ReviewDirection;
+}
+
+export function getVocabulary(): VocabularyCard[] {
+  try {
+    const vocabulary = localStorage.getItem(VOCABULARY_STORAGE_KEY);
+    return vocabulary ? JSON.parse(vocabulary) : [];
+  } catch (error) {
+    console.error("Failed to parse vocabulary from localStorage", error);
+    return [];
+  }
+}
+
+export function saveVocabulary(cards: VocabularyCard[]) {
+  try {
+    localStorage.setItem(VOCABULARY_STORAGE_KEY, JSON.stringify(cards));
+  } catch (error) {
+    console.error("Failed to save vocabulary to localStorage", error);
+  }
+}
+
+const newSchedule = (today: string): ReviewSchedule => ({
+  easeFactor: INITIAL_EASE_FACTOR,
+  interval: 0,
+  repetitions: 0,
+  dueDate: today,
+  lastReviewedAt: null,
+});
+
+/**
+ * Saves a word with the verse it was looked up in. Saving a word that is already in the
+ * deck updates its definition and verse but keeps its review history.
+ */
+export function addVocabularyCard(definition: WordDefinition, ref: VerseRef, verseText: string) {
+  const cards = getVocabulary();
+  const existing = cards.find(card => card.id === definition.originalWord);
+  const today = toDateKey(new Date());
+  const card: VocabularyCard = {
+    id: definition.originalWord,
+    definition,
+    ref,
+    verseText,
+    hasAudio: existing?.hasAudio ?? false,
+    addedAt: existing?.addedAt ?? Date.now(),
+    schedules: existing?.schedules ?? { recognition: newSchedule(today), recall: newSchedule(today) },
+  };
+  saveVocabulary([card, ...cards.filter(other => other.id !== card.id)]);
+}
+
+export function removeVocabularyCard(id: string) {
+  saveVocabulary(getVocabulary().filter(card => card.id !== id));
+}
+
+export function markVocabularyAudio(id: string) {
+  saveVocabulary(getVocabulary().map(card => card.id === id ? { ...card, hasAudio: true } : card));
+}
+
+export function isInVocabulary(cards: VocabularyCard[], originalWord: string): boolean {
+  return cards.some(card => card.id === originalWord);
+}
+
+/**
+ * SM-2: a failed review (grade below 3) starts the word over tomorrow; a passed one waits
+ * 1 day, then 6, then the previous interval times the ease factor, which easy answers raise
+ * and hard ones lower.
+ */
+export function scheduleReview(schedule: ReviewSchedule, grade: ReviewGrade, now = new Date()): ReviewSchedule {
+  const today = toDateKey(now);
+  if (grade < 3) {
+    return { ...schedule, repetitions: 0, interval: 1, dueDate: addDays(today, 1), lastReviewedAt: now.getTime() };
+  }
+  const easeFactor = Math.max(MIN_EASE_FACTOR, schedule.easeFactor + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+  const repetitions = schedule.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(schedule.interval * easeFactor);
+  return { easeFactor, interval, repetitions, dueDate: addDays(today, interval), lastReviewedAt: now.getTime() };
+}
+
+export function recordReview(id: string, direction: ReviewDirection, grade: ReviewGrade) {
+  saveVocabulary(getVocabulary().map(card => card.id === id
+    ? { ...card, schedules: { ...card.schedules, [direction]: scheduleReview(card.schedules[direction], grade) } }
+    : card));
+}
+
+// Every card direction due today or earlier, most overdue first.
+export function getDueReviews(cards: VocabularyCard[], now = new Date()): DueReview[] {
+  const today = toDateKey(now);
+  return cards
+    .flatMap(card => REVIEW_DIRECTIONS.map(direction => ({ card, direction })))
+    .filter(({ card, direction }) => card.schedules[direction].dueDate <= today)
+    .sort((a, b) => a.card.schedules[a.direction].dueDate.localeCompare(b.card.schedules[b.direction].dueDate));
+}
+
+export function formatInterval(days: number): string {
+  if (days < 30) return `${days}일`;
+  if (days < 365) return `${Math.round(days / 30)}개월`;
+  return `${Math.round(days / 365 * 10) / 10}년`;
+}
@@ -0,0 +1,42 @@
+// A word of the rendered passage: the index of its verse, and its index among that verse's words.
+export interface WordPosition {
+  verse: number;
+  word: number;
+}
+
+const firstVerseWithWords = (wordCounts: number[], from: number, step: 1 | -1): number => {
+  for (let verse = from; verse >= 0 && verse < wordCounts.length; verse += step) {
+    if (wordCounts[verse] > 0) return verse;
+  }
+  return -1;
+};
+
+/**
+ * The word an arrow key (or Home/End) moves to from `position`, or null when the key does
+ * not move or there is nowhere to go. Left and right step through words, continuing into
+ * the previous or next verse; up and down move to the same word of the neighbouring verse,
+ * or its last word when the verse is shorter. `reversed` swaps left and right for
+ * right-to-left text.
+ */
+export function moveWordPosition(position: WordPosition, key: string, wordCounts: number[], reversed = false): WordPosition | null {
+  const horizontal = reversed ? { ArrowLeft: 1, ArrowRight: -1 } : { ArrowLeft: -1, ArrowRight: 1 };
+  const count = wordCounts[position.verse] ?? 0;
+
+  if (key === 'ArrowLeft' || key === 'ArrowRight') {
+    const step = horizontal[key] as 1 | -1;
+    const word = position.word + step;
+    if (word >= 0 && word < count) return { verse: position.verse, word };
+    const verse = firstVerseWithWords(wordCounts, position.verse + step, step);
+    if (verse < 0) return null;
+    return { verse, word: step === 1 ? 0 : wordCounts[verse] - 1 };
+  }
+  if (key === 'ArrowUp' || key === 'ArrowDown') {
+    const step = key === 'ArrowDown' ? 1 : -1;
+    const verse = firstVerseWithWords(wordCounts, position.verse + step, step);
+    if (verse < 0) return null;
+    return { verse, word: Math.min(position.word, wordCounts[verse] - 1) };
+  }
+  if (key === 'Home' && count > 0) return { verse: position.verse, word: 0 };
+  if (key === 'End' && count > 0) return { verse: position.verse, word: count - 1 };
+  return null;
+}
@@ -12,7 +12,13 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.TEXT_SOURCE': JSON.stringify(env.TEXT_SOURCE),
+        'process.env.LOCAL_TEXT_BASE_URL': JSON.stringify(env.LOCAL_TEXT_BASE_URL),
+        'process.env.LOCAL_KOREAN_FORMAT': JSON.stringify(env.LOCAL_KOREAN_FORMAT),
+        'process.env.LOCAL_ORIGINAL_TEXT': JSON.stringify(env.LOCAL_ORIGINAL_TEXT),
+        'process.env.SYNC_SERVER_URL': JSON.stringify(env.SYNC_SERVER_URL),
+        'process.env.LEXICON_SOURCE': JSON.stringify(env.LEXICON_SOURCE)
       },
       resolve: {
         alias: {